@@ -0,0 +1,260 @@
+/**
+ * @file Organization-wide attendance analytics for admins, built from the
+ * monthly employeeStats documents.
+ */
+import * as admin from "firebase-admin";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions/v2";
+import {
+  differenceInCalendarDays,
+  eachMonthOfInterval,
+  format,
+  getDay,
+  parseISO,
+} from "date-fns";
+import { isUserAdmin } from "./utils";
+import { attendanceAnalyticsSchema, validateInput } from "./validation";
+import { getOrganizationTimeZone, getSessionDateId } from "./config";
+import { countWorkingDays } from "./holidays";
+import { getCancelledStandupDates } from "./standups";
+import { getTeams } from "./teams";
+import {
+  countStatuses,
+  EMPLOYEE_STATS_COLLECTION,
+  type EmployeeMonthStats,
+  type StatusCounts,
+} from "./employeeStats";
+import { attendedDays, presenceDays, toPercentage } from "./performance";
+
+const ANALYTICS_MAX_DAYS = 366;
+
+interface DailyAttendance {
+  date: string;
+  standups: StatusCounts;
+  learningHours: StatusCounts;
+  // Share of the day's marked records that count towards presence
+  standupRate: number;
+  learningRate: number;
+}
+
+interface EmployeeAnalytics {
+  employeeId: string; // Auth uid
+  name: string;
+  teamName: string | null;
+  workingDays: number;
+  standups: StatusCounts;
+  learningHours: StatusCounts;
+  standupPresence: number;
+  learningPresence: number;
+  presencePercentage: number;
+  learningPoints: number;
+}
+
+const totalMarked = (counts: StatusCounts) =>
+  Object.values(counts).reduce((sum, n) => sum + n, 0);
+
+/**
+ * Returns, for a date range, the daily attendance rate per session type, the
+ * statuses recorded on each weekday and one row of metrics per employee.
+ * Presence uses the same measure as getEmployeePerformanceSummary.
+ */
+export const getAttendanceAnalytics = onCall(
+  { region: "asia-south1", timeoutSeconds: 120, cors: true },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Authentication is required.");
+    }
+    if (!isUserAdmin(request.auth)) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only admins and co-admins can view analytics.",
+      );
+    }
+    const { from, teamId, ...input } = validateInput(
+      attendanceAnalyticsSchema,
+      request.data,
+    );
+    if (
+      differenceInCalendarDays(parseISO(input.to), parseISO(from)) >=
+      ANALYTICS_MAX_DAYS
+    ) {
+      throw new HttpsError(
+        "invalid-argument",
+        `Analytics cover at most ${ANALYTICS_MAX_DAYS} days.`,
+      );
+    }
+    // Days that have not happened yet have no attendance and no working days
+    const today = getSessionDateId(await getOrganizationTimeZone());
+    const to = input.to > today ? today : input.to;
+    if (to < from) {
+      throw new HttpsError(
+        "invalid-argument",
+        "The range must include today or an earlier day.",
+      );
+    }
+
+    const db = admin.firestore();
+    const months = eachMonthOfInterval({
+      start: parseISO(from),
+      end: parseISO(to),
+    }).map((date) => format(date, "yyyy-MM"));
+    const [employeesSnapshot, teams, statsSnapshot] = await Promise.all([
+      db.collection("employees").get(),
+      getTeams(),
+      db
+        .collection(EMPLOYEE_STATS_COLLECTION)
+        .where("month", "in", months)
+        .get(),
+    ]);
+
+    const team = teamId ? teams.find((t) => t.id === teamId) : null;
+    if (teamId && !team) {
+      throw new HttpsError("not-found", "The selected team no longer exists.");
+    }
+    const teamOf = new Map<string, { id: string; name: string }>();
+    teams.forEach((t) =>
+      t.memberIds.forEach((uid) => teamOf.set(uid, { id: t.id, name: t.name })),
+    );
+    const employees = employeesSnapshot.docs.filter(
+      (doc) =>
+        doc.data().archived !== true &&
+        (!team || team.memberIds.includes(doc.id)),
+    );
+    const included = new Set(employees.map((doc) => doc.id));
+
+    // Working days depend on the team, since team standups can be cancelled
+    const teamIds = Array.from(
+      new Set(employees.map((doc) => teamOf.get(doc.id)?.id ?? null)),
+    );
+    const workingDaysByTeam = new Map<string | null, number>();
+    await Promise.all(
+      teamIds.map(async (id) => {
+        const cancelled = await getCancelledStandupDates(from, to, id);
+        workingDaysByTeam.set(
+          id,
+          await countWorkingDays(parseISO(from), parseISO(to), cancelled),
+        );
+      }),
+    );
+
+    const statusesByEmployee = new Map<
+      string,
+      {
+        standups: Record<string, string>;
+        learningHours: Record<string, string>;
+        learningPoints: number;
+      }
+    >();
+    const dailyStatuses = new Map<
+      string,
+      { standups: string[]; learningHours: string[] }
+    >();
+    const weekdayStatuses = Array.from({ length: 7 }, () => ({
+      standups: [] as string[],
+      learningHours: [] as string[],
+    }));
+    const inRange = (date: string) => date >= from && date <= to;
+
+    statsSnapshot.docs.forEach((doc) => {
+      const stats = doc.data() as EmployeeMonthStats;
+      if (!included.has(stats.employeeId)) return;
+      const entry = statusesByEmployee.get(stats.employeeId) ?? {
+        standups: {},
+        learningHours: {},
+        learningPoints: 0,
+      };
+      (
+        [
+          ["standups", stats.standupStatuses],
+          ["learningHours", stats.learningHourStatuses],
+        ] as const
+      ).forEach(([key, statuses]) => {
+        Object.entries(statuses || {})
+          .filter(([date]) => inRange(date))
+          .forEach(([date, status]) => {
+            entry[key][date] = status;
+            const day = dailyStatuses.get(date) ?? {
+              standups: [],
+              learningHours: [],
+            };
+            day[key].push(status);
+            dailyStatuses.set(date, day);
+            weekdayStatuses[getDay(parseISO(date))][key].push(status);
+          });
+      });
+      Object.entries(stats.learningPointsByDay || {})
+        .filter(([date]) => inRange(date))
+        .forEach(([, count]) => {
+          entry.learningPoints += count;
+        });
+      statusesByEmployee.set(stats.employeeId, entry);
+    });
+
+    const toCounts = (statuses: string[]) =>
+      countStatuses(Object.fromEntries(statuses.entries()));
+
+    const daily: DailyAttendance[] = Array.from(dailyStatuses.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, day]) => {
+        const standups = toCounts(day.standups);
+        const learningHours = toCounts(day.learningHours);
+        return {
+          date,
+          standups,
+          learningHours,
+          standupRate: toPercentage(
+            presenceDays(standups),
+            totalMarked(standups),
+          ),
+          learningRate: toPercentage(
+            presenceDays(learningHours),
+            totalMarked(learningHours),
+          ),
+        };
+      });
+
+    const employeeRows: EmployeeAnalytics[] = employees.map((doc) => {
+      const entry = statusesByEmployee.get(doc.id);
+      const standups = countStatuses(entry?.standups ?? {});
+      const learningHours = countStatuses(entry?.learningHours ?? {});
+      const workingDays =
+        workingDaysByTeam.get(teamOf.get(doc.id)?.id ?? null) ?? 0;
+      return {
+        employeeId: doc.id,
+        name: doc.data().name || "",
+        teamName: teamOf.get(doc.id)?.name ?? null,
+        workingDays,
+        standups,
+        learningHours,
+        standupPresence: toPercentage(attendedDays(standups), workingDays),
+        learningPresence: toPercentage(
+          attendedDays(learningHours),
+          workingDays,
+        ),
+        presencePercentage: toPercentage(presenceDays(standups), workingDays),
+        learningPoints: entry?.learningPoints ?? 0,
+      };
+    });
+
+    logger.info("Attendance analytics built", {
+      userId: request.auth.uid,
+      from,
+      to,
+      teamId: teamId ?? null,
+      employees: employeeRows.length,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      from,
+      to,
+      daily,
+      // Indexed by weekday as returned by Date#getDay (0 = Sunday)
+      weekdays: weekdayStatuses.map((day) => ({
+        standups: toCounts(day.standups),
+        learningHours: toCounts(day.learningHours),
+      })),
+      employees: employeeRows,
+    };
+  },
+);
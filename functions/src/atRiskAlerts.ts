@@ -0,0 +1,426 @@
+/**
+ * @file Daily detection of employees who are slipping, against the thresholds
+ * in `config/atRiskAlerts`. Findings are kept in `alerts` for admins to
+ * acknowledge and resolve from the dashboard.
+ */
+import * as admin from "firebase-admin";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions/v2";
+import { eachMonthOfInterval, format, parseISO, subDays } from "date-fns";
+import {
+  DEFAULT_TIME_ZONE,
+  EVENING_JOB_WEEKDAYS,
+  getAtRiskAlertConfig,
+  getDailyRunDate,
+} from "./config";
+import { countWorkingDays } from "./holidays";
+import { getCancelledStandupDates } from "./standups";
+import { getTeams } from "./teams";
+import {
+  EMPLOYEE_STATS_COLLECTION,
+  type EmployeeMonthStats,
+} from "./employeeStats";
+import { toPercentage } from "./performance";
+import { FEEDBACK_ENTRIES_COLLECTION } from "./feedbackImport";
+
+export const ALERTS_COLLECTION = "alerts";
+
+export type AlertRule =
+  | "missed-standups"
+  | "low-learning-presence"
+  | "feedback-drop"
+  | "no-learning-points";
+
+// One imported feedback row, as stored in `feedbackEntries`
+interface FeedbackEntry {
+  employeeId: string;
+  date: string; // yyyy-MM-dd
+  understanding: number;
+  instructor: number;
+}
+
+interface AlertFinding {
+  rule: AlertRule;
+  message: string;
+  value: number;
+  threshold: number;
+}
+
+// Feedback from the last week is compared with the lookback window before it
+const FEEDBACK_RECENT_DAYS = 7;
+// Streak rules look back at most this far, whatever the lookback window
+const HISTORY_MONTHS = 3;
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/** Dates of a per-day status map, most recent first. */
+const latestFirst = (statuses: Record<string, string>) =>
+  Object.keys(statuses).sort((a, b) => b.localeCompare(a));
+
+/** How many of the most recent dates in a row satisfy `matches`. */
+function leadingRun(dates: string[], matches: (date: string) => boolean) {
+  const index = dates.findIndex((date) => !matches(date));
+  return index === -1 ? dates.length : index;
+}
+
+function checkMissedStandups(
+  standupStatuses: Record<string, string>,
+  threshold: number,
+): AlertFinding | null {
+  const streak = leadingRun(
+    latestFirst(standupStatuses),
+    (date) => standupStatuses[date] === "Missed",
+  );
+  return streak >= threshold
+    ? {
+        rule: "missed-standups",
+        message: `Missed the last ${streak} standups in a row.`,
+        value: streak,
+        threshold,
+      }
+    : null;
+}
+
+function checkLearningPresence(
+  learningHourStatuses: Record<string, string>,
+  from: string,
+  workingDays: number,
+  threshold: number,
+): AlertFinding | null {
+  if (workingDays === 0) return null;
+  // Present and Late count as attended, as in the performance summary
+  const attended = Object.entries(learningHourStatuses).filter(
+    ([date, status]) =>
+      date >= from && (status === "Present" || status === "Late"),
+  ).length;
+  const presence = toPercentage(attended, workingDays);
+  return presence < threshold
+    ? {
+        rule: "low-learning-presence",
+        message: `Learning-hour presence is ${presence}% (${attended} of ${workingDays} working days).`,
+        value: presence,
+        threshold,
+      }
+    : null;
+}
+
+function checkLearningPoints(
+  stats: Pick<
+    EmployeeMonthStats,
+    "learningHourStatuses" | "learningPointsByDay"
+  >,
+  threshold: number,
+): AlertFinding | null {
+  const attendedDates = latestFirst(stats.learningHourStatuses).filter(
+    (date) =>
+      stats.learningHourStatuses[date] === "Present" ||
+      stats.learningHourStatuses[date] === "Late",
+  );
+  const streak = leadingRun(
+    attendedDates,
+    (date) => !stats.learningPointsByDay[date],
+  );
+  return streak >= threshold
+    ? {
+        rule: "no-learning-points",
+        message: `No learning points in the last ${streak} learning hours attended.`,
+        value: streak,
+        threshold,
+      }
+    : null;
+}
+
+/** First day of the recent feedback window and of the trailing one before it. */
+function feedbackWindows(today: string, lookbackDays: number) {
+  const recentFrom = subDays(parseISO(today), FEEDBACK_RECENT_DAYS - 1);
+  return {
+    recentFrom: format(recentFrom, "yyyy-MM-dd"),
+    trailingFrom: format(subDays(recentFrom, lookbackDays), "yyyy-MM-dd"),
+  };
+}
+
+function checkFeedbackDrop(
+  entries: FeedbackEntry[],
+  today: string,
+  lookbackDays: number,
+  threshold: number,
+): AlertFinding | null {
+  const { recentFrom, trailingFrom } = feedbackWindows(today, lookbackDays);
+  const recent = entries.filter((e) => e.date >= recentFrom && e.date <= today);
+  const trailing = entries.filter(
+    (e) => e.date >= trailingFrom && e.date < recentFrom,
+  );
+  if (recent.length === 0 || trailing.length === 0) return null;
+
+  const average = (
+    list: FeedbackEntry[],
+    key: "understanding" | "instructor",
+  ) => list.reduce((sum, r) => sum + r[key], 0) / list.length;
+  const drops = (
+    [
+      ["Understanding", "understanding"],
+      ["Instructor", "instructor"],
+    ] as const
+  )
+    .map(([label, key]) => ({
+      label,
+      before: round1(average(trailing, key)),
+      after: round1(average(recent, key)),
+    }))
+    .filter(({ before, after }) => before - after >= threshold);
+  if (drops.length === 0) return null;
+
+  return {
+    rule: "feedback-drop",
+    message:
+      drops
+        .map((d) => `${d.label} rating fell from ${d.before} to ${d.after}`)
+        .join("; ") +
+      ` (last ${FEEDBACK_RECENT_DAYS} days against the ${lookbackDays} before).`,
+    value: round1(Math.max(...drops.map((d) => d.before - d.after))),
+    threshold,
+  };
+}
+
+/**
+ * Evaluates every enabled rule for each active employee, opens an alert for
+ * each new finding and refreshes the ones it already tracks. An alert an admin
+ * resolved stays resolved while its condition holds; only once the condition
+ * has cleared (`conditionClearedAt`) can a later finding open a new one. Open
+ * or acknowledged alerts whose condition has cleared are resolved. Runs at
+ * 20:00 local time, Monday to Saturday.
+ */
+export const detectAtRiskEmployees = onSchedule(
+  {
+    region: "asia-south1",
+    schedule: "0 * * * *",
+    timeZone: DEFAULT_TIME_ZONE,
+    timeoutSeconds: 540,
+    memory: "512MiB",
+  },
+  async (event) => {
+    const today = await getDailyRunDate(
+      new Date(event.scheduleTime),
+      20,
+      EVENING_JOB_WEEKDAYS,
+    );
+    if (!today) {
+      return;
+    }
+    const db = admin.firestore();
+    const config = await getAtRiskAlertConfig();
+    const from = format(
+      subDays(parseISO(today), config.lookbackDays - 1),
+      "yyyy-MM-dd",
+    );
+    const months = eachMonthOfInterval({
+      start: subDays(parseISO(today), HISTORY_MONTHS * 31),
+      end: parseISO(today),
+    }).map((date) => format(date, "yyyy-MM"));
+
+    const [
+      employeesSnapshot,
+      teams,
+      statsSnapshot,
+      activeSnapshot,
+      heldSnapshot,
+    ] = await Promise.all([
+      db.collection("employees").get(),
+      getTeams(),
+      db
+        .collection(EMPLOYEE_STATS_COLLECTION)
+        .where("month", "in", months)
+        .get(),
+      db
+        .collection(ALERTS_COLLECTION)
+        .where("status", "in", ["open", "acknowledged"])
+        .get(),
+      // Resolved by an admin while the condition still held
+      db
+        .collection(ALERTS_COLLECTION)
+        .where("status", "==", "resolved")
+        .where("conditionClearedAt", "==", null)
+        .get(),
+    ]);
+
+    // Merges each employee's months into single per-day maps
+    const history = new Map<
+      string,
+      Pick<
+        EmployeeMonthStats,
+        "standupStatuses" | "learningHourStatuses" | "learningPointsByDay"
+      >
+    >();
+    statsSnapshot.docs.forEach((doc) => {
+      const stats = doc.data() as EmployeeMonthStats;
+      const merged = history.get(stats.employeeId) ?? {
+        standupStatuses: {},
+        learningHourStatuses: {},
+        learningPointsByDay: {},
+      };
+      Object.assign(merged.standupStatuses, stats.standupStatuses);
+      Object.assign(merged.learningHourStatuses, stats.learningHourStatuses);
+      Object.assign(merged.learningPointsByDay, stats.learningPointsByDay);
+      history.set(stats.employeeId, merged);
+    });
+
+    const teamIdOf = new Map<string, string>();
+    teams.forEach((team) =>
+      team.memberIds.forEach((uid) => teamIdOf.set(uid, team.id)),
+    );
+    const employees = employeesSnapshot.docs.filter(
+      (doc) => doc.data().archived !== true,
+    );
+
+    const workingDaysByTeam = new Map<string | null, number>();
+    if (config.learningPresenceBelow !== null) {
+      const teamIds = new Set(
+        employees.map((doc) => teamIdOf.get(doc.id) ?? null),
+      );
+      for (const teamId of teamIds) {
+        const cancelled = await getCancelledStandupDates(from, today, teamId);
+        workingDaysByTeam.set(
+          teamId,
+          await countWorkingDays(parseISO(from), parseISO(today), cancelled),
+        );
+      }
+    }
+
+    // Imported by scheduledFeedbackImport shortly before this runs
+    const feedbackByEmployee = new Map<string, FeedbackEntry[]>();
+    if (config.feedbackDrop !== null) {
+      const feedbackSnapshot = await db
+        .collection(FEEDBACK_ENTRIES_COLLECTION)
+        .where(
+          "date",
+          ">=",
+          feedbackWindows(today, config.lookbackDays).trailingFrom,
+        )
+        .get();
+      feedbackSnapshot.docs.forEach((doc) => {
+        const entry = doc.data() as FeedbackEntry;
+        const list = feedbackByEmployee.get(entry.employeeId) ?? [];
+        list.push(entry);
+        feedbackByEmployee.set(entry.employeeId, list);
+      });
+    }
+
+    const trackedByKey = new Map(
+      [...activeSnapshot.docs, ...heldSnapshot.docs].map((doc) => [
+        `${doc.data().employeeId}|${doc.data().rule}`,
+        doc,
+      ]),
+    );
+    const writer = db.bulkWriter();
+    let opened = 0;
+    let cleared = 0;
+
+    for (const doc of employees) {
+      const employee = doc.data();
+      const stats = history.get(doc.id) ?? {
+        standupStatuses: {},
+        learningHourStatuses: {},
+        learningPointsByDay: {},
+      };
+      const evaluated = new Set<AlertRule>();
+      const findings: AlertFinding[] = [];
+      const record = (rule: AlertRule, finding: AlertFinding | null) => {
+        evaluated.add(rule);
+        if (finding) findings.push(finding);
+      };
+
+      if (config.consecutiveMissedStandups !== null) {
+        record(
+          "missed-standups",
+          checkMissedStandups(
+            stats.standupStatuses,
+            config.consecutiveMissedStandups,
+          ),
+        );
+      }
+      if (config.learningPresenceBelow !== null) {
+        record(
+          "low-learning-presence",
+          checkLearningPresence(
+            stats.learningHourStatuses,
+            from,
+            workingDaysByTeam.get(teamIdOf.get(doc.id) ?? null) ?? 0,
+            config.learningPresenceBelow,
+          ),
+        );
+      }
+      if (config.sessionsWithoutLearningPoints !== null) {
+        record(
+          "no-learning-points",
+          checkLearningPoints(stats, config.sessionsWithoutLearningPoints),
+        );
+      }
+      if (
+        config.feedbackDrop !== null &&
+        typeof employee.feedbackSheetUrl === "string" &&
+        employee.feedbackSheetUrl
+      ) {
+        record(
+          "feedback-drop",
+          checkFeedbackDrop(
+            feedbackByEmployee.get(doc.id) ?? [],
+            today,
+            config.lookbackDays,
+            config.feedbackDrop,
+          ),
+        );
+      }
+
+      findings.forEach((finding) => {
+        const tracked = trackedByKey.get(`${doc.id}|${finding.rule}`);
+        const details = {
+          message: finding.message,
+          value: finding.value,
+          threshold: finding.threshold,
+          employeeName: employee.name || "",
+          lastDetectedAt: admin.firestore.FieldValue.serverTimestamp(),
+        };
+        if (tracked) {
+          writer.update(tracked.ref, details);
+        } else {
+          opened++;
+          writer.create(db.collection(ALERTS_COLLECTION).doc(), {
+            ...details,
+            employeeId: doc.id,
+            rule: finding.rule,
+            status: "open",
+            conditionClearedAt: null,
+            detectedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+        }
+      });
+      evaluated.forEach((rule) => {
+        const tracked = trackedByKey.get(`${doc.id}|${rule}`);
+        if (!tracked || findings.some((f) => f.rule === rule)) {
+          return;
+        }
+        const clearedAt = admin.firestore.FieldValue.serverTimestamp();
+        if (tracked.data().status === "resolved") {
+          writer.update(tracked.ref, { conditionClearedAt: clearedAt });
+        } else {
+          cleared++;
+          writer.update(tracked.ref, {
+            status: "resolved",
+            resolvedBy: "Automatic",
+            resolvedAt: clearedAt,
+            conditionClearedAt: clearedAt,
+          });
+        }
+      });
+    }
+    await writer.close();
+
+    logger.info("At-risk detection finished", {
+      date: today,
+      employees: employees.length,
+      opened,
+      cleared,
+      timestamp: new Date().toISOString(),
+    });
+  },
+);
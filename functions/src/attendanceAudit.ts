@@ -0,0 +1,84 @@
+/**
+ * @file Append-only audit trail of attendance changes.
+ */
+import * as admin from "firebase-admin";
+import type { CallableRequest } from "firebase-functions/v2/https";
+
+export const ATTENDANCE_AUDIT_COLLECTION = "attendanceAudit";
+
+export type AttendanceAuditSource =
+  | "standup-live"
+  | "self-check-in"
+  | "leave"
+  | "standup-end"
+  | "learning-hour-live"
+  | "learning-hour-end"
+  | "manual-edit"
+  | "correction"
+  | "sheet-reconcile";
+
+export interface AttendanceAuditActor {
+  actorId: string | null;
+  actorName: string;
+}
+
+export interface AttendanceAuditEntry extends AttendanceAuditActor {
+  sessionType: "standups" | "learning_hours";
+  // The standup or learning hour document the change belongs to
+  sessionId: string;
+  date: string;
+  employeeId: string;
+  oldStatus: string | null;
+  newStatus: string;
+  reason: string | null;
+  source: AttendanceAuditSource;
+}
+
+// Scheduled jobs act on behalf of no one
+export const SYSTEM_ACTOR: AttendanceAuditActor = {
+  actorId: null,
+  actorName: "System",
+};
+
+export function actorFromAuth(
+  auth: NonNullable<CallableRequest["auth"]>,
+): AttendanceAuditActor {
+  return {
+    actorId: auth.uid,
+    actorName: auth.token.name || auth.token.email || "Admin",
+  };
+}
+
+/**
+ * Queues an audit entry on the transaction or batch that changes the
+ * attendance, so the entry is recorded only if the change commits. Entries
+ * are always new documents and are never updated.
+ */
+export function appendAttendanceAudit(
+  writer: admin.firestore.Transaction,
+  entry: AttendanceAuditEntry,
+): void;
+export function appendAttendanceAudit(
+  writer: admin.firestore.WriteBatch,
+  entry: AttendanceAuditEntry,
+): void;
+export function appendAttendanceAudit(
+  // Both writers share this form of `set`; their unions of overloads do not
+  writer: {
+    set(
+      documentRef: admin.firestore.DocumentReference,
+      data: admin.firestore.DocumentData,
+    ): unknown;
+  },
+  entry: AttendanceAuditEntry,
+): void {
+  const entryRef = admin
+    .firestore()
+    .collection(ATTENDANCE_AUDIT_COLLECTION)
+    .doc();
+  const data = {
+    ...entry,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  writer.set(entryRef, data);
+}
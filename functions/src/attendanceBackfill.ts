@@ -0,0 +1,322 @@
+/**
+ * @file Range syncs of attendance to Google Sheets, tracked as resumable jobs.
+ */
+import * as admin from "firebase-admin";
+import {
+  onCall,
+  HttpsError,
+  type CallableRequest,
+} from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions/v2";
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { isUserAdmin } from "./utils";
+import {
+  attendanceBackfillSchema,
+  syncJobIdSchema,
+  validateInput,
+} from "./validation";
+import { _syncAttendanceToSheet } from "./attendanceSync";
+import { getOrganizationTimeZone, getSessionDateId } from "./config";
+import { SYNC_JOBS_COLLECTION } from "./syncJobs";
+
+const MAX_BACKFILL_DAYS = 366;
+// Stop picking up new days this long before the function would time out
+const RUN_BUDGET_MS = 420 * 1000;
+// Longer than the function timeout, so a lease only lapses once its run is dead
+const LEASE_MS = 600 * 1000;
+
+type BackfillStatus = "queued" | "running" | "completed" | "failed";
+
+interface BackfillJob {
+  type: "attendance-backfill";
+  status: BackfillStatus;
+  from: string;
+  to: string;
+  sessionTypes: ("standups" | "learning_hours")[];
+  teamId: string | null;
+  // First day that has not been synced yet; null once every day is done
+  nextDate: string | null;
+  completedDays: number;
+  totalDays: number;
+  lastError: string | null;
+  leaseExpiresAt: admin.firestore.Timestamp | null;
+}
+
+const nextDay = (date: string) =>
+  format(addDays(parseISO(date), 1), "yyyy-MM-dd");
+
+function requireAdmin(
+  auth: CallableRequest["auth"],
+): NonNullable<CallableRequest["auth"]> {
+  if (!auth) {
+    throw new HttpsError("unauthenticated", "Authentication is required.");
+  }
+  if (!isUserAdmin(auth)) {
+    throw new HttpsError(
+      "permission-denied",
+      "Must be an admin to run this operation.",
+    );
+  }
+  return auth;
+}
+
+/**
+ * Takes the lease on a job unless it is finished or another run still holds
+ * it. Returns the job as claimed, or null when there is nothing to do.
+ */
+async function claimJob(
+  jobRef: admin.firestore.DocumentReference,
+): Promise<BackfillJob | null> {
+  return admin.firestore().runTransaction(async (transaction) => {
+    const snap = await transaction.get(jobRef);
+    const job = snap.data() as BackfillJob | undefined;
+    if (!job || job.status === "completed" || job.status === "failed") {
+      return null;
+    }
+    if (
+      job.status === "running" &&
+      job.leaseExpiresAt &&
+      job.leaseExpiresAt.toMillis() > Date.now()
+    ) {
+      return null;
+    }
+    const leaseExpiresAt = admin.firestore.Timestamp.fromMillis(
+      Date.now() + LEASE_MS,
+    );
+    transaction.update(jobRef, {
+      status: "running",
+      leaseExpiresAt,
+      attempts: admin.firestore.FieldValue.increment(1),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return { ...job, status: "running", leaseExpiresAt };
+  });
+}
+
+/**
+ * Syncs the job's remaining days in order, saving progress after each one so
+ * a later run continues from the first unsynced day. Gives the job back to
+ * the queue when the time budget runs out.
+ */
+async function runBackfillJob(
+  jobRef: admin.firestore.DocumentReference,
+): Promise<BackfillStatus | null> {
+  const job = await claimJob(jobRef);
+  if (!job) {
+    return null;
+  }
+  const deadline = Date.now() + RUN_BUDGET_MS;
+  let date = job.nextDate;
+  let completedDays = job.completedDays;
+
+  while (date && date <= job.to) {
+    if (Date.now() > deadline) {
+      await jobRef.update({
+        status: "queued",
+        leaseExpiresAt: null,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      logger.info("Attendance backfill paused", {
+        jobId: jobRef.id,
+        nextDate: date,
+        timestamp: new Date().toISOString(),
+      });
+      return "queued";
+    }
+
+    let rowsWritten = 0;
+    try {
+      for (const sessionType of job.sessionTypes) {
+        const result = await _syncAttendanceToSheet({
+          date,
+          sessionType,
+          ...(job.teamId ? { teamId: job.teamId } : {}),
+        });
+        rowsWritten += result.rowsWritten;
+      }
+    } catch (error: any) {
+      await jobRef.update({
+        status: "failed",
+        lastError: `${date}: ${error.message}`,
+        leaseExpiresAt: null,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      logger.error("Attendance backfill failed", {
+        jobId: jobRef.id,
+        date,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+      return "failed";
+    }
+
+    completedDays++;
+    date = date < job.to ? nextDay(date) : null;
+    await jobRef.update({
+      nextDate: date,
+      completedDays,
+      rowsWritten: admin.firestore.FieldValue.increment(rowsWritten),
+      lastError: null,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+
+  await jobRef.update({
+    status: "completed",
+    nextDate: null,
+    leaseExpiresAt: null,
+    completedAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  logger.info("Attendance backfill completed", {
+    jobId: jobRef.id,
+    from: job.from,
+    to: job.to,
+    days: completedDays,
+    timestamp: new Date().toISOString(),
+  });
+  return "completed";
+}
+
+const BACKFILL_RUN_OPTIONS = {
+  region: "asia-south1",
+  timeoutSeconds: 540,
+  memory: "256MiB" as const,
+  secrets: ["SHEETS_SA_KEY", "ATTENDANCE_SPREADSHEET_ID"],
+};
+
+/**
+ * Starts a job that syncs every day from `from` to `to` and works through it
+ * until the time budget runs out. Progress is written to the job document,
+ * which the admin UI watches; the resume schedule finishes longer ranges.
+ */
+export const startAttendanceBackfill = onCall(
+  { ...BACKFILL_RUN_OPTIONS, cors: true },
+  async (request) => {
+    const auth = requireAdmin(request.auth);
+    const { from, to, sessionTypes, teamId } = validateInput(
+      attendanceBackfillSchema,
+      request.data,
+    );
+    if (to > getSessionDateId(await getOrganizationTimeZone())) {
+      throw new HttpsError(
+        "invalid-argument",
+        "The range cannot end in the future.",
+      );
+    }
+    const totalDays =
+      differenceInCalendarDays(parseISO(to), parseISO(from)) + 1;
+    if (totalDays > MAX_BACKFILL_DAYS) {
+      throw new HttpsError(
+        "invalid-argument",
+        `A backfill can cover at most ${MAX_BACKFILL_DAYS} days.`,
+      );
+    }
+
+    const jobRef = admin.firestore().collection(SYNC_JOBS_COLLECTION).doc();
+    await jobRef.set({
+      type: "attendance-backfill",
+      status: "queued",
+      from,
+      to,
+      sessionTypes,
+      teamId: teamId ?? null,
+      nextDate: from,
+      completedDays: 0,
+      totalDays,
+      rowsWritten: 0,
+      lastError: null,
+      leaseExpiresAt: null,
+      attempts: 0,
+      createdBy: auth.uid,
+      createdByName: auth.token.name || auth.token.email || "Admin",
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    logger.info("Attendance backfill started", {
+      userId: auth.uid,
+      jobId: jobRef.id,
+      from,
+      to,
+      sessionTypes,
+      teamId: teamId ?? null,
+      timestamp: new Date().toISOString(),
+    });
+
+    const status = await runBackfillJob(jobRef);
+    return { success: true, jobId: jobRef.id, status: status ?? "queued" };
+  },
+);
+
+/**
+ * Re-runs a failed or paused backfill from its first unsynced day.
+ */
+export const resumeAttendanceBackfill = onCall(
+  { ...BACKFILL_RUN_OPTIONS, cors: true },
+  async (request) => {
+    requireAdmin(request.auth);
+    const { jobId } = validateInput(syncJobIdSchema, request.data);
+    const jobRef = admin
+      .firestore()
+      .collection(SYNC_JOBS_COLLECTION)
+      .doc(jobId);
+    const snap = await jobRef.get();
+    const job = snap.data();
+    if (!job || job.type !== "attendance-backfill") {
+      throw new HttpsError("not-found", "Backfill job not found.");
+    }
+    if (job.status === "completed") {
+      return { success: true, jobId, status: "completed" };
+    }
+    if (job.status === "failed") {
+      await jobRef.update({
+        status: "queued",
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+
+    const status = await runBackfillJob(jobRef);
+    if (!status) {
+      throw new HttpsError(
+        "failed-precondition",
+        "This backfill is already running.",
+      );
+    }
+    return { success: true, jobId, status };
+  },
+);
+
+/**
+ * Picks up backfills that ran out of time or whose run died mid-way, one job
+ * per run, oldest first.
+ */
+export const resumeAttendanceBackfills = onSchedule(
+  { ...BACKFILL_RUN_OPTIONS, schedule: "every 10 minutes" },
+  async () => {
+    const snapshot = await admin
+      .firestore()
+      .collection(SYNC_JOBS_COLLECTION)
+      .where("status", "in", ["queued", "running"])
+      .get();
+    const pending = snapshot.docs
+      .filter((doc) => doc.data().type === "attendance-backfill")
+      .sort(
+        (a, b) =>
+          (a.data().createdAt?.toMillis() ?? 0) -
+          (b.data().createdAt?.toMillis() ?? 0),
+      );
+
+    for (const doc of pending) {
+      const status = await runBackfillJob(doc.ref);
+      if (status) {
+        logger.info("Resumed attendance backfill", {
+          jobId: doc.id,
+          status,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+    }
+  },
+);
@@ -0,0 +1,230 @@
+/**
+ * @file Attendance correction requests: employees dispute a standup or learning hour
+ * record, admins approve or reject it, and approval rewrites the record server-side.
+ */
+import * as admin from "firebase-admin";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions/v2";
+import { isUserAdmin } from "./utils";
+import { actorFromAuth, appendAttendanceAudit } from "./attendanceAudit";
+import { getStandupDocId } from "./teams";
+import {
+  ATTENDANCE_COLLECTIONS,
+  flagSessionForResync,
+} from "./attendanceEdits";
+import {
+  attendanceCorrectionSchema,
+  reviewCorrectionSchema,
+  validateInput,
+} from "./validation";
+
+/**
+ * Files a correction for one of the caller's own attendance records.
+ * Only one request per record can be pending at a time.
+ */
+export const requestAttendanceCorrection = onCall(
+  { region: "asia-south1", cors: true },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Authentication is required.");
+    }
+    const uid = request.auth.uid;
+    const { sessionType, date, requestedStatus, reason } = validateInput(
+      attendanceCorrectionSchema,
+      request.data,
+    );
+
+    const db = admin.firestore();
+    const recordId = `${date}_${uid}`;
+    const [employeeDoc, recordDoc, pendingSnapshot] = await Promise.all([
+      db.collection("employees").doc(uid).get(),
+      db.collection(ATTENDANCE_COLLECTIONS[sessionType]).doc(recordId).get(),
+      db
+        .collection("attendanceCorrections")
+        .where("employeeId", "==", uid)
+        .where("status", "==", "pending")
+        .get(),
+    ]);
+
+    if (!employeeDoc.exists || employeeDoc.data()?.archived === true) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only active employees can request corrections.",
+      );
+    }
+    if (!recordDoc.exists) {
+      throw new HttpsError(
+        "not-found",
+        "There is no attendance record for that day.",
+      );
+    }
+    const currentStatus = recordDoc.data()?.status;
+    if (currentStatus === requestedStatus) {
+      throw new HttpsError(
+        "failed-precondition",
+        `You are already marked ${requestedStatus} for that day.`,
+      );
+    }
+    if (
+      pendingSnapshot.docs.some(
+        (doc) =>
+          doc.data().recordId === recordId &&
+          doc.data().sessionType === sessionType,
+      )
+    ) {
+      throw new HttpsError(
+        "already-exists",
+        "A correction for that day is already awaiting review.",
+      );
+    }
+
+    const correctionRef = await db.collection("attendanceCorrections").add({
+      employeeId: uid,
+      employeeName: employeeDoc.data()?.name || "",
+      sessionType,
+      date,
+      recordId,
+      currentStatus,
+      requestedStatus,
+      reason,
+      status: "pending",
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    logger.info("Attendance correction requested", {
+      userId: uid,
+      correctionId: correctionRef.id,
+      sessionType,
+      date,
+      currentStatus,
+      requestedStatus,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: true,
+      id: correctionRef.id,
+      message: "Correction request sent for review.",
+    };
+  },
+);
+
+/**
+ * Approves or rejects a pending correction. Approval rewrites the attendance
+ * record in the same transaction; the request is kept as history either way.
+ */
+export const reviewAttendanceCorrection = onCall(
+  { region: "asia-south1", cors: true },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Authentication is required.");
+    }
+    if (!isUserAdmin(request.auth)) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only admins and co-admins can review corrections.",
+      );
+    }
+    const { correctionId, decision, reviewNote } = validateInput(
+      reviewCorrectionSchema,
+      request.data,
+    );
+    const reviewer = actorFromAuth(request.auth);
+    const reviewerId = request.auth.uid;
+    const reviewerName = reviewer.actorName;
+
+    const db = admin.firestore();
+    const correctionRef = db
+      .collection("attendanceCorrections")
+      .doc(correctionId);
+
+    await db.runTransaction(async (transaction) => {
+      const correctionDoc = await transaction.get(correctionRef);
+      const correction = correctionDoc.data();
+      if (!correctionDoc.exists || !correction) {
+        throw new HttpsError("not-found", "Correction request not found.");
+      }
+      if (correction.status !== "pending") {
+        throw new HttpsError(
+          "failed-precondition",
+          "This correction has already been reviewed.",
+        );
+      }
+
+      const sessionType =
+        correction.sessionType as keyof typeof ATTENDANCE_COLLECTIONS;
+      const recordRef = db
+        .collection(ATTENDANCE_COLLECTIONS[sessionType])
+        .doc(correction.recordId);
+      const recordDoc = await transaction.get(recordRef);
+      const sessionId =
+        sessionType === "standups"
+          ? getStandupDocId(correction.date, recordDoc.data()?.team_id)
+          : correction.date;
+      const sessionDoc = await transaction.get(
+        db.collection(sessionType).doc(sessionId),
+      );
+
+      if (decision === "approved") {
+        if (!recordDoc.exists) {
+          throw new HttpsError(
+            "not-found",
+            "The attendance record no longer exists.",
+          );
+        }
+        const status: string = correction.requestedStatus;
+        transaction.update(recordRef, {
+          status,
+          reason:
+            status === "Not Available"
+              ? correction.reason
+              : admin.firestore.FieldValue.delete(),
+          // Minutes late only describe a Late mark
+          ...(status === "Late"
+            ? {}
+            : { minutes_late: admin.firestore.FieldValue.delete() }),
+          correction_id: correctionId,
+          corrected_by: reviewerName,
+          corrected_at: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        appendAttendanceAudit(transaction, {
+          ...reviewer,
+          sessionType,
+          sessionId,
+          date: correction.date,
+          employeeId: correction.employeeId,
+          oldStatus: recordDoc.data()?.status ?? null,
+          newStatus: status,
+          reason: correction.reason,
+          source: "correction",
+        });
+        flagSessionForResync(transaction, sessionDoc);
+      }
+
+      transaction.update(correctionRef, {
+        status: decision,
+        // The record may have changed since the request was filed
+        previousStatus: recordDoc.data()?.status ?? null,
+        reviewNote: reviewNote || null,
+        reviewedBy: reviewerName,
+        reviewerId,
+        reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+
+    logger.info("Attendance correction reviewed", {
+      userId: reviewerId,
+      correctionId,
+      decision,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: true,
+      message:
+        decision === "approved"
+          ? "Correction approved and attendance updated."
+          : "Correction rejected.",
+    };
+  },
+);
@@ -0,0 +1,223 @@
+/**
+ * @file Admin edits to attendance on past days, applied server-side.
+ */
+import * as admin from "firebase-admin";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions/v2";
+import { zonedTimeToUtc } from "date-fns-tz";
+import { isUserAdmin } from "./utils";
+import { editAttendanceSchema, validateInput } from "./validation";
+import { getStandupDocId } from "./teams";
+import { actorFromAuth, appendAttendanceAudit } from "./attendanceAudit";
+import { getOrganizationTimeZone, getSessionDateId } from "./config";
+
+export const ATTENDANCE_COLLECTIONS = {
+  standups: "attendance",
+  learning_hours: "learning_hours_attendance",
+} as const;
+
+const ID_FIELDS = {
+  standups: "standup_id",
+  learning_hours: "learning_hour_id",
+} as const;
+
+/**
+ * Flags a session whose attendance has already been synced to the sheet, so
+ * admins know the sheet is out of date until the next sync.
+ */
+export function flagSessionForResync(
+  transaction: admin.firestore.Transaction,
+  sessionDoc: admin.firestore.DocumentSnapshot,
+): boolean {
+  if (!sessionDoc.exists || !sessionDoc.data()?.attendanceSyncedAt) {
+    return false;
+  }
+  transaction.update(sessionDoc.ref, {
+    needsResync: true,
+    needsResyncSince: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  return true;
+}
+
+/**
+ * Overwrites attendance records for a standup or learning hour on `date`.
+ * Sessions that never ran get an ended session document so the records have
+ * a schedule to hang off; live and cancelled sessions cannot be edited.
+ */
+export const editAttendanceForDate = onCall(
+  { region: "asia-south1", cors: true },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Authentication is required.");
+    }
+    if (!isUserAdmin(request.auth)) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only admins and co-admins can edit attendance.",
+      );
+    }
+    const { date, sessionType, teamId, records } = validateInput(
+      editAttendanceSchema,
+      request.data,
+    );
+    const timeZone = await getOrganizationTimeZone();
+    if (date > getSessionDateId(timeZone)) {
+      throw new HttpsError(
+        "invalid-argument",
+        "Attendance cannot be recorded for a future date.",
+      );
+    }
+
+    const actor = actorFromAuth(request.auth);
+    const db = admin.firestore();
+    const sessionId =
+      sessionType === "standups" ? getStandupDocId(date, teamId) : date;
+    const sessionRef = db.collection(sessionType).doc(sessionId);
+    const employeeRefs = records.map((r) =>
+      db.collection("employees").doc(r.employeeId),
+    );
+    const recordRefs = records.map((r) =>
+      db
+        .collection(ATTENDANCE_COLLECTIONS[sessionType])
+        .doc(`${date}_${r.employeeId}`),
+    );
+
+    const result = await db.runTransaction(async (transaction) => {
+      const [sessionDoc, teamDoc] = await Promise.all([
+        transaction.get(sessionRef),
+        teamId
+          ? transaction.get(db.collection("teams").doc(teamId))
+          : Promise.resolve(null),
+      ]);
+      const [employeeDocs, existingRecords] = await Promise.all([
+        transaction.getAll(...employeeRefs),
+        transaction.getAll(...recordRefs),
+      ]);
+
+      const team = teamDoc?.data();
+      if (teamDoc && !team) {
+        throw new HttpsError(
+          "not-found",
+          "The selected team no longer exists.",
+        );
+      }
+      const missing = employeeDocs.find((d) => !d.exists);
+      if (missing) {
+        throw new HttpsError("not-found", `Employee ${missing.id} not found.`);
+      }
+      if (team) {
+        const members = new Set<string>(team.memberIds || []);
+        const outsider = records.find((r) => !members.has(r.employeeId));
+        if (outsider) {
+          throw new HttpsError(
+            "invalid-argument",
+            `Employee ${outsider.employeeId} is not a member of ${team.name}.`,
+          );
+        }
+      }
+
+      const sessionData = sessionDoc.data();
+      if (sessionData?.status === "active") {
+        throw new HttpsError(
+          "failed-precondition",
+          "End the session before editing its attendance.",
+        );
+      }
+      if (sessionData?.status === "cancelled") {
+        throw new HttpsError(
+          "failed-precondition",
+          "This session was cancelled; there is no attendance to edit.",
+        );
+      }
+
+      let scheduledAt: admin.firestore.Timestamp = sessionData?.scheduledTime;
+      if (!sessionDoc.exists) {
+        scheduledAt = admin.firestore.Timestamp.fromDate(
+          zonedTimeToUtc(`${date}T00:00:00`, timeZone),
+        );
+        transaction.set(sessionRef, {
+          scheduledTime: scheduledAt,
+          status: "ended",
+          scheduledBy: "Admin (Manual Edit)",
+          createdBy: actor.actorName,
+          ...(sessionType === "standups"
+            ? { date, teamId: teamId ?? null, teamName: team?.name ?? null }
+            : {}),
+        });
+      }
+
+      let changed = 0;
+      records.forEach(({ employeeId, status, reason }, index) => {
+        const employee = employeeDocs[index].data() || {};
+        const record: admin.firestore.DocumentData = {
+          [ID_FIELDS[sessionType]]: date,
+          employee_id: employeeId,
+          employee_name: employee.name || "",
+          employeeId: employee.employeeId || "",
+          employee_email: employee.email || "",
+          status,
+          scheduled_at: scheduledAt,
+          markedAt: admin.firestore.FieldValue.serverTimestamp(),
+          reason:
+            status === "Not Available"
+              ? reason || "No reason provided"
+              : admin.firestore.FieldValue.delete(),
+        };
+        if (sessionType === "standups" && team) {
+          record.team_id = teamId;
+          record.team_name = team.name;
+        }
+        // Lateness only applies to Late records; drop it when the status changes
+        if (status !== "Late") {
+          record.minutes_late = admin.firestore.FieldValue.delete();
+        }
+        transaction.set(recordRefs[index], record, { merge: true });
+
+        const previous = existingRecords[index].data();
+        const newReason =
+          status === "Not Available" ? reason || "No reason provided" : null;
+        if (
+          previous?.status === status &&
+          (previous?.reason ?? null) === newReason
+        ) {
+          return;
+        }
+        changed++;
+        appendAttendanceAudit(transaction, {
+          ...actor,
+          sessionType,
+          sessionId,
+          date,
+          employeeId,
+          oldStatus: previous?.status ?? null,
+          newStatus: status,
+          reason: newReason,
+          source: "manual-edit",
+        });
+      });
+
+      const needsResync =
+        changed > 0 && flagSessionForResync(transaction, sessionDoc);
+      return { changed, needsResync };
+    });
+
+    logger.info("Attendance edited", {
+      userId: request.auth.uid,
+      date,
+      sessionType,
+      teamId: teamId ?? null,
+      records: records.length,
+      changed: result.changed,
+      needsResync: result.needsResync,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: true,
+      ...result,
+      message: result.needsResync
+        ? `Saved ${result.changed} change(s). Re-sync the sheet to publish them.`
+        : `Saved ${result.changed} change(s).`,
+    };
+  },
+);
@@ -0,0 +1,463 @@
+/**
+ * @file Reconciliation of fixes made directly in the attendance sheet back
+ * into Firestore, so the next sync does not overwrite them.
+ */
+import * as admin from "firebase-admin";
+import {
+  onCall,
+  HttpsError,
+  type CallableRequest,
+} from "firebase-functions/v2/https";
+import { logger } from "firebase-functions/v2";
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { google } from "googleapis";
+import {
+  getAttendanceSpreadsheetId,
+  getSheetsAuth,
+  isUserAdmin,
+} from "./utils";
+import {
+  applyReconciliationSchema,
+  attendanceStatusSchema,
+  reconcileAttendanceSchema,
+  validateInput,
+  type ReconcileAttendanceInput,
+} from "./validation";
+import { getAttendanceSheetConfig } from "./config";
+import { getStandupDocId } from "./teams";
+import { columnLetter, resolveSheetTarget } from "./attendanceSync";
+import { ATTENDANCE_COLLECTIONS } from "./attendanceEdits";
+import { actorFromAuth, appendAttendanceAudit } from "./attendanceAudit";
+
+const RECONCILE_MAX_DAYS = 92;
+
+const ID_FIELDS = {
+  standups: "standup_id",
+  learning_hours: "learning_hour_id",
+} as const;
+
+const RECONCILE_OPTIONS = {
+  region: "asia-south1",
+  timeoutSeconds: 120,
+  memory: "256MiB" as const,
+  secrets: ["SHEETS_SA_KEY", "ATTENDANCE_SPREADSHEET_ID"],
+  cors: true,
+};
+
+interface AttendanceValues {
+  status: string;
+  reason: string | null;
+  minutesLate: number | null;
+}
+
+/** One record where the sheet and Firestore disagree, as shown for review. */
+export interface AttendanceDifference {
+  // Attendance record ID, `{date}_{uid}`; the sheet's employee ID stands in
+  // for the uid when no employee matches it
+  id: string;
+  date: string;
+  employeeId: string; // As written in the sheet
+  employeeName: string;
+  // "sheet-only" rows were added in the sheet and have no Firestore record
+  kind: "changed" | "sheet-only";
+  firestore: AttendanceValues | null;
+  sheet: AttendanceValues;
+  // Why the sheet value cannot be applied, e.g. an unknown status
+  problem: string | null;
+}
+
+interface ReconcileEntry {
+  difference: AttendanceDifference;
+  recordRef: admin.firestore.DocumentReference;
+  uid: string;
+  sessionId: string;
+  // Set for sheet-only rows, which need a full record created
+  employee?: admin.firestore.DocumentData;
+  session?: {
+    scheduledAt: admin.firestore.Timestamp;
+    teamId: string | null;
+    teamName: string | null;
+  };
+}
+
+function requireAdmin(
+  auth: CallableRequest["auth"],
+): NonNullable<CallableRequest["auth"]> {
+  if (!auth) {
+    throw new HttpsError("unauthenticated", "Authentication is required.");
+  }
+  if (!isUserAdmin(auth)) {
+    throw new HttpsError(
+      "permission-denied",
+      "Must be an admin to run this operation.",
+    );
+  }
+  return auth;
+}
+
+const normalizeReason = (value: unknown) =>
+  value == null || String(value).trim() === "" ? null : String(value).trim();
+
+/**
+ * Reads the sheet rows for the range and pairs them with the Firestore
+ * records by date and employee ID. Only the fields mapped in the sheet are
+ * compared; records missing from the sheet are counted but not reconciled,
+ * since the next sync writes them anyway.
+ */
+async function compareSheetWithFirestore({
+  from,
+  to,
+  sessionType,
+}: ReconcileAttendanceInput) {
+  if (
+    differenceInCalendarDays(parseISO(to), parseISO(from)) >= RECONCILE_MAX_DAYS
+  ) {
+    throw new HttpsError(
+      "invalid-argument",
+      `Reconcile at most ${RECONCILE_MAX_DAYS} days at a time.`,
+    );
+  }
+
+  const db = admin.firestore();
+  const spreadsheetId = getAttendanceSpreadsheetId();
+  const sheets = google.sheets({ version: "v4", auth: getSheetsAuth() });
+  const target = await resolveSheetTarget(
+    sheets,
+    spreadsheetId,
+    sessionType,
+    await getAttendanceSheetConfig(),
+  );
+  const columns = target.columnIndex;
+  if (columns.status === undefined) {
+    throw new HttpsError(
+      "failed-precondition",
+      "Map the Status field in the sheet sync settings to reconcile attendance.",
+    );
+  }
+
+  const width = Math.max(...Object.values(columns)) + 1;
+  const [sheetData, recordsSnapshot] = await Promise.all([
+    sheets.spreadsheets.values.get({
+      spreadsheetId,
+      range: `${target.rangePrefix}!A2:${columnLetter(width - 1)}`,
+    }),
+    db
+      .collection(ATTENDANCE_COLLECTIONS[sessionType])
+      .where(ID_FIELDS[sessionType], ">=", from)
+      .where(ID_FIELDS[sessionType], "<=", to)
+      .get(),
+  ]);
+
+  // Later rows win, matching what a reader of the sheet would see last
+  const sheetRows = new Map<string, { row: string[]; date: string }>();
+  (sheetData.data.values || []).forEach((row) => {
+    const date = String(row[columns.date] ?? "").trim();
+    const employeeId = String(row[columns.employeeId] ?? "").trim();
+    if (date >= from && date <= to && employeeId) {
+      sheetRows.set(`${date}|${employeeId}`, { row, date });
+    }
+  });
+
+  const records = new Map<string, admin.firestore.QueryDocumentSnapshot>();
+  recordsSnapshot.docs.forEach((doc) => {
+    const data = doc.data();
+    records.set(`${data[ID_FIELDS[sessionType]]}|${data.employeeId}`, doc);
+  });
+  const firestoreOnly = Array.from(records.keys()).filter(
+    (key) => !sheetRows.has(key),
+  ).length;
+
+  const sheetOnlyKeys = Array.from(sheetRows.keys()).filter(
+    (key) => !records.has(key),
+  );
+  const lookups =
+    sheetOnlyKeys.length > 0
+      ? await loadSheetOnlyLookups(sessionType, sheetOnlyKeys)
+      : null;
+
+  const entries: ReconcileEntry[] = [];
+  let matched = 0;
+  sheetRows.forEach(({ row, date }, key) => {
+    const sheetEmployeeId = key.slice(date.length + 1);
+    const cell = (index: number | undefined) =>
+      index === undefined ? undefined : row[index];
+    const record = records.get(key)?.data();
+
+    const status = String(cell(columns.status) ?? "").trim();
+    const rawMinutes = cell(columns.minutesLate);
+    const minutesLate =
+      status === "Late" && normalizeReason(rawMinutes) !== null
+        ? Number(rawMinutes)
+        : null;
+    const sheet: AttendanceValues = {
+      status,
+      reason:
+        columns.reason === undefined
+          ? (record?.reason ?? null)
+          : normalizeReason(cell(columns.reason)),
+      minutesLate:
+        columns.minutesLate === undefined
+          ? status === "Late"
+            ? (record?.minutes_late ?? null)
+            : null
+          : minutesLate,
+    };
+
+    let problem: string | null = null;
+    if (!attendanceStatusSchema.safeParse(status).success) {
+      problem = `Unknown status "${status}"`;
+    } else if (status === "Late" && sessionType === "learning_hours") {
+      problem = "Late only applies to standups";
+    } else if (minutesLate !== null && Number.isNaN(minutesLate)) {
+      problem = "Minutes late must be a number";
+    }
+
+    if (record) {
+      const firestore: AttendanceValues = {
+        status: record.status,
+        reason: record.reason ?? null,
+        minutesLate: record.minutes_late ?? null,
+      };
+      if (
+        firestore.status === sheet.status &&
+        firestore.reason === sheet.reason &&
+        firestore.minutesLate === sheet.minutesLate
+      ) {
+        matched++;
+        return;
+      }
+      const recordDoc = records.get(key)!;
+      entries.push({
+        difference: {
+          id: recordDoc.id,
+          date,
+          employeeId: sheetEmployeeId,
+          employeeName: record.employee_name || "",
+          kind: "changed",
+          firestore,
+          sheet,
+          problem,
+        },
+        recordRef: recordDoc.ref,
+        uid: record.employee_id,
+        sessionId:
+          sessionType === "standups"
+            ? getStandupDocId(date, record.team_id)
+            : date,
+      });
+      return;
+    }
+
+    const employee = lookups?.employees.get(sheetEmployeeId);
+    const session = employee && lookups?.sessionFor(date, employee.id);
+    if (!problem && !employee) {
+      problem = `No employee has the ID ${sheetEmployeeId}`;
+    } else if (!problem && !session) {
+      problem = "No session was held on this date";
+    }
+    const uid = employee?.id ?? sheetEmployeeId;
+    entries.push({
+      difference: {
+        id: `${date}_${uid}`,
+        date,
+        employeeId: sheetEmployeeId,
+        employeeName:
+          employee?.data().name ||
+          String(cell(columns.employeeName) ?? "").trim(),
+        kind: "sheet-only",
+        firestore: null,
+        sheet,
+        problem,
+      },
+      recordRef: db
+        .collection(ATTENDANCE_COLLECTIONS[sessionType])
+        .doc(`${date}_${uid}`),
+      uid,
+      sessionId: session?.id ?? date,
+      employee: employee?.data(),
+      session: session ?? undefined,
+    });
+  });
+
+  entries.sort(
+    (a, b) =>
+      a.difference.date.localeCompare(b.difference.date) ||
+      a.difference.employeeName.localeCompare(b.difference.employeeName),
+  );
+  return { entries, matched, firestoreOnly };
+}
+
+/**
+ * Finds the employees and sessions that rows added in the sheet would belong
+ * to. A standup row goes to the employee's team standup when one was held,
+ * otherwise to the organization-wide standup.
+ */
+async function loadSheetOnlyLookups(
+  sessionType: ReconcileAttendanceInput["sessionType"],
+  keys: string[],
+) {
+  const db = admin.firestore();
+  const dates = Array.from(new Set(keys.map((key) => key.split("|")[0])));
+  const [employeesSnapshot, teamsSnapshot, sessionSnapshots] =
+    await Promise.all([
+      db.collection("employees").get(),
+      sessionType === "standups"
+        ? db.collection("teams").get()
+        : Promise.resolve(null),
+      Promise.all(
+        dates.map((date) =>
+          sessionType === "standups"
+            ? db.collection("standups").where("date", "==", date).get()
+            : db.collection("learning_hours").doc(date).get(),
+        ),
+      ),
+    ]);
+
+  const employees = new Map<string, admin.firestore.QueryDocumentSnapshot>();
+  employeesSnapshot.docs.forEach((doc) => {
+    if (doc.data().employeeId) {
+      employees.set(String(doc.data().employeeId), doc);
+    }
+  });
+  const teamOf = new Map<string, { id: string; name: string }>();
+  teamsSnapshot?.docs.forEach((doc) => {
+    (doc.data().memberIds || []).forEach((uid: string) =>
+      teamOf.set(uid, { id: doc.id, name: doc.data().name }),
+    );
+  });
+
+  const sessions = new Map<string, admin.firestore.DocumentSnapshot>();
+  sessionSnapshots.forEach((snapshot) => {
+    const docs = "docs" in snapshot ? snapshot.docs : [snapshot];
+    docs
+      .filter((doc) => doc.exists && doc.data()?.status !== "cancelled")
+      .forEach((doc) => sessions.set(doc.id, doc));
+  });
+
+  const sessionFor = (date: string, uid: string) => {
+    const team = sessionType === "standups" ? teamOf.get(uid) : undefined;
+    const teamSession = team && sessions.get(getStandupDocId(date, team.id));
+    const doc = teamSession || sessions.get(date);
+    if (!doc?.data()?.scheduledTime) {
+      return null;
+    }
+    return {
+      id: doc.id,
+      scheduledAt: doc.data()!.scheduledTime as admin.firestore.Timestamp,
+      teamId: teamSession ? team.id : null,
+      teamName: teamSession ? team.name : null,
+    };
+  };
+
+  return { employees, sessionFor };
+}
+
+/**
+ * Lists where the attendance sheet disagrees with Firestore for a date range.
+ * Nothing is written; the admin reviews the differences and applies the ones
+ * they accept.
+ */
+export const reconcileAttendanceSheet = onCall(
+  RECONCILE_OPTIONS,
+  async (request) => {
+    requireAdmin(request.auth);
+    const input = validateInput(reconcileAttendanceSchema, request.data);
+    const { entries, matched, firestoreOnly } =
+      await compareSheetWithFirestore(input);
+
+    return {
+      success: true,
+      differences: entries.map((entry) => entry.difference),
+      matched,
+      firestoreOnly,
+    };
+  },
+);
+
+/**
+ * Applies the accepted sheet values to Firestore with an audit entry each.
+ * The comparison is re-run first, so only differences that still exist and
+ * have no problem are applied; the rest are reported as skipped.
+ */
+export const applyAttendanceReconciliation = onCall(
+  RECONCILE_OPTIONS,
+  async (request) => {
+    const auth = requireAdmin(request.auth);
+    const { acceptedIds, ...input } = validateInput(
+      applyReconciliationSchema,
+      request.data,
+    );
+    const { sessionType } = input;
+    const { entries } = await compareSheetWithFirestore(input);
+    const accepted = new Set(acceptedIds);
+    const toApply = entries.filter(
+      (entry) => accepted.has(entry.difference.id) && !entry.difference.problem,
+    );
+
+    const actor = actorFromAuth(auth);
+    const batch = admin.firestore().batch();
+    toApply.forEach((entry) => {
+      const { difference, recordRef, uid, session } = entry;
+      const { status, reason, minutesLate } = difference.sheet;
+      const lateBy = status === "Late" ? minutesLate : null;
+      if (difference.kind === "changed") {
+        batch.update(recordRef, {
+          status,
+          reason: reason ?? admin.firestore.FieldValue.delete(),
+          minutes_late: lateBy ?? admin.firestore.FieldValue.delete(),
+          markedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      } else {
+        // A new record has nothing to delete, so unset fields are left out
+        batch.set(recordRef, {
+          status,
+          ...(reason !== null ? { reason } : {}),
+          ...(lateBy !== null ? { minutes_late: lateBy } : {}),
+          markedAt: admin.firestore.FieldValue.serverTimestamp(),
+          [ID_FIELDS[sessionType]]: difference.date,
+          employee_id: uid,
+          employee_name: entry.employee?.name || "",
+          employeeId: difference.employeeId,
+          employee_email: entry.employee?.email || "",
+          scheduled_at: session!.scheduledAt,
+          ...(session?.teamId
+            ? { team_id: session.teamId, team_name: session.teamName }
+            : {}),
+        });
+      }
+      appendAttendanceAudit(batch, {
+        ...actor,
+        sessionType,
+        sessionId: entry.sessionId,
+        date: difference.date,
+        employeeId: uid,
+        oldStatus: difference.firestore?.status ?? null,
+        newStatus: status,
+        reason,
+        source: "sheet-reconcile",
+      });
+    });
+    if (toApply.length > 0) {
+      await batch.commit();
+    }
+
+    const skipped = acceptedIds.length - toApply.length;
+    logger.info("Attendance reconciled from sheet", {
+      userId: auth.uid,
+      ...input,
+      applied: toApply.length,
+      skipped,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: true,
+      applied: toApply.length,
+      skipped,
+      message:
+        skipped > 0
+          ? `Applied ${toApply.length} change(s). ${skipped} no longer matched the sheet or could not be applied.`
+          : `Applied ${toApply.length} change(s).`,
+    };
+  },
+);
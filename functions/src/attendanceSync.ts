@@ -6,24 +6,189 @@ import { onCall, HttpsError } from "firebase-functions/v2/https";
 import { onSchedule } from "firebase-functions/v2/scheduler";
 import { logger } from "firebase-functions/v2";
 import { google } from "googleapis";
-import { formatInTimeZone } from "date-fns-tz";
 import {
   getAttendanceSpreadsheetId,
   getSheetsAuth,
   isUserAdmin,
 } from "./utils";
-import { syncToSheetSchema, validateInput } from "./validation";
+import {
+  ATTENDANCE_SHEET_FIELDS,
+  attendanceSheetConfigSchema,
+  syncToSheetSchema,
+  validateInput,
+  type AttendanceSheetConfig,
+  type AttendanceSheetField,
+} from "./validation";
+import { getStandupDocId } from "./teams";
+import {
+  DEFAULT_TIME_ZONE,
+  EVENING_JOB_WEEKDAYS,
+  getAttendanceSheetConfig,
+  getDailyRunDate,
+  getOrganizationTimeZone,
+} from "./config";
+import { actorFromAuth, SYSTEM_ACTOR } from "./attendanceAudit";
+import { recordSyncRun, type SyncRunResult } from "./syncJobs";
 
 interface SyncToSheetData {
   date: string;
   sessionType: "standups" | "learning_hours";
+  teamId?: string;
+}
+
+type SheetsClient = ReturnType<typeof google.sheets>;
+
+export interface SheetTarget {
+  sheetId: number;
+  // Quoted tab title, so names with spaces work in A1 ranges
+  rangePrefix: string;
+  // Zero-based column of each mapped field
+  columnIndex: Partial<Record<AttendanceSheetField, number>> &
+    Record<"date" | "employeeId", number>;
+}
+
+const quoteSheetName = (title: string) => `'${title.replace(/'/g, "''")}'`;
+
+/** Converts a zero-based column index to its letter, e.g. 0 -> A, 26 -> AA. */
+export function columnLetter(index: number): string {
+  let letter = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+/**
+ * Finds the tab and columns a session type syncs to. With sync settings the
+ * tab is looked up by name and each mapped header in its first row, so a
+ * missing tab or header fails before any row is deleted. Without settings the
+ * legacy layout applies: tab by position, columns in the original A:I order.
+ */
+export async function resolveSheetTarget(
+  sheets: SheetsClient,
+  spreadsheetId: string,
+  sessionType: "standups" | "learning_hours",
+  config: AttendanceSheetConfig | null,
+): Promise<SheetTarget> {
+  const spreadsheetMeta = await sheets.spreadsheets.get({
+    spreadsheetId,
+    fields: "sheets.properties",
+  });
+  const allSheets = spreadsheetMeta.data.sheets || [];
+
+  if (!config) {
+    const position = sessionType === "standups" ? 0 : 1;
+    const props = allSheets[position]?.properties;
+    if (props?.sheetId == null || props.title == null) {
+      throw new HttpsError(
+        "failed-precondition",
+        "The spreadsheet must contain at least two sheets, or name the target tabs in the sheet sync settings.",
+      );
+    }
+    return {
+      sheetId: props.sheetId,
+      rangePrefix: quoteSheetName(props.title),
+      columnIndex: Object.fromEntries(
+        ATTENDANCE_SHEET_FIELDS.map((field, index) => [field, index]),
+      ) as SheetTarget["columnIndex"],
+    };
+  }
+
+  const tabName = config.tabs[sessionType];
+  const props = allSheets
+    .map((sheet) => sheet.properties)
+    .find((p) => p?.title?.trim() === tabName);
+  if (props?.sheetId == null || props.title == null) {
+    throw new HttpsError(
+      "failed-precondition",
+      `The spreadsheet has no tab named "${tabName}".`,
+    );
+  }
+
+  const rangePrefix = quoteSheetName(props.title);
+  const headerRow = await sheets.spreadsheets.values.get({
+    spreadsheetId,
+    range: `${rangePrefix}!1:1`,
+  });
+  const headers = (headerRow.data.values?.[0] || []).map((header) =>
+    String(header).trim().toLowerCase(),
+  );
+  const missing = config.columns.filter(
+    (column) => !headers.includes(column.header.toLowerCase()),
+  );
+  if (missing.length > 0) {
+    throw new HttpsError(
+      "failed-precondition",
+      `The "${tabName}" tab has no column header ${missing
+        .map((column) => `"${column.header}"`)
+        .join(", ")} in its first row.`,
+    );
+  }
+
+  return {
+    sheetId: props.sheetId,
+    rangePrefix,
+    columnIndex: Object.fromEntries(
+      config.columns.map((column) => [
+        column.field,
+        headers.indexOf(column.header.toLowerCase()),
+      ]),
+    ) as SheetTarget["columnIndex"],
+  };
+}
+
+/**
+ * Records that the sheet now matches Firestore for every session the sync
+ * covered, clearing the re-sync flag left by edits to already-synced days.
+ * An organization-wide standup sync also covers each team's standup that day;
+ * learning hours are shared, so only a sync of every member covers them.
+ */
+async function markSessionsSynced(
+  date: string,
+  sessionType: "standups" | "learning_hours",
+  teamId?: string,
+) {
+  if (sessionType === "learning_hours" && teamId) {
+    return;
+  }
+  const db = admin.firestore();
+  const refs = [db.collection(sessionType).doc(getStandupDocId(date, teamId))];
+  if (sessionType === "standups" && !teamId) {
+    const teamStandups = await db
+      .collection("standups")
+      .where("date", "==", date)
+      .get();
+    teamStandups.docs
+      .filter((doc) => doc.id !== date)
+      .forEach((doc) => refs.push(doc.ref));
+  }
+
+  const sessionDocs = await db.getAll(...refs);
+  const batch = db.batch();
+  sessionDocs
+    .filter((doc) => doc.exists)
+    .forEach((doc) => {
+      batch.update(doc.ref, {
+        attendanceSyncedAt: admin.firestore.FieldValue.serverTimestamp(),
+        needsResync: false,
+      });
+    });
+  await batch.commit();
 }
 
-async function _syncAttendanceToSheet(data: SyncToSheetData) {
+/**
+ * Replaces the sheet rows for one date with the current Firestore records.
+ * Rows are deleted before they are appended, so re-running a date is safe.
+ */
+export async function _syncAttendanceToSheet(
+  data: SyncToSheetData,
+): Promise<SyncRunResult & { success: boolean }> {
   // Validate input using Zod schema
-  const { date, sessionType } = validateInput(syncToSheetSchema, data);
+  const { date, sessionType, teamId } = validateInput(syncToSheetSchema, data);
 
   const SPREADSHEET_ID = getAttendanceSpreadsheetId();
+  // Read first so invalid settings fail before anything is touched
+  const sheetConfig = await getAttendanceSheetConfig();
   const db = admin.firestore();
 
   const collectionName =
@@ -33,21 +198,39 @@ async function _syncAttendanceToSheet(data: SyncToSheetData) {
   const q = db.collection(collectionName).where(idField, "==", date);
   const snapshot = await q.get();
 
-  if (snapshot.empty) {
-    logger.info("No Firestore records found", { date, sessionType });
+  // A team sync only touches that team's members, both in Firestore and in the sheet
+  let teamMemberIds: Set<string> | null = null;
+  if (teamId) {
+    const teamDoc = await db.collection("teams").doc(teamId).get();
+    if (!teamDoc.exists) {
+      throw new HttpsError("not-found", "The selected team no longer exists.");
+    }
+    teamMemberIds = new Set(teamDoc.data()?.memberIds || []);
+  }
+  const docsToSync = teamMemberIds
+    ? snapshot.docs.filter((doc) => teamMemberIds?.has(doc.data().employee_id))
+    : snapshot.docs;
+  const teamEmployeeIds = new Set(
+    docsToSync.map((doc) => doc.data().employeeId).filter(Boolean),
+  );
+
+  if (docsToSync.length === 0) {
+    logger.info("No Firestore records found", { date, sessionType, teamId });
     return {
       success: true,
       message: `No Firestore records found for ${date}. Sheet was not modified.`,
+      rowsWritten: 0,
     };
   }
 
-  const recordsToSync = snapshot.docs.map((doc) => {
+  const timeZone = await getOrganizationTimeZone();
+  const recordsToSync = docsToSync.map((doc) => {
     const data = doc.data();
     const options: Intl.DateTimeFormatOptions = {
       hour12: true,
       hour: "numeric",
       minute: "2-digit",
-      timeZone: "Asia/Kolkata",
+      timeZone,
     };
     const scheduledTime = data.scheduled_at
       ? new Date(data.scheduled_at.toMillis()).toLocaleTimeString(
@@ -55,67 +238,51 @@ async function _syncAttendanceToSheet(data: SyncToSheetData) {
           options,
         )
       : "N/A";
-    return [
-      data.standup_id || data.learning_hour_id,
+    const record: Record<AttendanceSheetField, string | number> = {
+      date: data.standup_id || data.learning_hour_id,
       scheduledTime,
       sessionType,
-      data.employeeId || "",
-      data.employee_name || "",
-      data.employee_email || "",
-      data.status,
-      data.reason || "",
-    ];
+      employeeId: data.employeeId || "",
+      employeeName: data.employee_name || "",
+      employeeEmail: data.employee_email || "",
+      status: data.status,
+      reason: data.reason || "",
+      // Minutes after the session started, only set for Late records
+      minutesLate: data.minutes_late ?? "",
+    };
+    return record;
   });
 
   try {
     const sheets = google.sheets({ version: "v4", auth: getSheetsAuth() });
+    const target = await resolveSheetTarget(
+      sheets,
+      SPREADSHEET_ID,
+      sessionType,
+      sheetConfig,
+    );
+    const { date: dateColumn, employeeId: employeeIdColumn } =
+      target.columnIndex;
 
-    const spreadsheetMeta = await sheets.spreadsheets.get({
-      spreadsheetId: SPREADSHEET_ID,
-    });
-    const allSheets = spreadsheetMeta.data.sheets;
-    if (!allSheets || allSheets.length < 2) {
-      throw new HttpsError(
-        "not-found",
-        "The spreadsheet must contain at least two sheets.",
-      );
-    }
-
-    const targetSheetIndex = sessionType === "standups" ? 0 : 1;
-    const targetSheet = allSheets[targetSheetIndex];
-
-    if (!targetSheet) {
-      throw new HttpsError(
-        "not-found",
-        `No sheet found at index ${targetSheetIndex}.`,
-      );
-    }
-
-    const props = targetSheet.properties || {};
-    if (props.sheetId == null || props.title == null) {
-      throw new HttpsError(
-        "not-found",
-        `Sheet at index ${targetSheetIndex} is missing an ID or title.`,
-      );
-    }
-
-    const sheetId = props.sheetId;
-    const sheetName = props.title;
-
-    const rangeToRead = `${sheetName}!A2:A`;
+    // The employee ID column scopes deletions to a team
     const existingData = await sheets.spreadsheets.values.get({
       spreadsheetId: SPREADSHEET_ID,
-      range: rangeToRead,
+      range: `${target.rangePrefix}!A2:${columnLetter(
+        Math.max(dateColumn, employeeIdColumn),
+      )}`,
     });
 
     const rowsToDelete: any[] = [];
     if (existingData.data.values) {
       existingData.data.values.forEach((row, index) => {
-        if (row[0] === date) {
+        if (
+          row[dateColumn] === date &&
+          (!teamId || teamEmployeeIds.has(row[employeeIdColumn]))
+        ) {
           rowsToDelete.push({
             deleteDimension: {
               range: {
-                sheetId,
+                sheetId: target.sheetId,
                 dimension: "ROWS",
                 startIndex: index + 1,
                 endIndex: index + 2,
@@ -135,23 +302,40 @@ async function _syncAttendanceToSheet(data: SyncToSheetData) {
     }
 
     if (recordsToSync.length > 0) {
+      const width = Math.max(...Object.values(target.columnIndex)) + 1;
+      const rows = recordsToSync.map((record) => {
+        const row: (string | number)[] = new Array(width).fill("");
+        Object.entries(target.columnIndex).forEach(([field, column]) => {
+          row[column] = record[field as AttendanceSheetField];
+        });
+        return row;
+      });
       await sheets.spreadsheets.values.append({
         spreadsheetId: SPREADSHEET_ID,
-        range: `${sheetName}!A:H`,
+        range: `${target.rangePrefix}!A:${columnLetter(width - 1)}`,
         valueInputOption: "USER_ENTERED",
-        requestBody: { values: recordsToSync },
+        requestBody: { values: rows },
       });
+      await markSessionsSynced(date, sessionType, teamId);
       return {
         success: true,
         message: `Successfully synced ${recordsToSync.length} records.`,
+        rowsWritten: recordsToSync.length,
+        rowsDeleted: rowsToDelete.length,
       };
     } else {
+      await markSessionsSynced(date, sessionType, teamId);
       return {
         success: true,
         message: `No Firestore records found for ${date}. Existing sheet data was cleared.`,
+        rowsWritten: 0,
+        rowsDeleted: rowsToDelete.length,
       };
     }
   } catch (err: any) {
+    if (err instanceof HttpsError) {
+      throw err;
+    }
     logger.error("Google Sheets sync failed", {
       error: err.message,
       date: data.date,
@@ -183,21 +367,75 @@ export const syncAttendanceToSheet = onCall<SyncToSheetData>(
       );
     }
 
-    return await _syncAttendanceToSheet(request.data);
+    const data = validateInput(syncToSheetSchema, request.data);
+    return await recordSyncRun(
+      {
+        type: "attendance-sync",
+        trigger: "manual",
+        params: data,
+        actor: actorFromAuth(request.auth),
+      },
+      () => _syncAttendanceToSheet(data),
+    );
   },
 );
 
+/**
+ * Checks sheet sync settings against the spreadsheet before they are saved,
+ * reporting the first missing tab or column header.
+ */
+export const checkAttendanceSheetConfig = onCall<{ config: unknown }>(
+  {
+    region: "asia-south1",
+    secrets: ["SHEETS_SA_KEY", "ATTENDANCE_SPREADSHEET_ID"],
+    cors: true,
+  },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Authentication is required.");
+    }
+    if (!isUserAdmin(request.auth)) {
+      throw new HttpsError(
+        "permission-denied",
+        "Must be an admin to run this operation.",
+      );
+    }
+
+    const config = validateInput(
+      attendanceSheetConfigSchema,
+      request.data?.config,
+    );
+    const spreadsheetId = getAttendanceSpreadsheetId();
+    const sheets = google.sheets({ version: "v4", auth: getSheetsAuth() });
+    for (const sessionType of ["standups", "learning_hours"] as const) {
+      await resolveSheetTarget(sheets, spreadsheetId, sessionType, config);
+    }
+    return {
+      success: true,
+      message: `Found the "${config.tabs.standups}" and "${config.tabs.learning_hours}" tabs with every mapped column.`,
+    };
+  },
+);
+
+// Syncs the day's attendance at 19:30 local time, Monday to Saturday
 export const scheduledSync = onSchedule(
   {
     region: "asia-south1",
-    schedule: "30 19 * * 1-6",
-    timeZone: "Asia/Kolkata",
+    schedule: "30 * * * *",
+    timeZone: DEFAULT_TIME_ZONE,
     secrets: ["SHEETS_SA_KEY", "ATTENDANCE_SPREADSHEET_ID"],
     timeoutSeconds: 300,
     memory: "256MiB",
   },
   async (event: { scheduleTime: any }) => {
-    const dateString = formatInTimeZone(new Date(), "Asia/Kolkata", "yyyy-MM-dd");
+    const dateString = await getDailyRunDate(
+      new Date(event.scheduleTime),
+      19,
+      EVENING_JOB_WEEKDAYS,
+    );
+    if (!dateString) {
+      return;
+    }
 
     logger.info("Starting scheduled sync", {
       scheduleTime: event.scheduleTime,
@@ -205,18 +443,33 @@ export const scheduledSync = onSchedule(
     });
 
     try {
-      const standupResult = await _syncAttendanceToSheet({
-        date: dateString,
-        sessionType: "standups",
-      });
+      const standupResult = await recordSyncRun(
+        {
+          type: "attendance-sync",
+          trigger: "scheduled",
+          params: { date: dateString, sessionType: "standups" },
+          actor: SYSTEM_ACTOR,
+        },
+        () =>
+          _syncAttendanceToSheet({ date: dateString, sessionType: "standups" }),
+      );
       logger.info("Standups sync completed", {
         message: standupResult.message,
       });
 
-      const learningHoursResult = await _syncAttendanceToSheet({
-        date: dateString,
-        sessionType: "learning_hours",
-      });
+      const learningHoursResult = await recordSyncRun(
+        {
+          type: "attendance-sync",
+          trigger: "scheduled",
+          params: { date: dateString, sessionType: "learning_hours" },
+          actor: SYSTEM_ACTOR,
+        },
+        () =>
+          _syncAttendanceToSheet({
+            date: dateString,
+            sessionType: "learning_hours",
+          }),
+      );
       logger.info("Learning hours sync completed", {
         message: learningHoursResult.message,
       });
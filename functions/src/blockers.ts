@@ -0,0 +1,52 @@
+/**
+ * @file Blocker tracking: blockers raised in standup updates and carried over until resolved.
+ */
+import * as admin from "firebase-admin";
+
+export const UNRESOLVED_BLOCKER_STATUSES = ["open", "in-progress"];
+
+/**
+ * Blockers raised in an update are keyed by date and author, so editing the
+ * update refines the same blocker instead of opening another one.
+ */
+export function getBlockerDocId(date: string, employeeId: string): string {
+  return `${date}_${employeeId}`;
+}
+
+/**
+ * Links every unresolved blocker raised by the given members to the standup on
+ * `date`, so it shows up again until someone resolves it. A null roster means
+ * everyone, for the organization-wide standup while there are no teams.
+ * Returns the number of blockers carried over.
+ */
+export async function carryOverOpenBlockers(
+  date: string,
+  memberIds: string[] | null,
+): Promise<number> {
+  const db = admin.firestore();
+  const snapshot = await db
+    .collection("blockers")
+    .where("status", "in", UNRESOLVED_BLOCKER_STATUSES)
+    .get();
+
+  const members = memberIds ? new Set(memberIds) : null;
+  const toCarry = snapshot.docs.filter((doc) => {
+    const data = doc.data();
+    return (
+      (!members || members.has(data.raisedBy)) &&
+      !(data.standupDates || []).includes(date)
+    );
+  });
+  if (toCarry.length === 0) {
+    return 0;
+  }
+
+  const batch = db.batch();
+  toCarry.forEach((doc) => {
+    batch.update(doc.ref, {
+      standupDates: admin.firestore.FieldValue.arrayUnion(date),
+    });
+  });
+  await batch.commit();
+  return toCarry.length;
+}
@@ -0,0 +1,203 @@
+/**
+ * @file Standup self check-in: rotating session codes and employee check-in.
+ */
+import * as admin from "firebase-admin";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions/v2";
+import { createHmac, timingSafeEqual } from "crypto";
+import { getCheckInCodeSecret, isUserAdmin } from "./utils";
+import { checkInCodeSchema, checkInSchema, validateInput } from "./validation";
+import { resolveLateCutoff, resolveStandupEndTime } from "./standups";
+import { findTeamForEmployee, getStandupDocId } from "./teams";
+import { getOrganizationTimeZone, getSessionDateId } from "./config";
+import { AttendanceAuditActor, appendAttendanceAudit } from "./attendanceAudit";
+
+const CODE_ROTATION_MS = 30 * 1000;
+
+/**
+ * Derives the 6-digit code for a standup and rotation window. Codes are never
+ * stored; both the admin display and the check-in recompute them from the secret.
+ */
+function deriveCheckInCode(standupId: string, windowIndex: number): string {
+  const digest = createHmac("sha256", getCheckInCodeSecret())
+    .update(`${standupId}:${windowIndex}`)
+    .digest();
+  return String(digest.readUInt32BE(0) % 1_000_000).padStart(6, "0");
+}
+
+function codesMatch(expected: string, received: string): boolean {
+  return timingSafeEqual(Buffer.from(expected), Buffer.from(received));
+}
+
+/**
+ * Records a member as Present, or Late once the grace window has passed, because
+ * of their own action. Must run after all reads of the given transaction.
+ */
+export async function applySelfCheckIn(
+  transaction: admin.firestore.Transaction,
+  standupRef: admin.firestore.DocumentReference,
+  standupData: admin.firestore.DocumentData,
+  uid: string,
+  now: Date,
+  actor: AttendanceAuditActor,
+): Promise<"Present" | "Late"> {
+  const lateCutoff = await resolveLateCutoff(standupData);
+  const status = now > lateCutoff ? "Late" : "Present";
+  transaction.update(standupRef, {
+    [`tempAttendance.${uid}`]: status,
+    [`checkIns.${uid}`]: admin.firestore.Timestamp.fromDate(now),
+  });
+  appendAttendanceAudit(transaction, {
+    ...actor,
+    sessionType: "standups",
+    sessionId: standupRef.id,
+    date: standupData.date || standupRef.id,
+    employeeId: uid,
+    oldStatus: standupData.tempAttendance?.[uid] ?? null,
+    newStatus: status,
+    reason: null,
+    source: "self-check-in",
+  });
+  return status;
+}
+
+export const getStandupCheckInCode = onCall(
+  { region: "asia-south1", cors: true, secrets: ["CHECKIN_CODE_SECRET"] },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Authentication is required.");
+    }
+    if (!isUserAdmin(request.auth)) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only admins and co-admins can display the check-in code.",
+      );
+    }
+
+    const { teamId } = validateInput(checkInCodeSchema, request.data ?? {});
+    const standupId = getStandupDocId(
+      getSessionDateId(await getOrganizationTimeZone()),
+      teamId,
+    );
+    const standupDoc = await admin
+      .firestore()
+      .collection("standups")
+      .doc(standupId)
+      .get();
+    if (!standupDoc.exists || standupDoc.data()?.status !== "active") {
+      throw new HttpsError(
+        "failed-precondition",
+        "Check-in codes are only available while a standup is active.",
+      );
+    }
+
+    const windowIndex = Math.floor(Date.now() / CODE_ROTATION_MS);
+    return {
+      code: deriveCheckInCode(standupId, windowIndex),
+      expiresAt: (windowIndex + 1) * CODE_ROTATION_MS,
+    };
+  },
+);
+
+export const checkInToStandup = onCall(
+  { region: "asia-south1", cors: true, secrets: ["CHECKIN_CODE_SECRET"] },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Authentication is required.");
+    }
+    const uid = request.auth.uid;
+    const { code } = validateInput(checkInSchema, request.data);
+
+    const db = admin.firestore();
+    const now = new Date();
+    // Members check in to their own team's standup
+    const team = await findTeamForEmployee(uid);
+    const standupId = getStandupDocId(
+      getSessionDateId(await getOrganizationTimeZone(), now),
+      team?.id,
+    );
+    const standupRef = db.collection("standups").doc(standupId);
+
+    // Accept the previous window too so a code typed just before it rotates still works
+    const windowIndex = Math.floor(now.getTime() / CODE_ROTATION_MS);
+    const isValidCode = [windowIndex, windowIndex - 1].some((index) =>
+      codesMatch(deriveCheckInCode(standupId, index), code),
+    );
+    if (!isValidCode) {
+      logger.warn("Invalid standup check-in code", {
+        userId: uid,
+        standupId,
+        timestamp: new Date().toISOString(),
+      });
+      throw new HttpsError(
+        "invalid-argument",
+        "That check-in code is incorrect or has expired.",
+      );
+    }
+
+    const employeeDoc = await db.collection("employees").doc(uid).get();
+    if (!employeeDoc.exists || employeeDoc.data()?.archived === true) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only active employees can check in to the standup.",
+      );
+    }
+
+    const { alreadyPresent, status } = await db.runTransaction(
+      async (transaction) => {
+        const standupDoc = await transaction.get(standupRef);
+        const standupData = standupDoc.data();
+        if (!standupDoc.exists || standupData?.status !== "active") {
+          throw new HttpsError(
+            "failed-precondition",
+            "There is no active standup to check in to.",
+          );
+        }
+
+        const startTime: Date = (
+          standupData.startedAt || standupData.scheduledTime
+        ).toDate();
+        const endTime = await resolveStandupEndTime(standupData);
+        if (now < startTime || now > endTime) {
+          throw new HttpsError(
+            "failed-precondition",
+            "The check-in window for this standup has closed.",
+          );
+        }
+
+        const currentStatus = standupData.tempAttendance?.[uid];
+        if (currentStatus === "Present" || currentStatus === "Late") {
+          return { alreadyPresent: true, status: currentStatus };
+        }
+
+        const status = await applySelfCheckIn(
+          transaction,
+          standupRef,
+          standupData,
+          uid,
+          now,
+          { actorId: uid, actorName: employeeDoc.data()?.name || "" },
+        );
+        return { alreadyPresent: false, status };
+      },
+    );
+
+    logger.info("Employee checked in to standup", {
+      userId: uid,
+      standupId,
+      alreadyPresent,
+      status,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: true,
+      status,
+      message: alreadyPresent
+        ? "You are already checked in."
+        : status === "Late"
+          ? "You're checked in, but marked late."
+          : "You're checked in. See you at the standup!",
+    };
+  },
+);
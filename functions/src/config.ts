@@ -0,0 +1,187 @@
+/**
+ * @file Readers for admin-editable configuration documents stored in the `config` collection.
+ */
+import * as admin from "firebase-admin";
+import { HttpsError } from "firebase-functions/v2/https";
+import { formatInTimeZone } from "date-fns-tz";
+import {
+  atRiskAlertConfigSchema,
+  attendanceSheetConfigSchema,
+  type AtRiskAlertConfig,
+  type AttendanceSheetConfig,
+} from "./validation";
+
+/**
+ * Used until an admin sets `config/organization`. Cron triggers stay pinned to it
+ * because a trigger's time zone is fixed when the function is deployed.
+ */
+export const DEFAULT_TIME_ZONE = "Asia/Kolkata";
+
+export interface StandupDaySchedule {
+  enabled: boolean;
+  startTime: string; // HH:mm in the organization time zone
+  durationMinutes: number;
+}
+
+export interface StandupSchedule {
+  // Keyed by weekday number as returned by Date#getDay (0 = Sunday)
+  days: Record<string, StandupDaySchedule>;
+  // Minutes after `startedAt` before a Present mark is recorded as Late
+  lateGraceMinutes: number;
+}
+
+/** Mirrors the original hard-coded calendar: 08:45 for 15 minutes, Monday–Saturday. */
+export const DEFAULT_STANDUP_SCHEDULE: StandupSchedule = {
+  days: {
+    "0": { enabled: false, startTime: "08:45", durationMinutes: 15 },
+    "1": { enabled: true, startTime: "08:45", durationMinutes: 15 },
+    "2": { enabled: true, startTime: "08:45", durationMinutes: 15 },
+    "3": { enabled: true, startTime: "08:45", durationMinutes: 15 },
+    "4": { enabled: true, startTime: "08:45", durationMinutes: 15 },
+    "5": { enabled: true, startTime: "08:45", durationMinutes: 15 },
+    "6": { enabled: true, startTime: "08:45", durationMinutes: 15 },
+  },
+  lateGraceMinutes: 5,
+};
+
+/**
+ * Reads `config/standupSchedule`, filling any missing weekday or setting with its default.
+ */
+export async function getStandupSchedule(): Promise<StandupSchedule> {
+  const snap = await admin
+    .firestore()
+    .collection("config")
+    .doc("standupSchedule")
+    .get();
+  const stored = snap.exists ? (snap.data() as Partial<StandupSchedule>) : {};
+
+  const days: Record<string, StandupDaySchedule> = {};
+  Object.entries(DEFAULT_STANDUP_SCHEDULE.days).forEach(([day, fallback]) => {
+    days[day] = { ...fallback, ...(stored.days?.[day] || {}) };
+  });
+  return {
+    days,
+    lateGraceMinutes:
+      stored.lateGraceMinutes ?? DEFAULT_STANDUP_SCHEDULE.lateGraceMinutes,
+  };
+}
+
+function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || !timeZone) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads the organization's IANA time zone from `config/organization`, falling
+ * back to the default when it is missing or not a known zone.
+ */
+export async function getOrganizationTimeZone(): Promise<string> {
+  const snap = await admin
+    .firestore()
+    .collection("config")
+    .doc("organization")
+    .get();
+  const timeZone = snap.data()?.timeZone;
+  return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Returns the session day (yyyy-MM-dd) that `date` falls on in the organization
+ * time zone. Standup, learning hour and attendance documents are keyed by it.
+ */
+export function getSessionDateId(timeZone: string, date = new Date()): string {
+  return formatInTimeZone(date, timeZone, "yyyy-MM-dd");
+}
+
+// Weekday (0 = Sunday) of the given instant in the given time zone
+export function getZonedDayOfWeek(date: Date, timeZone: string): number {
+  return Number(formatInTimeZone(date, timeZone, "i")) % 7;
+}
+
+// Monday to Saturday, the days the evening jobs run on
+export const EVENING_JOB_WEEKDAYS = [1, 2, 3, 4, 5, 6];
+
+/**
+ * Returns the session day a daily job should run for when `firedAt` falls in
+ * `hour` on one of `weekdays` in the organization time zone, or null when it
+ * does not. Daily jobs are triggered hourly and only act on the matching run,
+ * since a cron's time zone is fixed at deploy but the organization's is not.
+ */
+export async function getDailyRunDate(
+  firedAt: Date,
+  hour: number,
+  weekdays: number[],
+): Promise<string | null> {
+  const timeZone = await getOrganizationTimeZone();
+  if (
+    Number(formatInTimeZone(firedAt, timeZone, "H")) !== hour ||
+    !weekdays.includes(getZonedDayOfWeek(firedAt, timeZone))
+  ) {
+    return null;
+  }
+  return getSessionDateId(timeZone, firedAt);
+}
+
+/**
+ * Reads `config/attendanceSheetSync`, which names the target tab per session
+ * type and maps attendance fields to column headers. Returns null while it is
+ * unset, meaning the legacy layout: first tab for standups, second for
+ * learning hours, fixed column order.
+ */
+export async function getAttendanceSheetConfig(): Promise<AttendanceSheetConfig | null> {
+  const snap = await admin
+    .firestore()
+    .collection("config")
+    .doc("attendanceSheetSync")
+    .get();
+  if (!snap.exists) {
+    return null;
+  }
+  const result = attendanceSheetConfigSchema.safeParse(snap.data());
+  if (!result.success) {
+    throw new HttpsError(
+      "failed-precondition",
+      "The attendance sheet settings are invalid: " +
+        result.error.errors.map((e) => e.message).join(", "),
+    );
+  }
+  return result.data;
+}
+
+/** Used for any at-risk threshold an admin has not set in `config/atRiskAlerts`. */
+export const DEFAULT_AT_RISK_ALERT_CONFIG: AtRiskAlertConfig = {
+  consecutiveMissedStandups: 3,
+  learningPresenceBelow: 60,
+  feedbackDrop: 0.5,
+  sessionsWithoutLearningPoints: 5,
+  lookbackDays: 30,
+};
+
+/**
+ * Reads `config/atRiskAlerts`, filling any missing threshold with its default.
+ */
+export async function getAtRiskAlertConfig(): Promise<AtRiskAlertConfig> {
+  const snap = await admin
+    .firestore()
+    .collection("config")
+    .doc("atRiskAlerts")
+    .get();
+  const result = atRiskAlertConfigSchema.safeParse({
+    ...DEFAULT_AT_RISK_ALERT_CONFIG,
+    ...snap.data(),
+  });
+  if (!result.success) {
+    throw new Error(
+      "The at-risk alert settings are invalid: " +
+        result.error.errors.map((e) => e.message).join(", "),
+    );
+  }
+  return result.data;
+}
@@ -8,7 +8,8 @@ import { onCall, HttpsError } from "firebase-functions/v2/https";
 import { logger } from "firebase-functions/v2";
 import * as admin from "firebase-admin";
 import { z } from "zod";
-import { formatInTimeZone } from "date-fns-tz";
+import { zonedTimeToUtc } from "date-fns-tz";
+import { getOrganizationTimeZone, getSessionDateId } from "./config";
 
 // --- Validation Schemas ---
 const observationSchema = z.object({
@@ -28,8 +29,6 @@ const deleteObservationSchema = z.object({
   id: z.string().min(1, { message: "Observation ID is required." }),
 });
 
-const IST_TIMEZONE = "Asia/Kolkata";
-
 // --- Helper Functions ---
 const ensureAuthenticated = (request: any) => {
   if (!request.auth) {
@@ -59,15 +58,12 @@ const verifyObservationOwnership = async (id: string, uid: string) => {
     );
   }
 
-  // Compare dates in IST timezone to avoid UTC boundary issues
-  const todayIST = formatInTimeZone(new Date(), IST_TIMEZONE, "yyyy-MM-dd");
-  const observationDateIST = formatInTimeZone(
-    observation.observationDate.toDate(),
-    IST_TIMEZONE,
-    "yyyy-MM-dd",
-  );
-
-  if (todayIST !== observationDateIST) {
+  // Compare dates in the organization time zone to avoid UTC boundary issues
+  const timeZone = await getOrganizationTimeZone();
+  if (
+    getSessionDateId(timeZone) !==
+    getSessionDateId(timeZone, observation.observationDate.toDate())
+  ) {
     throw new HttpsError(
       "permission-denied",
       "Observations can only be modified on the day they were created.",
@@ -102,9 +98,12 @@ export const addObservation = onCall(
       const user = await admin.auth().getUser(uid);
       const authorName = user.displayName || "Unknown User";
 
-      // Create IST midnight timestamp for the observation date
-      const nowIST = formatInTimeZone(new Date(), IST_TIMEZONE, "yyyy-MM-dd");
-      const istMidnight = new Date(`${nowIST}T00:00:00+05:30`);
+      // Observations are dated at midnight of the organization's current day
+      const timeZone = await getOrganizationTimeZone();
+      const localMidnight = zonedTimeToUtc(
+        `${getSessionDateId(timeZone)}T00:00:00`,
+        timeZone,
+      );
 
       await admin
         .firestore()
@@ -113,7 +112,7 @@ export const addObservation = onCall(
           userId: uid,
           authorName,
           observationText,
-          observationDate: admin.firestore.Timestamp.fromDate(istMidnight),
+          observationDate: admin.firestore.Timestamp.fromDate(localMidnight),
           createdAt: admin.firestore.FieldValue.serverTimestamp(),
           updatedAt: admin.firestore.FieldValue.serverTimestamp(),
         });
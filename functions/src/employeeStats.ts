@@ -0,0 +1,324 @@
+/**
+ * @file Monthly attendance and learning-point totals per employee, kept in
+ * `employeeStats/{uid}_{yyyy-MM}` by Firestore triggers so summaries and
+ * dashboards read one document instead of re-counting raw records.
+ */
+import * as admin from "firebase-admin";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { logger } from "firebase-functions/v2";
+import { endOfMonth, format, parseISO } from "date-fns";
+import { isUserAdmin } from "./utils";
+import { rebuildEmployeeStatsSchema, validateInput } from "./validation";
+import { ATTENDANCE_COLLECTIONS } from "./attendanceEdits";
+
+export const EMPLOYEE_STATS_COLLECTION = "employeeStats";
+
+export interface StatusCounts {
+  present: number;
+  late: number;
+  absent: number;
+  missed: number;
+  notAvailable: number;
+}
+
+export interface EmployeeMonthStats {
+  employeeId: string; // Auth uid, like `employee_id` on attendance records
+  month: string; // yyyy-MM
+  standups: StatusCounts;
+  learningHours: StatusCounts;
+  learningPoints: number;
+  // Per-day values the totals are derived from, so a retried trigger
+  // recomputes the same totals instead of counting a change twice
+  standupStatuses: Record<string, string>;
+  learningHourStatuses: Record<string, string>;
+  learningPointsByDay: Record<string, number>;
+}
+
+type SessionType = keyof typeof ATTENDANCE_COLLECTIONS;
+
+const SESSION_FIELDS = {
+  standups: {
+    idField: "standup_id",
+    statuses: "standupStatuses",
+  },
+  learning_hours: {
+    idField: "learning_hour_id",
+    statuses: "learningHourStatuses",
+  },
+} as const;
+
+const STATUS_KEYS: Record<string, keyof StatusCounts> = {
+  Present: "present",
+  Late: "late",
+  Absent: "absent",
+  Missed: "missed",
+  "Not Available": "notAvailable",
+};
+
+export const employeeStatsDocId = (uid: string, month: string) =>
+  `${uid}_${month}`;
+
+export function countStatuses(statuses: Record<string, string>): StatusCounts {
+  const counts: StatusCounts = {
+    present: 0,
+    late: 0,
+    absent: 0,
+    missed: 0,
+    notAvailable: 0,
+  };
+  Object.values(statuses).forEach((status) => {
+    const key = STATUS_KEYS[status];
+    if (key) counts[key]++;
+  });
+  return counts;
+}
+
+function emptyStats(uid: string, month: string): EmployeeMonthStats {
+  return {
+    employeeId: uid,
+    month,
+    standups: countStatuses({}),
+    learningHours: countStatuses({}),
+    learningPoints: 0,
+    standupStatuses: {},
+    learningHourStatuses: {},
+    learningPointsByDay: {},
+  };
+}
+
+function withTotals(stats: EmployeeMonthStats): EmployeeMonthStats {
+  return {
+    ...stats,
+    standups: countStatuses(stats.standupStatuses),
+    learningHours: countStatuses(stats.learningHourStatuses),
+    learningPoints: Object.values(stats.learningPointsByDay).reduce(
+      (sum, n) => sum + n,
+      0,
+    ),
+  };
+}
+
+/**
+ * Rewrites one employee's month with `update` applied. The whole document is
+ * replaced rather than merged, because merging would keep removed days.
+ */
+async function updateMonthStats(
+  uid: string,
+  date: string,
+  update: (stats: EmployeeMonthStats) => void,
+) {
+  const db = admin.firestore();
+  const month = date.slice(0, 7);
+  const ref = db
+    .collection(EMPLOYEE_STATS_COLLECTION)
+    .doc(employeeStatsDocId(uid, month));
+  await db.runTransaction(async (transaction) => {
+    const snap = await transaction.get(ref);
+    const stats: EmployeeMonthStats = {
+      ...emptyStats(uid, month),
+      ...(snap.data() as Partial<EmployeeMonthStats> | undefined),
+    };
+    update(stats);
+    transaction.set(ref, {
+      ...withTotals(stats),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+/**
+ * Moves an attendance record's status into the stats of the employee and day
+ * it belongs to, clearing it from the old ones when a record is deleted.
+ */
+async function applyAttendanceWrite(
+  sessionType: SessionType,
+  before: admin.firestore.DocumentData | undefined,
+  after: admin.firestore.DocumentData | undefined,
+) {
+  const { idField, statuses } = SESSION_FIELDS[sessionType];
+  const keyOf = (data?: admin.firestore.DocumentData) =>
+    data?.employee_id && data?.[idField]
+      ? `${data.employee_id}|${data[idField]}`
+      : null;
+  const beforeKey = keyOf(before);
+  const afterKey = keyOf(after);
+
+  if (beforeKey && beforeKey !== afterKey) {
+    await updateMonthStats(before!.employee_id, before![idField], (stats) => {
+      delete stats[statuses][before![idField]];
+    });
+  }
+  if (
+    afterKey &&
+    (beforeKey !== afterKey || before?.status !== after?.status)
+  ) {
+    await updateMonthStats(after!.employee_id, after![idField], (stats) => {
+      stats[statuses][after![idField]] = after!.status;
+    });
+  }
+}
+
+/**
+ * Re-counts an employee's learning points for one session day.
+ */
+async function recountLearningPoints(uid: string, date: string) {
+  const snapshot = await admin
+    .firestore()
+    .collection("learning_points")
+    .where("userId", "==", uid)
+    .where("sessionId", "==", date)
+    .count()
+    .get();
+  const count = snapshot.data().count;
+  await updateMonthStats(uid, date, (stats) => {
+    if (count > 0) {
+      stats.learningPointsByDay[date] = count;
+    } else {
+      delete stats.learningPointsByDay[date];
+    }
+  });
+}
+
+export const onStandupAttendanceWritten = onDocumentWritten(
+  { document: "attendance/{recordId}", region: "asia-south1" },
+  async (event) => {
+    await applyAttendanceWrite(
+      "standups",
+      event.data?.before.data(),
+      event.data?.after.data(),
+    );
+  },
+);
+
+export const onLearningHourAttendanceWritten = onDocumentWritten(
+  { document: "learning_hours_attendance/{recordId}", region: "asia-south1" },
+  async (event) => {
+    await applyAttendanceWrite(
+      "learning_hours",
+      event.data?.before.data(),
+      event.data?.after.data(),
+    );
+  },
+);
+
+export const onLearningPointWritten = onDocumentWritten(
+  { document: "learning_points/{pointId}", region: "asia-south1" },
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    const keys = new Set<string>();
+    [before, after].forEach((point) => {
+      if (point?.userId && point?.sessionId) {
+        keys.add(`${point.userId}|${point.sessionId}`);
+      }
+    });
+    for (const key of keys) {
+      const [uid, date] = key.split("|");
+      await recountLearningPoints(uid, date);
+    }
+  },
+);
+
+/**
+ * Recomputes every employee's stats for a month from the raw records, for
+ * months recorded before the triggers existed or after a bulk import.
+ */
+export const rebuildEmployeeStats = onCall(
+  { region: "asia-south1", timeoutSeconds: 300, cors: true },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Authentication is required.");
+    }
+    if (!isUserAdmin(request.auth)) {
+      throw new HttpsError(
+        "permission-denied",
+        "Must be an admin to run this operation.",
+      );
+    }
+    const { month } = validateInput(rebuildEmployeeStatsSchema, request.data);
+    const db = admin.firestore();
+    const from = `${month}-01`;
+    const to = format(endOfMonth(parseISO(from)), "yyyy-MM-dd");
+
+    const [standupSnap, learningSnap, pointsSnap, existingSnap] =
+      await Promise.all([
+        ...(["standups", "learning_hours"] as const).map((sessionType) =>
+          db
+            .collection(ATTENDANCE_COLLECTIONS[sessionType])
+            .where(SESSION_FIELDS[sessionType].idField, ">=", from)
+            .where(SESSION_FIELDS[sessionType].idField, "<=", to)
+            .get(),
+        ),
+        db
+          .collection("learning_points")
+          .where("sessionId", ">=", from)
+          .where("sessionId", "<=", to)
+          .get(),
+        db
+          .collection(EMPLOYEE_STATS_COLLECTION)
+          .where("month", "==", month)
+          .get(),
+      ]);
+
+    const statsByUid = new Map<string, EmployeeMonthStats>();
+    const statsFor = (uid: string) => {
+      if (!statsByUid.has(uid)) {
+        statsByUid.set(uid, emptyStats(uid, month));
+      }
+      return statsByUid.get(uid)!;
+    };
+    (
+      [
+        ["standups", standupSnap],
+        ["learning_hours", learningSnap],
+      ] as const
+    ).forEach(([sessionType, snapshot]) => {
+      const { idField, statuses } = SESSION_FIELDS[sessionType];
+      snapshot.docs.forEach((doc) => {
+        const data = doc.data();
+        if (data.employee_id) {
+          statsFor(data.employee_id)[statuses][data[idField]] = data.status;
+        }
+      });
+    });
+    pointsSnap.docs.forEach((doc) => {
+      const { userId, sessionId } = doc.data();
+      if (userId) {
+        const byDay = statsFor(userId).learningPointsByDay;
+        byDay[sessionId] = (byDay[sessionId] ?? 0) + 1;
+      }
+    });
+
+    const writer = db.bulkWriter();
+    statsByUid.forEach((stats, uid) => {
+      writer.set(
+        db
+          .collection(EMPLOYEE_STATS_COLLECTION)
+          .doc(employeeStatsDocId(uid, month)),
+        {
+          ...withTotals(stats),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+      );
+    });
+    // Employees with nothing left in the month keep no document
+    existingSnap.docs
+      .filter((doc) => !statsByUid.has(doc.data().employeeId))
+      .forEach((doc) => writer.delete(doc.ref));
+    await writer.close();
+
+    logger.info("Employee stats rebuilt", {
+      userId: request.auth.uid,
+      month,
+      employees: statsByUid.size,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: true,
+      employees: statsByUid.size,
+      message: `Rebuilt ${month} stats for ${statsByUid.size} employee(s).`,
+    };
+  },
+);
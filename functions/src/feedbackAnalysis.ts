@@ -1,22 +1,12 @@
 /**
  * @file Cloud Functions for feedback analysis.
  */
-import * as admin from "firebase-admin";
 import { onCall, HttpsError } from "firebase-functions/v2/https";
 import { logger } from "firebase-functions/v2";
-import { google } from "googleapis";
 import { GoogleGenerativeAI } from "@google/generative-ai";
-import { getSheetsAuth, getGeminiKey, parseDynamicDate } from "./utils";
-import {
-  isSameDay,
-  isSameMonth,
-  startOfDay,
-  endOfDay,
-  parseISO,
-  format,
-  isValid,
-  parse,
-} from "date-fns";
+import { getGeminiKey } from "./utils";
+import { endOfMonth, format, parse, parseISO, startOfMonth } from "date-fns";
+import { getFeedbackEntries, type FeedbackRow } from "./feedbackImport";
 
 // Type definitions
 type FeedbackRequestData = {
@@ -39,67 +29,31 @@ type TimeseriesGraph = {
   instructor: number[];
 };
 
+/**
+ * Reads the imported feedback for the requested time frame. Days are compared
+ * as yyyy-MM-dd strings, as they are stored in `feedbackEntries`.
+ */
 async function getFilteredFeedbackData(
   requestData: FeedbackRequestData,
-): Promise<any[]> {
+): Promise<FeedbackRow[]> {
   const { employeeId, timeFrame, date, startDate, endDate } = requestData;
+  const day = (value: string | Date) =>
+    format(typeof value === "string" ? parseISO(value) : value, "yyyy-MM-dd");
 
-  const empDoc = await admin
-    .firestore()
-    .collection("employees")
-    .doc(employeeId)
-    .get();
-  const sheetUrl = empDoc.data()?.feedbackSheetUrl;
-  if (typeof sheetUrl !== "string")
-    throw new HttpsError("not-found", "No feedback sheet URL configured.");
-  const sheetIdMatch = sheetUrl.match(/\/d\/([\w-]+)/);
-  if (!sheetIdMatch)
-    throw new HttpsError(
-      "invalid-argument",
-      "Invalid Google Sheet URL format.",
-    );
-  const spreadsheetId = sheetIdMatch[1];
-
-  const sheets = google.sheets({ version: "v4", auth: getSheetsAuth() });
-  const gidMatch = sheetUrl.match(/[#&]gid=(\d+)/);
-  const targetGid = gidMatch ? parseInt(gidMatch[1], 10) : 0;
-  const meta = await sheets.spreadsheets.get({ spreadsheetId });
-  const sheet = meta.data.sheets?.find(
-    (s) => s.properties?.sheetId === targetGid,
-  );
-  if (!sheet?.properties?.title)
-    throw new HttpsError(
-      "not-found",
-      `Sheet with GID "${targetGid}" not found.`,
-    );
-  const range = `${sheet.properties.title}!A:D`;
-  const resp = await sheets.spreadsheets.values.get({ spreadsheetId, range });
-  const rows = resp.data.values;
-  if (!rows || rows.length < 2) return [];
-
-  const dataRows = rows
-    .slice(1)
-    .map((r) => ({
-      date: parseDynamicDate(r[0]?.toString() || ""),
-      understanding: Number(r[1]) || 0,
-      instructor: Number(r[2]) || 0,
-      comment: (r[3] || "").toString().trim(),
-    }))
-    .filter((x) => isValid(x.date));
-
-  if (timeFrame === "full") return dataRows;
+  if (timeFrame === "full") return getFeedbackEntries(employeeId);
   if (timeFrame === "daily" || timeFrame === "specific") {
-    const targetDate = startOfDay(parseISO(date!));
-    return dataRows.filter((x) => isSameDay(x.date, targetDate));
+    return getFeedbackEntries(employeeId, day(date!), day(date!));
   }
   if (timeFrame === "monthly") {
     const refDate = date ? parseISO(date) : new Date();
-    return dataRows.filter((x) => isSameMonth(x.date, refDate));
+    return getFeedbackEntries(
+      employeeId,
+      day(startOfMonth(refDate)),
+      day(endOfMonth(refDate)),
+    );
   }
   if (timeFrame === "range") {
-    const s0 = startOfDay(parseISO(startDate!));
-    const e0 = endOfDay(parseISO(endDate!));
-    return dataRows.filter((x) => x.date >= s0 && x.date <= e0);
+    return getFeedbackEntries(employeeId, day(startDate!), day(endDate!));
   }
   return [];
 }
@@ -0,0 +1,391 @@
+/**
+ * @file Incremental import of each employee's instructor feedback sheet into
+ * `feedbackEntries`, so feedback views query Firestore instead of the sheet.
+ * Progress is kept per employee in `feedbackImports/{uid}`.
+ */
+import * as admin from "firebase-admin";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions/v2";
+import { google } from "googleapis";
+import { format, isValid, parseISO } from "date-fns";
+import { getSheetsAuth, isUserAdmin, parseDynamicDate } from "./utils";
+import { importFeedbackSchema, validateInput } from "./validation";
+import {
+  DEFAULT_TIME_ZONE,
+  EVENING_JOB_WEEKDAYS,
+  getDailyRunDate,
+} from "./config";
+
+export const FEEDBACK_ENTRIES_COLLECTION = "feedbackEntries";
+const FEEDBACK_IMPORTS_COLLECTION = "feedbackImports";
+
+// Row 1 holds the headers
+const FIRST_DATA_ROW = 2;
+
+export type FeedbackRow = {
+  row: number; // 1-based row in the sheet
+  date: Date;
+  understanding: number;
+  instructor: number;
+  comment: string;
+};
+
+interface FeedbackImportCursor {
+  sheetUrl: string;
+  // First sheet row not imported yet
+  nextRow: number;
+  // Held while a read imports the sheet, so concurrent reads wait for it
+  importLeaseUntil?: admin.firestore.Timestamp;
+}
+
+// Longer than the slowest feedback callable (120s) may hold the lease
+const IMPORT_LEASE_MS = 2 * 60 * 1000;
+const IMPORT_WAIT_MS = 45 * 1000;
+const IMPORT_POLL_MS = 2 * 1000;
+
+/**
+ * Reads the dated rows of an employee's feedback sheet from `startRow` on; the
+ * tab is the one the URL's `gid` points at, or the first tab. `lastRow` is the
+ * last row with any content, whether or not it had a valid date.
+ */
+async function readFeedbackSheet(
+  sheetUrl: string,
+  startRow: number,
+): Promise<{ rows: FeedbackRow[]; lastRow: number }> {
+  const sheetIdMatch = sheetUrl.match(/\/d\/([\w-]+)/);
+  if (!sheetIdMatch)
+    throw new HttpsError(
+      "invalid-argument",
+      "Invalid Google Sheet URL format.",
+    );
+  const spreadsheetId = sheetIdMatch[1];
+
+  const sheets = google.sheets({ version: "v4", auth: getSheetsAuth() });
+  const gidMatch = sheetUrl.match(/[#&]gid=(\d+)/);
+  const targetGid = gidMatch ? parseInt(gidMatch[1], 10) : 0;
+  const meta = await sheets.spreadsheets.get({ spreadsheetId });
+  const sheet = meta.data.sheets?.find(
+    (s) => s.properties?.sheetId === targetGid,
+  );
+  if (!sheet?.properties?.title)
+    throw new HttpsError(
+      "not-found",
+      `Sheet with GID "${targetGid}" not found.`,
+    );
+  const range = `'${sheet.properties.title.replace(/'/g, "''")}'!A${startRow}:D`;
+  const resp = await sheets.spreadsheets.values.get({ spreadsheetId, range });
+  const values = resp.data.values || [];
+
+  return {
+    rows: values
+      .map((r, i) => ({
+        row: startRow + i,
+        date: parseDynamicDate(r[0]?.toString() || ""),
+        understanding: Number(r[1]) || 0,
+        instructor: Number(r[2]) || 0,
+        comment: (r[3] || "").toString().trim(),
+      }))
+      .filter((x) => isValid(x.date)),
+    lastRow: startRow + values.length - 1,
+  };
+}
+
+const entryDocId = (employeeId: string, row: number) => `${employeeId}_${row}`;
+
+/**
+ * Imports the rows added to an employee's sheet since the last import. The
+ * whole sheet is re-imported when `full` is set or the sheet URL changed;
+ * rows edited after they were imported are only picked up that way.
+ */
+export async function importEmployeeFeedback(
+  employeeId: string,
+  sheetUrl: string,
+  full = false,
+): Promise<number> {
+  const db = admin.firestore();
+  const cursorRef = db.collection(FEEDBACK_IMPORTS_COLLECTION).doc(employeeId);
+  const cursor = (await cursorRef.get()).data() as
+    FeedbackImportCursor | undefined;
+  const restart = full || !cursor || cursor.sheetUrl !== sheetUrl;
+  const startRow = restart ? FIRST_DATA_ROW : cursor.nextRow;
+
+  try {
+    const { rows, lastRow } = await readFeedbackSheet(sheetUrl, startRow);
+    const writer = db.bulkWriter();
+    if (restart) {
+      // Rows read again are overwritten below; only the rest are removed
+      const rowIds = new Set(rows.map((r) => entryDocId(employeeId, r.row)));
+      const existing = await db
+        .collection(FEEDBACK_ENTRIES_COLLECTION)
+        .where("employeeId", "==", employeeId)
+        .get();
+      existing.docs
+        .filter((doc) => !rowIds.has(doc.id))
+        .forEach((doc) => writer.delete(doc.ref));
+    }
+    rows.forEach((row) => {
+      writer.set(
+        db
+          .collection(FEEDBACK_ENTRIES_COLLECTION)
+          .doc(entryDocId(employeeId, row.row)),
+        {
+          employeeId,
+          row: row.row,
+          // Day of the submission, for date-range queries
+          date: format(row.date, "yyyy-MM-dd"),
+          // Wall-clock time as written in the sheet, without a zone
+          submittedAt: format(row.date, "yyyy-MM-dd'T'HH:mm:ss"),
+          understanding: row.understanding,
+          instructor: row.instructor,
+          comment: row.comment,
+          importedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+      );
+    });
+    await writer.close();
+
+    await cursorRef.set({
+      sheetUrl,
+      nextRow: Math.max(startRow, lastRow + 1),
+      lastImportedAt: admin.firestore.FieldValue.serverTimestamp(),
+      lastError: null,
+    });
+    return rows.length;
+  } catch (error: any) {
+    await cursorRef
+      .set({ lastError: error.message || String(error) }, { merge: true })
+      .catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Imports an employee's sheet if it has never been imported or its URL has
+ * changed since. The first caller takes a lease on the cursor and imports;
+ * callers that arrive meanwhile wait for that import instead of repeating it.
+ */
+async function ensureFeedbackImported(employeeId: string): Promise<void> {
+  const db = admin.firestore();
+  const cursorRef = db.collection(FEEDBACK_IMPORTS_COLLECTION).doc(employeeId);
+  const employeeRef = db.collection("employees").doc(employeeId);
+  const deadline = Date.now() + IMPORT_WAIT_MS;
+
+  for (;;) {
+    const claim = await db.runTransaction(async (transaction) => {
+      const [cursorDoc, empDoc] = await Promise.all([
+        transaction.get(cursorRef),
+        transaction.get(employeeRef),
+      ]);
+      const sheetUrl = empDoc.data()?.feedbackSheetUrl;
+      if (typeof sheetUrl !== "string" || !sheetUrl)
+        throw new HttpsError("not-found", "No feedback sheet URL configured.");
+      const cursor = cursorDoc.data() as
+        Partial<FeedbackImportCursor> | undefined;
+      if (typeof cursor?.nextRow === "number" && cursor.sheetUrl === sheetUrl)
+        return { state: "imported" as const };
+      if ((cursor?.importLeaseUntil?.toMillis() ?? 0) > Date.now())
+        return { state: "busy" as const };
+      transaction.set(
+        cursorRef,
+        {
+          importLeaseUntil: admin.firestore.Timestamp.fromMillis(
+            Date.now() + IMPORT_LEASE_MS,
+          ),
+        },
+        { merge: true },
+      );
+      return { state: "claimed" as const, sheetUrl };
+    });
+
+    if (claim.state === "imported") {
+      return;
+    }
+    if (claim.state === "claimed") {
+      // A successful import rewrites the cursor without the lease
+      await importEmployeeFeedback(employeeId, claim.sheetUrl).catch(
+        async (error) => {
+          await cursorRef
+            .update({
+              importLeaseUntil: admin.firestore.FieldValue.delete(),
+            })
+            .catch(() => undefined);
+          throw error;
+        },
+      );
+      return;
+    }
+    if (Date.now() > deadline)
+      throw new HttpsError(
+        "unavailable",
+        "Feedback is still being imported. Please try again shortly.",
+      );
+    await new Promise((resolve) => setTimeout(resolve, IMPORT_POLL_MS));
+  }
+}
+
+/**
+ * Reads an employee's imported feedback, optionally for an inclusive
+ * yyyy-MM-dd range, in sheet order. A sheet that has never been imported, or
+ * whose URL has changed, is imported first so the entries match it.
+ */
+export async function getFeedbackEntries(
+  employeeId: string,
+  from?: string,
+  to?: string,
+): Promise<FeedbackRow[]> {
+  const db = admin.firestore();
+  await ensureFeedbackImported(employeeId);
+
+  let entriesQuery = db
+    .collection(FEEDBACK_ENTRIES_COLLECTION)
+    .where("employeeId", "==", employeeId);
+  if (from) entriesQuery = entriesQuery.where("date", ">=", from);
+  if (to) entriesQuery = entriesQuery.where("date", "<=", to);
+  const snapshot = await entriesQuery.get();
+
+  return snapshot.docs
+    .map((doc) => {
+      const data = doc.data();
+      return {
+        row: data.row,
+        date: parseISO(data.submittedAt),
+        understanding: data.understanding,
+        instructor: data.instructor,
+        comment: data.comment,
+      };
+    })
+    .sort((a, b) => a.row - b.row);
+}
+
+/**
+ * Imports every active employee's sheet, one at a time. A sheet that fails is
+ * logged and recorded on its cursor without stopping the others.
+ */
+async function importAllFeedback(full: boolean) {
+  const snapshot = await admin.firestore().collection("employees").get();
+  const employees = snapshot.docs.filter(
+    (doc) =>
+      doc.data().archived !== true &&
+      typeof doc.data().feedbackSheetUrl === "string" &&
+      doc.data().feedbackSheetUrl,
+  );
+  let imported = 0;
+  let failed = 0;
+  for (const doc of employees) {
+    try {
+      imported += await importEmployeeFeedback(
+        doc.id,
+        doc.data().feedbackSheetUrl,
+        full,
+      );
+    } catch (error: any) {
+      failed++;
+      logger.warn("Feedback import failed for employee", {
+        employeeId: doc.id,
+        error: error.message || String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+  return { employees: employees.length, imported, failed };
+}
+
+/**
+ * Imports new feedback on demand. Admins can import one employee or everyone;
+ * other users can only refresh their own feedback.
+ */
+export const importFeedback = onCall(
+  {
+    region: "asia-south1",
+    timeoutSeconds: 540,
+    memory: "512MiB",
+    secrets: ["SHEETS_SA_KEY"],
+    cors: true,
+  },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Authentication is required.");
+    }
+    const { employeeId, full = false } = validateInput(
+      importFeedbackSchema,
+      request.data,
+    );
+    const isAdmin = isUserAdmin(request.auth);
+    if (!isAdmin && employeeId !== request.auth.uid) {
+      throw new HttpsError(
+        "permission-denied",
+        "You can only import your own feedback.",
+      );
+    }
+
+    if (!employeeId) {
+      const result = await importAllFeedback(full);
+      logger.info("Feedback imported for all employees", {
+        userId: request.auth.uid,
+        full,
+        ...result,
+        timestamp: new Date().toISOString(),
+      });
+      return {
+        success: true,
+        ...result,
+        message:
+          `Imported ${result.imported} new feedback row(s) for ${result.employees} employee(s).` +
+          (result.failed > 0 ? ` ${result.failed} sheet(s) failed.` : ""),
+      };
+    }
+
+    const empDoc = await admin
+      .firestore()
+      .collection("employees")
+      .doc(employeeId)
+      .get();
+    const sheetUrl = empDoc.data()?.feedbackSheetUrl;
+    if (typeof sheetUrl !== "string")
+      throw new HttpsError("not-found", "No feedback sheet URL configured.");
+    const imported = await importEmployeeFeedback(employeeId, sheetUrl, full);
+    logger.info("Feedback imported", {
+      userId: request.auth.uid,
+      employeeId,
+      full,
+      imported,
+      timestamp: new Date().toISOString(),
+    });
+    return {
+      success: true,
+      employees: 1,
+      imported,
+      failed: 0,
+      message: `Imported ${imported} new feedback row(s).`,
+    };
+  },
+);
+
+// Runs at 19:45 local time, Monday to Saturday, before the evening at-risk
+// check, which reads the imported feedback
+export const scheduledFeedbackImport = onSchedule(
+  {
+    region: "asia-south1",
+    schedule: "45 * * * *",
+    timeZone: DEFAULT_TIME_ZONE,
+    secrets: ["SHEETS_SA_KEY"],
+    timeoutSeconds: 540,
+    memory: "512MiB",
+  },
+  async (event) => {
+    const runDate = await getDailyRunDate(
+      new Date(event.scheduleTime),
+      19,
+      EVENING_JOB_WEEKDAYS,
+    );
+    if (!runDate) {
+      return;
+    }
+    const result = await importAllFeedback(false);
+    logger.info("Scheduled feedback import finished", {
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  },
+);
@@ -0,0 +1,193 @@
+/**
+ * @file Organization holiday calendar: lookups used by scheduling and reporting, and ICS import.
+ */
+import * as admin from "firebase-admin";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions/v2";
+import { addDays, eachDayOfInterval, format, getDay, parse } from "date-fns";
+import { importHolidaysSchema, validateInput } from "./validation";
+import { isUserAdmin } from "./utils";
+import { getStandupSchedule } from "./config";
+
+// Firestore allows at most 500 writes per batch
+const BATCH_LIMIT = 450;
+// Guard against malformed events that would expand into years of holidays
+const MAX_EVENT_DAYS = 31;
+
+interface ParsedHoliday {
+  date: string; // yyyy-MM-dd
+  name: string;
+}
+
+/**
+ * Returns the set of holiday dates (yyyy-MM-dd) between `start` and `end`, inclusive.
+ * Holiday documents are keyed by date, so this is a simple document-ID range query.
+ */
+export async function getHolidayDates(
+  start: string,
+  end: string,
+): Promise<Set<string>> {
+  const snapshot = await admin
+    .firestore()
+    .collection("holidays")
+    .where(admin.firestore.FieldPath.documentId(), ">=", start)
+    .where(admin.firestore.FieldPath.documentId(), "<=", end)
+    .get();
+  return new Set(snapshot.docs.map((doc) => doc.id));
+}
+
+/** True if `date` (yyyy-MM-dd) is on the organization holiday calendar. */
+export async function isHoliday(date: string): Promise<boolean> {
+  const doc = await admin.firestore().collection("holidays").doc(date).get();
+  return doc.exists;
+}
+
+/**
+ * Counts the days between `start` and `end` (inclusive) that fall on a weekday
+ * enabled in `config/standupSchedule` and are not holidays. `excludedDates`
+ * (yyyy-MM-dd) are skipped as well, e.g. days whose standup was cancelled.
+ */
+export async function countWorkingDays(
+  start: Date,
+  end: Date,
+  excludedDates: Set<string> = new Set(),
+): Promise<number> {
+  const [holidays, schedule] = await Promise.all([
+    getHolidayDates(format(start, "yyyy-MM-dd"), format(end, "yyyy-MM-dd")),
+    getStandupSchedule(),
+  ]);
+  return eachDayOfInterval({ start, end }).filter((day) => {
+    const key = format(day, "yyyy-MM-dd");
+    return (
+      schedule.days[String(getDay(day))]?.enabled &&
+      !holidays.has(key) &&
+      !excludedDates.has(key)
+    );
+  }).length;
+}
+
+// Reads the yyyymmdd part of a DTSTART/DTEND value, ignoring any time component
+function parseIcsDate(value: string): Date | null {
+  const match = value.match(/^(\d{8})/);
+  if (!match) return null;
+  const date = parse(match[1], "yyyyMMdd", new Date());
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function unescapeIcsText(value: string): string {
+  return value
+    .replace(/\\n/gi, " ")
+    .replace(/\\([,;\\])/g, "$1")
+    .trim();
+}
+
+/**
+ * Extracts one entry per day from the VEVENTs of an iCalendar file.
+ * All-day events use an exclusive DTEND, so a one-day holiday has DTEND = DTSTART + 1.
+ */
+function parseIcsHolidays(icsContent: string): ParsedHoliday[] {
+  // Unfold continuation lines (RFC 5545 §3.1) before splitting
+  const lines = icsContent.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  // Keyed by date so overlapping events collapse to a single holiday
+  const holidays = new Map<string, ParsedHoliday>();
+  let event: { start?: Date; end?: Date; name?: string } | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      event = {};
+      continue;
+    }
+    if (!event) continue;
+
+    if (line === "END:VEVENT") {
+      if (event.start) {
+        const lastDay =
+          event.end && event.end > event.start
+            ? addDays(event.end, -1)
+            : event.start;
+        const days = eachDayOfInterval({ start: event.start, end: lastDay });
+        days.slice(0, MAX_EVENT_DAYS).forEach((day) => {
+          const date = format(day, "yyyy-MM-dd");
+          holidays.set(date, { date, name: event?.name || "Holiday" });
+        });
+      }
+      event = null;
+      continue;
+    }
+
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+    // Property parameters (e.g. DTSTART;VALUE=DATE) are not needed
+    const property = line.slice(0, separator).split(";")[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (property === "DTSTART") event.start = parseIcsDate(value) ?? undefined;
+    else if (property === "DTEND") event.end = parseIcsDate(value) ?? undefined;
+    else if (property === "SUMMARY") event.name = unescapeIcsText(value);
+  }
+
+  return Array.from(holidays.values());
+}
+
+export const importHolidaysFromIcs = onCall(
+  { region: "asia-south1", cors: true, timeoutSeconds: 120 },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Authentication is required.");
+    }
+    if (!isUserAdmin(request.auth)) {
+      throw new HttpsError(
+        "permission-denied",
+        "Must be an admin to import holidays.",
+      );
+    }
+
+    const { icsContent } = validateInput(importHolidaysSchema, request.data);
+    const holidays = parseIcsHolidays(icsContent);
+
+    if (holidays.length === 0) {
+      throw new HttpsError(
+        "invalid-argument",
+        "No events with a start date were found in the calendar file.",
+      );
+    }
+
+    const db = admin.firestore();
+    const createdBy = request.auth.token.email || request.auth.uid;
+
+    try {
+      for (let i = 0; i < holidays.length; i += BATCH_LIMIT) {
+        const batch = db.batch();
+        holidays.slice(i, i + BATCH_LIMIT).forEach(({ date, name }) => {
+          batch.set(db.collection("holidays").doc(date), {
+            date,
+            name,
+            source: "ics",
+            createdBy,
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+        });
+        await batch.commit();
+      }
+    } catch (error: any) {
+      logger.error("Holiday import failed", {
+        userId: request.auth.uid,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+      throw new HttpsError("internal", "Failed to save imported holidays.");
+    }
+
+    logger.info("Holidays imported from ICS", {
+      userId: request.auth.uid,
+      count: holidays.length,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: true,
+      imported: holidays.length,
+      message: `Imported ${holidays.length} holiday date(s).`,
+    };
+  },
+);
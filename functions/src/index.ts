@@ -9,7 +9,28 @@ admin.initializeApp();
 // Re-export all functions directly from their respective modules.
 
 // Attendance
-export { syncAttendanceToSheet, scheduledSync } from "./attendanceSync";
+export {
+  syncAttendanceToSheet,
+  checkAttendanceSheetConfig,
+  scheduledSync,
+} from "./attendanceSync";
+export {
+  startAttendanceBackfill,
+  resumeAttendanceBackfill,
+  resumeAttendanceBackfills,
+} from "./attendanceBackfill";
+export { retrySyncJob } from "./syncJobRetry";
+export { failStaleSyncRuns } from "./syncJobs";
+export {
+  reconcileAttendanceSheet,
+  applyAttendanceReconciliation,
+} from "./attendanceReconcile";
+export { editAttendanceForDate } from "./attendanceEdits";
+export { markLiveAttendance } from "./liveAttendance";
+export {
+  requestAttendanceCorrection,
+  reviewAttendanceCorrection,
+} from "./attendanceCorrections";
 
 // Feedback Analysis
 export {
@@ -17,9 +38,11 @@ export {
   getFeedbackAiSummary,
   getRawFeedback,
 } from "./feedbackAnalysis";
+export { importFeedback, scheduledFeedbackImport } from "./feedbackImport";
 
 // Learning Sessions
 export {
+  startLearningSession,
   endLearningSessionAndLockPoints,
   getLearningPointsByDate,
 } from "./learningSessions";
@@ -43,7 +66,16 @@ export {
   scheduleDailyStandup,
   startScheduledStandup,
   endActiveStandup,
+  endStandupNow,
 } from "./standups";
+export { getStandupCheckInCode, checkInToStandup } from "./checkIn";
+export { submitStandupUpdate } from "./standupUpdates";
+
+// Leave
+export { submitLeaveRequest } from "./leave";
+
+// Holidays
+export { importHolidaysFromIcs } from "./holidays";
 
 // Task Analysis
 export { analyzeTask } from "./taskAnalysis";
@@ -68,3 +100,11 @@ export * as peerFeedback from "./peerFeedback";
 
 // Performance
 export { getEmployeePerformanceSummary } from "./performance";
+export {
+  onStandupAttendanceWritten,
+  onLearningHourAttendanceWritten,
+  onLearningPointWritten,
+  rebuildEmployeeStats,
+} from "./employeeStats";
+export { getAttendanceAnalytics } from "./analytics";
+export { detectAtRiskEmployees } from "./atRiskAlerts";
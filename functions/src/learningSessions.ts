@@ -2,14 +2,187 @@ import * as admin from "firebase-admin";
 import { onCall, HttpsError } from "firebase-functions/v2/https";
 import { logger } from "firebase-functions/v2";
 import { isUserAdmin } from "./utils";
+import {
+  AttendanceAuditActor,
+  actorFromAuth,
+  appendAttendanceAudit,
+} from "./attendanceAudit";
+import { getOrganizationTimeZone, getSessionDateId } from "./config";
+import { getApprovedLeaveReasons } from "./leave";
 
 interface EndSessionData {
   sessionId: string;
 }
 
 /**
- * Ends a learning session and locks all associated learning points.
- * This function is callable only by an admin.
+ * Marks a learning hour ended and writes one attendance record per active
+ * (non-archived) employee from the marks saved on the session, auditing every
+ * record whose status changes. A session that has already ended is left as is.
+ */
+async function endLearningHour(
+  sessionRef: admin.firestore.DocumentReference,
+  actor: AttendanceAuditActor,
+): Promise<number> {
+  const db = admin.firestore();
+  return db.runTransaction(async (transaction) => {
+    const sessionDoc = await transaction.get(sessionRef);
+    const session = sessionDoc.data();
+    if (!sessionDoc.exists || !session) {
+      throw new HttpsError("not-found", "Learning session does not exist.");
+    }
+    if (session.status === "ended") {
+      return 0;
+    }
+
+    // Read every employee and filter in code: a `!=` query would also drop
+    // employees that have no `archived` field at all
+    const employeesSnapshot = await transaction.get(db.collection("employees"));
+    const roster = employeesSnapshot.docs.filter(
+      (empDoc) => empDoc.data().archived !== true,
+    );
+    const recordRefs = roster.map((empDoc) =>
+      db
+        .collection("learning_hours_attendance")
+        .doc(`${sessionRef.id}_${empDoc.id}`),
+    );
+    // Existing records only matter for the audit trail of what changed
+    const existingRecords =
+      recordRefs.length > 0 ? await transaction.getAll(...recordRefs) : [];
+    const tempAttendance = session.tempAttendance || {};
+    const absenceReasons = session.absenceReasons || {};
+
+    roster.forEach((empDoc, index) => {
+      const employee = empDoc.data();
+      const status: string = tempAttendance[empDoc.id] || "Missed";
+      const record: admin.firestore.DocumentData = {
+        learning_hour_id: sessionRef.id,
+        employee_id: empDoc.id,
+        employee_name: employee.name,
+        employee_email: employee.email,
+        employeeId: employee.employeeId,
+        status,
+        scheduled_at: session.scheduledTime,
+        markedAt: admin.firestore.FieldValue.serverTimestamp(),
+      };
+      if (status === "Not Available") {
+        record.reason = absenceReasons[empDoc.id] || "No reason provided";
+      }
+      transaction.set(recordRefs[index], record);
+
+      const oldStatus = existingRecords[index]?.data()?.status ?? null;
+      if (oldStatus !== status) {
+        appendAttendanceAudit(transaction, {
+          ...actor,
+          sessionType: "learning_hours",
+          sessionId: sessionRef.id,
+          date: sessionRef.id,
+          employeeId: empDoc.id,
+          oldStatus,
+          newStatus: status,
+          reason: record.reason ?? null,
+          source: "learning-hour-end",
+        });
+      }
+    });
+
+    transaction.update(sessionRef, {
+      status: "ended",
+      endedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return roster.length;
+  });
+}
+
+/**
+ * Starts today's learning hour. Everyone on approved leave starts out Not
+ * Available with the leave reason, each mark audited under the caller.
+ */
+export const startLearningSession = onCall(
+  { region: "asia-south1", cors: true },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Authentication is required.");
+    }
+    if (!isUserAdmin(request.auth)) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only admins or co-admins can start a session.",
+      );
+    }
+
+    const db = admin.firestore();
+    const date = getSessionDateId(await getOrganizationTimeZone());
+    const sessionRef = db.collection("learning_hours").doc(date);
+    const actor = actorFromAuth(request.auth);
+    const leaveReasons = await getApprovedLeaveReasons(date);
+
+    try {
+      await db.runTransaction(async (transaction) => {
+        const sessionDoc = await transaction.get(sessionRef);
+        const session = sessionDoc.data();
+        if (!sessionDoc.exists || !session) {
+          throw new HttpsError(
+            "not-found",
+            "There is no learning hour scheduled today.",
+          );
+        }
+        if (session.status !== "scheduled") {
+          throw new HttpsError(
+            "failed-precondition",
+            "Today's learning hour has already started.",
+          );
+        }
+
+        const tempAttendance: { [employeeId: string]: string } = {};
+        const absenceReasons: { [employeeId: string]: string } = {};
+        leaveReasons.forEach((reason, employeeId) => {
+          tempAttendance[employeeId] = "Not Available";
+          absenceReasons[employeeId] = reason;
+          appendAttendanceAudit(transaction, {
+            ...actor,
+            sessionType: "learning_hours",
+            sessionId: date,
+            date,
+            employeeId,
+            oldStatus: null,
+            newStatus: "Not Available",
+            reason,
+            source: "leave",
+          });
+        });
+        transaction.update(sessionRef, {
+          status: "active",
+          startedAt: admin.firestore.FieldValue.serverTimestamp(),
+          tempAttendance,
+          absenceReasons,
+        });
+      });
+
+      logger.info("Learning session started", {
+        sessionId: date,
+        onLeave: leaveReasons.size,
+        adminId: request.auth.uid,
+        timestamp: new Date().toISOString(),
+      });
+      return { success: true, onLeave: leaveReasons.size };
+    } catch (error: any) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      logger.error("Error starting learning session", {
+        sessionId: date,
+        adminId: request.auth.uid,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+      throw new HttpsError("internal", "Failed to start the session.");
+    }
+  },
+);
+
+/**
+ * Ends a learning session, records its attendance and locks all associated
+ * learning points. This function is callable only by an admin.
  */
 export const endLearningSessionAndLockPoints = onCall<EndSessionData>(
   { region: "asia-south1", cors: true },
@@ -38,9 +211,15 @@ export const endLearningSessionAndLockPoints = onCall<EndSessionData>(
     }
 
     try {
+      // 2. Record attendance and mark the session as 'ended'
+      const attendanceRecords = await endLearningHour(
+        db.doc(`learning_hours/${sessionId}`),
+        actorFromAuth(request.auth),
+      );
+
       const batch = db.batch();
 
-      // 2. Find all learning points associated with this session
+      // 3. Find all learning points associated with this session
       const pointsQuery = db
         .collection("learning_points")
         .where("sessionId", "==", sessionId);
@@ -53,18 +232,12 @@ export const endLearningSessionAndLockPoints = onCall<EndSessionData>(
         });
       }
 
-      // 3. Mark the session itself as 'ended'
-      const sessionRef = db.doc(`learning_hours/${sessionId}`);
-      batch.update(sessionRef, {
-        status: "ended",
-        endedAt: admin.firestore.FieldValue.serverTimestamp(),
-      });
-
       // 4. Commit all the changes at once
       await batch.commit();
 
       logger.info("Learning session ended and points locked", {
         sessionId,
+        attendanceRecords,
         pointsLocked: pointsSnapshot.size,
         adminId: request.auth.uid,
         timestamp: new Date().toISOString(),
@@ -75,6 +248,9 @@ export const endLearningSessionAndLockPoints = onCall<EndSessionData>(
         message: `Session ended and ${pointsSnapshot.size} points were locked.`,
       };
     } catch (error: any) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
       logger.error("Error ending learning session", {
         sessionId,
         adminId: request.auth.uid,
@@ -0,0 +1,123 @@
+/**
+ * @file Planned leave: employees file date ranges ahead of time, admins approve them,
+ * and approved leave pre-marks the employee "Not Available" when a session starts.
+ */
+import * as admin from "firebase-admin";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions/v2";
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { leaveRequestSchema, validateInput } from "./validation";
+import { getOrganizationTimeZone, getSessionDateId } from "./config";
+
+// Longer absences are handled outside the leave registry
+const MAX_LEAVE_DAYS = 60;
+
+/**
+ * Returns the reason of every approved leave covering `date` (yyyy-MM-dd), keyed by employee.
+ */
+export async function getApprovedLeaveReasons(
+  date: string,
+): Promise<Map<string, string>> {
+  // Filtering the range here avoids needing a composite index on status and dates
+  const snapshot = await admin
+    .firestore()
+    .collection("leaveRequests")
+    .where("status", "==", "approved")
+    .get();
+
+  const reasons = new Map<string, string>();
+  snapshot.docs.forEach((doc) => {
+    const data = doc.data();
+    if (data.startDate <= date && data.endDate >= date) {
+      reasons.set(data.employeeId, `On leave: ${data.reason}`);
+    }
+  });
+  return reasons;
+}
+
+/**
+ * Marks every roster member on approved leave as "Not Available" with the
+ * leave reason, in place. Returns how many members were marked.
+ */
+export function applyApprovedLeave(
+  leaveReasons: Map<string, string>,
+  tempAttendance: { [employeeId: string]: string },
+  absenceReasons: { [employeeId: string]: string },
+): number {
+  let marked = 0;
+  leaveReasons.forEach((reason, employeeId) => {
+    if (employeeId in tempAttendance) {
+      tempAttendance[employeeId] = "Not Available";
+      absenceReasons[employeeId] = reason;
+      marked++;
+    }
+  });
+  return marked;
+}
+
+/**
+ * Files a planned leave for the caller. Requests start as pending until an admin reviews them.
+ */
+export const submitLeaveRequest = onCall(
+  { region: "asia-south1", cors: true },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Authentication is required.");
+    }
+    const uid = request.auth.uid;
+    const { startDate, endDate, reason } = validateInput(
+      leaveRequestSchema,
+      request.data,
+    );
+
+    const today = getSessionDateId(await getOrganizationTimeZone());
+    if (startDate < today) {
+      throw new HttpsError(
+        "invalid-argument",
+        "Leave can only be filed for today or later.",
+      );
+    }
+    if (
+      differenceInCalendarDays(parseISO(endDate), parseISO(startDate)) >=
+      MAX_LEAVE_DAYS
+    ) {
+      throw new HttpsError(
+        "invalid-argument",
+        `Leave can span at most ${MAX_LEAVE_DAYS} days.`,
+      );
+    }
+
+    const db = admin.firestore();
+    const employeeDoc = await db.collection("employees").doc(uid).get();
+    if (!employeeDoc.exists || employeeDoc.data()?.archived === true) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only active employees can file leave.",
+      );
+    }
+
+    const leaveRef = await db.collection("leaveRequests").add({
+      employeeId: uid,
+      employeeName: employeeDoc.data()?.name || "",
+      startDate,
+      endDate,
+      reason,
+      status: "pending",
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    logger.info("Leave request submitted", {
+      userId: uid,
+      leaveRequestId: leaveRef.id,
+      startDate,
+      endDate,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: true,
+      id: leaveRef.id,
+      message: "Leave request submitted for approval.",
+    };
+  },
+);
@@ -0,0 +1,114 @@
+/**
+ * @file Marks made by facilitators while a standup or learning hour is running.
+ * Each mark is saved together with its audit entry, attributed to the caller.
+ */
+import * as admin from "firebase-admin";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions/v2";
+import { isUserAdmin } from "./utils";
+import { markLiveAttendanceSchema, validateInput } from "./validation";
+import { getStandupDocId } from "./teams";
+import { actorFromAuth, appendAttendanceAudit } from "./attendanceAudit";
+import { getOrganizationTimeZone, getSessionDateId } from "./config";
+import { resolveLateCutoff } from "./standups";
+
+/**
+ * Sets one member's status on today's active standup (the organization-wide
+ * one, or the given team's) or learning hour. A standup Present marked after
+ * the grace period is stored as Late. Returns the status that was stored.
+ */
+export const markLiveAttendance = onCall(
+  { region: "asia-south1", cors: true },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Authentication is required.");
+    }
+    if (!isUserAdmin(request.auth)) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only admins and co-admins can mark attendance.",
+      );
+    }
+    const { sessionType, teamId, employeeId, status, reason } = validateInput(
+      markLiveAttendanceSchema,
+      request.data,
+    );
+
+    const db = admin.firestore();
+    const date = getSessionDateId(await getOrganizationTimeZone());
+    const sessionId =
+      sessionType === "standups" ? getStandupDocId(date, teamId) : date;
+    const sessionRef = db.collection(sessionType).doc(sessionId);
+    const actor = actorFromAuth(request.auth);
+
+    try {
+      return await db.runTransaction(async (transaction) => {
+        const sessionDoc = await transaction.get(sessionRef);
+        const session = sessionDoc.data();
+        if (!sessionDoc.exists || !session) {
+          throw new HttpsError("not-found", "There is no session today.");
+        }
+        if (session.status !== "active") {
+          throw new HttpsError(
+            "failed-precondition",
+            "Attendance can only be marked while the session is running.",
+          );
+        }
+
+        let newStatus: string = status;
+        if (
+          sessionType === "standups" &&
+          status === "Present" &&
+          new Date() > (await resolveLateCutoff(session))
+        ) {
+          newStatus = "Late";
+        }
+
+        const updates: admin.firestore.UpdateData<admin.firestore.DocumentData> =
+          { [`tempAttendance.${employeeId}`]: newStatus };
+        if (newStatus === "Not Available") {
+          updates[`absenceReasons.${employeeId}`] = reason;
+        }
+        if (sessionType === "standups") {
+          if (newStatus === "Present" || newStatus === "Late") {
+            updates[`markedTimes.${employeeId}`] =
+              admin.firestore.FieldValue.serverTimestamp();
+          }
+        } else {
+          // Lets other facilitators see who changed the row
+          updates[`markedBy.${employeeId}`] = {
+            uid: actor.actorId,
+            name: actor.actorName,
+          };
+        }
+        transaction.update(sessionRef, updates);
+
+        appendAttendanceAudit(transaction, {
+          ...actor,
+          sessionType,
+          sessionId,
+          date,
+          employeeId,
+          oldStatus: session.tempAttendance?.[employeeId] ?? null,
+          newStatus,
+          reason: newStatus === "Not Available" ? (reason ?? null) : null,
+          source:
+            sessionType === "standups" ? "standup-live" : "learning-hour-live",
+        });
+        return { success: true, status: newStatus };
+      });
+    } catch (error: any) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
+      logger.error("Error marking live attendance", {
+        sessionId,
+        employeeId,
+        userId: request.auth.uid,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+      throw new HttpsError("internal", "Failed to save the attendance mark.");
+    }
+  },
+);
@@ -1,7 +1,9 @@
 import * as admin from "firebase-admin";
 import { onCall, HttpsError } from "firebase-functions/v2/https";
 import { logger } from "firebase-functions/v2";
-import { formatInTimeZone } from "date-fns-tz";
+import { addMonths, format, parseISO } from "date-fns";
+import { formatInTimeZone, zonedTimeToUtc } from "date-fns-tz";
+import { getOrganizationTimeZone } from "./config";
 
 interface GivenPeerFeedback {
   giverId: string;
@@ -249,18 +251,20 @@ export const givePeerFeedback = onCall<{
     }
 
     // Prevent race conditions with transaction-based duplicate check and creation
-    // Calculate month boundaries in IST to avoid UTC boundary issues
-    const nowIST = formatInTimeZone(new Date(), "Asia/Kolkata", "yyyy-MM-dd'T'HH:mm:ss");
-    const istDate = new Date(nowIST);
-    const startOfMonth = new Date(istDate.getFullYear(), istDate.getMonth(), 1);
+    // Calculate month boundaries in the organization time zone to avoid UTC boundary issues
+    const timeZone = await getOrganizationTimeZone();
+    const monthStart = formatInTimeZone(
+      new Date(),
+      timeZone,
+      "yyyy-MM-01'T'00:00:00",
+    );
+    const nextMonthStart = format(
+      addMonths(parseISO(monthStart), 1),
+      "yyyy-MM-dd'T'HH:mm:ss",
+    );
+    const startOfMonth = zonedTimeToUtc(monthStart, timeZone);
     const endOfMonth = new Date(
-      istDate.getFullYear(),
-      istDate.getMonth() + 1,
-      0,
-      23,
-      59,
-      59,
-      999,
+      zonedTimeToUtc(nextMonthStart, timeZone).getTime() - 1,
     );
 
     try {
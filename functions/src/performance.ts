@@ -4,19 +4,131 @@ import { logger } from "firebase-functions/v2";
 import {
   startOfMonth,
   endOfMonth,
+  eachMonthOfInterval,
+  differenceInCalendarMonths,
   format,
   parseISO,
-  eachDayOfInterval,
-  getDay,
+  min,
 } from "date-fns";
 import { isUserAdmin } from "./utils";
+import { countWorkingDays } from "./holidays";
+import { getCancelledStandupDates } from "./standups";
+import { findTeamForEmployee } from "./teams";
+import { getOrganizationTimeZone, getSessionDateId } from "./config";
+import {
+  performanceRequestSchema,
+  validateInput,
+  type PerformanceRequestInput,
+} from "./validation";
+import {
+  EMPLOYEE_STATS_COLLECTION,
+  employeeStatsDocId,
+  type EmployeeMonthStats,
+  type StatusCounts,
+} from "./employeeStats";
+
+const MAX_TREND_MONTHS = 24;
+
+/** One month of a performance trend. Percentages are of that month's working days. */
+interface PerformanceTrendPoint {
+  month: string; // yyyy-MM
+  workingDays: number;
+  standupDays: number;
+  learningDays: number;
+  standupPresence: number;
+  learningPresence: number;
+  // Same measure as the single-month summary: attended standups, counting
+  // Late and Not Available
+  presencePercentage: number;
+  // The month is still in progress; its working days only run to today
+  partial: boolean;
+}
+
+/** Sessions attended: Late arrivals still attended. */
+export const attendedDays = (counts?: StatusCounts) =>
+  (counts?.present ?? 0) + (counts?.late ?? 0);
 
-interface PerformanceRequest {
-  employeeId: string;
-  month: string; // YYYY-MM format
+/**
+ * Days that count towards presence: attended sessions plus approved absences
+ * (Not Available). Analytics use the same measure.
+ */
+export const presenceDays = (counts?: StatusCounts) =>
+  attendedDays(counts) + (counts?.notAvailable ?? 0);
+
+/** A share of `total` as a percentage with one decimal. */
+export const toPercentage = (days: number, total: number) =>
+  total > 0 ? Math.round((days / total) * 1000) / 10 : 0;
+
+/**
+ * Builds a per-month series from the employeeStats documents, one read for
+ * the whole range. Cancelled standups are looked up once for the range too.
+ */
+async function getPerformanceTrend(
+  employeeId: string,
+  from: string,
+  to: string,
+): Promise<PerformanceTrendPoint[]> {
+  const months = eachMonthOfInterval({
+    start: parseISO(`${from}-01`),
+    end: parseISO(`${to}-01`),
+  }).map((date) => format(date, "yyyy-MM"));
+  const today = parseISO(getSessionDateId(await getOrganizationTimeZone()));
+
+  const db = admin.firestore();
+  const team = await findTeamForEmployee(employeeId);
+  const [statsDocs, cancelledDates] = await Promise.all([
+    db.getAll(
+      ...months.map((month) =>
+        db
+          .collection(EMPLOYEE_STATS_COLLECTION)
+          .doc(employeeStatsDocId(employeeId, month)),
+      ),
+    ),
+    getCancelledStandupDates(
+      `${from}-01`,
+      format(endOfMonth(parseISO(`${to}-01`)), "yyyy-MM-dd"),
+      team?.id ?? null,
+    ),
+  ]);
+
+  return Promise.all(
+    months.map(async (month, index) => {
+      const monthStart = parseISO(`${month}-01`);
+      const monthEnd = endOfMonth(monthStart);
+      const partial = today < monthEnd;
+      const workingDays =
+        today < monthStart
+          ? 0
+          : await countWorkingDays(
+              monthStart,
+              min([monthEnd, today]),
+              cancelledDates,
+            );
+      const stats = statsDocs[index].data() as EmployeeMonthStats | undefined;
+      const standupDays = attendedDays(stats?.standups);
+      const learningDays = attendedDays(stats?.learningHours);
+      return {
+        month,
+        workingDays,
+        standupDays,
+        learningDays,
+        standupPresence: toPercentage(standupDays, workingDays),
+        learningPresence: toPercentage(learningDays, workingDays),
+        presencePercentage: toPercentage(
+          presenceDays(stats?.standups),
+          workingDays,
+        ),
+        partial,
+      };
+    }),
+  );
 }
 
-export const getEmployeePerformanceSummary = onCall<PerformanceRequest>(
+/**
+ * Summarizes one employee's attendance for a `month`, or returns a per-month
+ * `series` when given a `from`/`to` range of months instead.
+ */
+export const getEmployeePerformanceSummary = onCall<PerformanceRequestInput>(
   { region: "asia-south1", cors: true },
   async (request) => {
     const startTime = Date.now();
@@ -32,97 +144,112 @@ export const getEmployeePerformanceSummary = onCall<PerformanceRequest>(
       );
     }
 
-    const { employeeId, month } = request.data;
-    if (!employeeId || !month) {
-      throw new HttpsError(
-        "invalid-argument",
-        "Both employee and month parameters are required.",
-      );
-    }
+    const { employeeId, month, from, to } = validateInput(
+      performanceRequestSchema,
+      request.data,
+    );
 
     logger.info("Performance summary requested", {
       userId,
       targetEmployeeId: employeeId,
-      month,
+      month: month ?? null,
+      from: from ?? null,
+      to: to ?? null,
       timestamp: new Date().toISOString(),
     });
 
+    if (!month) {
+      if (
+        differenceInCalendarMonths(
+          parseISO(`${to}-01`),
+          parseISO(`${from}-01`),
+        ) >= MAX_TREND_MONTHS
+      ) {
+        throw new HttpsError(
+          "invalid-argument",
+          `Trends cover at most ${MAX_TREND_MONTHS} months.`,
+        );
+      }
+      try {
+        const series = await getPerformanceTrend(employeeId, from!, to!);
+        logger.info("Performance trend completed", {
+          userId,
+          targetEmployeeId: employeeId,
+          months: series.length,
+          durationMs: Date.now() - startTime,
+          timestamp: new Date().toISOString(),
+        });
+        return { series };
+      } catch (error: any) {
+        logger.error("Error fetching performance trend", {
+          userId,
+          targetEmployeeId: employeeId,
+          error: error.message,
+          durationMs: Date.now() - startTime,
+          timestamp: new Date().toISOString(),
+        });
+        throw new HttpsError(
+          "internal",
+          "An unexpected error occurred while fetching the performance trend.",
+        );
+      }
+    }
+
     const db = admin.firestore();
     const targetMonth = parseISO(month + "-01");
     const monthStart = startOfMonth(targetMonth);
     const monthEnd = endOfMonth(targetMonth);
 
-    // Calculate working days in the month (excluding Sundays)
-    const daysInInterval = eachDayOfInterval({
-      start: monthStart,
-      end: monthEnd,
-    });
-    const workingDaysInMonth = daysInInterval.filter(
-      (day) => getDay(day) !== 0,
-    ).length; // 0 is Sunday
-
     try {
-      // Build queries
-      const standupQuery = db
-        .collection("attendance")
-        .where("employee_id", "==", employeeId)
-        .where("standup_id", ">=", format(monthStart, "yyyy-MM-dd"))
-        .where("standup_id", "<=", format(monthEnd, "yyyy-MM-dd"));
-
-      const learningQuery = db
-        .collection("learning_hours_attendance")
-        .where("employee_id", "==", employeeId)
-        .where("learning_hour_id", ">=", format(monthStart, "yyyy-MM-dd"))
-        .where("learning_hour_id", "<=", format(monthEnd, "yyyy-MM-dd"));
-
-      // Execute both queries in parallel for better performance
-      const [standupSnapshot, learningSnapshot] = await Promise.all([
-        standupQuery.get(),
-        learningQuery.get(),
-      ]);
-
-      // Process standup attendance
-      const standupStats = { present: 0, absent: 0, missed: 0, unavailable: 0 };
-      standupSnapshot.forEach((doc) => {
-        const status = doc.data().status;
-        if (status === "Present") standupStats.present++;
-        else if (status === "Absent") standupStats.absent++;
-        else if (status === "Missed") standupStats.missed++;
-        else if (status === "Not Available") standupStats.unavailable++;
-      });
+      // Working days in the month exclude disabled weekdays, organization
+      // holidays and days whose standup was cancelled for this employee
+      const team = await findTeamForEmployee(employeeId);
+      const cancelledDates = await getCancelledStandupDates(
+        format(monthStart, "yyyy-MM-dd"),
+        format(monthEnd, "yyyy-MM-dd"),
+        team?.id ?? null,
+      );
+      const workingDaysInMonth = await countWorkingDays(
+        monthStart,
+        monthEnd,
+        cancelledDates,
+      );
 
-      // Process learning hours attendance
-      const learningStats = {
-        present: 0,
-        absent: 0,
-        missed: 0,
-        unavailable: 0,
-      };
-      learningSnapshot.forEach((doc) => {
-        const status = doc.data().status;
-        if (status === "Present") learningStats.present++;
-        else if (status === "Absent") learningStats.absent++;
-        else if (status === "Missed") learningStats.missed++;
-        else if (status === "Not Available") learningStats.unavailable++;
+      // Totals are kept up to date by the employeeStats triggers
+      const statsDoc = await db
+        .collection(EMPLOYEE_STATS_COLLECTION)
+        .doc(employeeStatsDocId(employeeId, month))
+        .get();
+      const stats = statsDoc.data() as EmployeeMonthStats | undefined;
+      const toAttendanceStats = (counts?: StatusCounts) => ({
+        present: counts?.present ?? 0,
+        late: counts?.late ?? 0,
+        absent: counts?.absent ?? 0,
+        missed: counts?.missed ?? 0,
+        unavailable: counts?.notAvailable ?? 0,
       });
+      const standupStats = toAttendanceStats(stats?.standups);
+      const learningStats = toAttendanceStats(stats?.learningHours);
 
       // 3. Presence Donut Chart Data (based on standup attendance)
-      const attendedDays = standupStats.present + standupStats.unavailable;
       const presencePercentage =
-        workingDaysInMonth > 0 ? (attendedDays / workingDaysInMonth) * 100 : 0;
+        workingDaysInMonth > 0
+          ? (presenceDays(stats?.standups) / workingDaysInMonth) * 100
+          : 0;
 
       const result = {
         standupAttendance: standupStats,
         learningAttendance: learningStats,
         monthlyChart: {
-          standupDays: standupStats.present,
-          learningDays: learningStats.present,
+          standupDays: standupStats.present + standupStats.late,
+          learningDays: learningStats.present + learningStats.late,
         },
         presenceChart: {
           ...standupStats,
           presencePercentage: presencePercentage.toFixed(1),
         },
         workingDays: workingDaysInMonth,
+        learningPoints: stats?.learningPoints ?? 0,
       };
 
       logger.info("Performance summary completed", {
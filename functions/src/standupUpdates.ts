@@ -0,0 +1,167 @@
+/**
+ * @file Async standup updates (yesterday / today / blockers) stored under each standup.
+ */
+import * as admin from "firebase-admin";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions/v2";
+import { standupUpdateSchema, validateInput } from "./validation";
+import { resolveStandupEndTime } from "./standups";
+import { applySelfCheckIn } from "./checkIn";
+import { findTeamForEmployee, getStandupDocId } from "./teams";
+import { getBlockerDocId } from "./blockers";
+import { getOrganizationTimeZone, getSessionDateId } from "./config";
+
+/**
+ * Saves the caller's update for today's standup at `standups/{id}/updates/{uid}`.
+ * Posting while the session is live also marks a member who is still Missed as present.
+ */
+export const submitStandupUpdate = onCall(
+  { region: "asia-south1", cors: true },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Authentication is required.");
+    }
+    const uid = request.auth.uid;
+    const { yesterday, today, blockers } = validateInput(
+      standupUpdateSchema,
+      request.data,
+    );
+
+    const db = admin.firestore();
+    const employeeDoc = await db.collection("employees").doc(uid).get();
+    if (!employeeDoc.exists || employeeDoc.data()?.archived === true) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only active employees can post standup updates.",
+      );
+    }
+
+    const now = new Date();
+    const date = getSessionDateId(await getOrganizationTimeZone(), now);
+    const team = await findTeamForEmployee(uid);
+    const standupId = getStandupDocId(date, team?.id);
+    const standupRef = db.collection("standups").doc(standupId);
+    const updateRef = standupRef.collection("updates").doc(uid);
+    const blockerRef = db
+      .collection("blockers")
+      .doc(getBlockerDocId(date, uid));
+
+    const markedStatus = await db.runTransaction(async (transaction) => {
+      const [standupDoc, existingUpdate, existingBlocker] = await Promise.all([
+        transaction.get(standupRef),
+        transaction.get(updateRef),
+        transaction.get(blockerRef),
+      ]);
+      const standupData = standupDoc.data();
+      if (
+        !standupDoc.exists ||
+        standupData?.status === "ended" ||
+        standupData?.status === "cancelled"
+      ) {
+        throw new HttpsError(
+          "failed-precondition",
+          "There is no open standup to post an update to.",
+        );
+      }
+
+      let status: "Present" | "Late" | null = null;
+      if (standupData?.status === "active") {
+        const startTime: Date = (
+          standupData.startedAt || standupData.scheduledTime
+        ).toDate();
+        const endTime = await resolveStandupEndTime(standupData);
+        const currentStatus = standupData.tempAttendance?.[uid];
+        // Never override a status an admin has already set
+        if (
+          now >= startTime &&
+          now <= endTime &&
+          (!currentStatus || currentStatus === "Missed")
+        ) {
+          status = await applySelfCheckIn(
+            transaction,
+            standupRef,
+            standupData,
+            uid,
+            now,
+            { actorId: uid, actorName: employeeDoc.data()?.name || "" },
+          );
+        }
+      }
+
+      transaction.set(
+        updateRef,
+        {
+          employeeId: uid,
+          employeeName: employeeDoc.data()?.name || "",
+          yesterday,
+          today,
+          blockers,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          ...(existingUpdate.exists
+            ? {}
+            : { submittedAt: admin.firestore.FieldValue.serverTimestamp() }),
+        },
+        { merge: true },
+      );
+
+      // Raising a blocker starts tracking it; its owner and status are managed by facilitators
+      const blocker = existingBlocker.data();
+      if (blockers) {
+        const employeeName = employeeDoc.data()?.name || "";
+        // Rewording a resolved blocker means it is back
+        const reopened =
+          blocker?.status === "resolved" && blocker.description !== blockers;
+        transaction.set(
+          blockerRef,
+          {
+            raisedBy: uid,
+            raisedByName: employeeName,
+            description: blockers,
+            teamId: team?.id ?? null,
+            standupDates: admin.firestore.FieldValue.arrayUnion(date),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            ...(reopened ? { status: "open", resolvedAt: null } : {}),
+            ...(existingBlocker.exists
+              ? {}
+              : {
+                  status: "open",
+                  ownerId: null,
+                  ownerName: null,
+                  createdAt: admin.firestore.FieldValue.serverTimestamp(),
+                }),
+          },
+          { merge: true },
+        );
+      } else if (blocker && blocker.status !== "resolved") {
+        // Clearing the text withdraws the blocker: drop it if no facilitator
+        // has picked it up yet, otherwise close it so their work stays visible
+        if (blocker.status === "open" && !blocker.ownerId) {
+          transaction.delete(blockerRef);
+        } else {
+          transaction.update(blockerRef, {
+            status: "resolved",
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            resolvedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+        }
+      }
+      return status;
+    });
+
+    logger.info("Standup update submitted", {
+      userId: uid,
+      standupId,
+      markedStatus,
+      hasBlockers: blockers.length > 0,
+      timestamp: new Date().toISOString(),
+    });
+
+    return {
+      success: true,
+      status: markedStatus,
+      message: markedStatus
+        ? `Update posted. You've been marked ${markedStatus === "Late" ? "late" : "present"}.`
+        : "Update posted.",
+    };
+  },
+);
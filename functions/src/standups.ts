@@ -1,58 +1,214 @@
 import * as admin from "firebase-admin";
 import { onSchedule } from "firebase-functions/v2/scheduler";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
 import { logger } from "firebase-functions/v2";
 // Import timezone functions
 import { zonedTimeToUtc, formatInTimeZone } from "date-fns-tz";
-import { getDay } from "date-fns";
+import { addMinutes, differenceInMinutes } from "date-fns";
+import {
+  DEFAULT_TIME_ZONE,
+  getOrganizationTimeZone,
+  getSessionDateId,
+  getStandupSchedule,
+  getZonedDayOfWeek,
+} from "./config";
+import { isHoliday } from "./holidays";
+import {
+  getStandupDocId,
+  getTeams,
+  isOnStandupRoster,
+  type Team,
+} from "./teams";
+import { carryOverOpenBlockers } from "./blockers";
+import { applyApprovedLeave, getApprovedLeaveReasons } from "./leave";
+import {
+  AttendanceAuditActor,
+  SYSTEM_ACTOR,
+  actorFromAuth,
+  appendAttendanceAudit,
+} from "./attendanceAudit";
+import { isUserAdmin } from "./utils";
+import { endStandupSchema, validateInput } from "./validation";
 
-const TIME_ZONE = "Asia/Kolkata";
+/**
+ * Returns when a standup's session window closes. Manually scheduled standups
+ * carry no endTime, so they fall back to the configured duration for their weekday.
+ */
+export async function resolveStandupEndTime(
+  standupData: admin.firestore.DocumentData,
+): Promise<Date> {
+  if (standupData.endTime) {
+    return standupData.endTime.toDate();
+  }
+  const scheduledTime: Date = standupData.scheduledTime.toDate();
+  const [schedule, timeZone] = await Promise.all([
+    getStandupSchedule(),
+    getOrganizationTimeZone(),
+  ]);
+  const daySchedule =
+    schedule.days[String(getZonedDayOfWeek(scheduledTime, timeZone))];
+  return addMinutes(scheduledTime, daySchedule.durationMinutes);
+}
+
+/**
+ * Returns the dates (yyyy-MM-dd) between `start` and `end`, inclusive, whose standup
+ * was cancelled for the given team's members: the organization-wide standup, or the
+ * team's own. An organization-wide standup held alongside teams (`forUnassigned`)
+ * only counts for members on no team. Those days count as non-working, like holidays.
+ */
+export async function getCancelledStandupDates(
+  start: string,
+  end: string,
+  teamId: string | null,
+): Promise<Set<string>> {
+  const cancelled = admin
+    .firestore()
+    .collection("standups")
+    .where("status", "==", "cancelled");
+  // The date range needs a composite index on status and date. Older
+  // organization-wide standups carry no `date`; their id is the date.
+  const [byDate, legacy] = await Promise.all([
+    cancelled.where("date", ">=", start).where("date", "<=", end).get(),
+    cancelled
+      .where(admin.firestore.FieldPath.documentId(), ">=", start)
+      .where(admin.firestore.FieldPath.documentId(), "<=", end)
+      .get(),
+  ]);
+  const dates = new Set<string>();
+  [...byDate.docs, ...legacy.docs].forEach((doc) => {
+    const data = doc.data();
+    const date: string = data.date || doc.id;
+    if (
+      data.teamId
+        ? data.teamId === teamId
+        : !data.forUnassigned || teamId === null
+    ) {
+      dates.add(date);
+    }
+  });
+  return dates;
+}
+
+/**
+ * Returns the instant after which a Present mark counts as Late:
+ * `startedAt` (or the scheduled time, before the session starts) plus the grace window.
+ */
+export async function resolveLateCutoff(
+  standupData: admin.firestore.DocumentData,
+): Promise<Date> {
+  const startTime: Date = (
+    standupData.startedAt || standupData.scheduledTime
+  ).toDate();
+  const { lateGraceMinutes } = await getStandupSchedule();
+  return addMinutes(startTime, lateGraceMinutes);
+}
 
 // Function to schedule standup
+// Runs shortly after midnight in the organization time zone so that any start
+// time configured in `config/standupSchedule` is created before it is due. Each
+// team gets its own standup; the organization-wide standup covers everyone while
+// there are no teams, and afterwards the active employees who are on no team.
+// The trigger fires hourly because the organization time zone can change after
+// deploy; only the run that lands in the first hour of the local day does anything.
 export const scheduleDailyStandup = onSchedule(
   {
     region: "asia-south1",
-    schedule: "every day 08:00",
-    timeZone: TIME_ZONE,
+    schedule: "5 * * * *",
+    timeZone: DEFAULT_TIME_ZONE,
   },
   async () => {
     const db = admin.firestore();
-    // Get the current date in the specified timezone
     const now = new Date();
-    const dayOfWeek = getDay(now);
-    // CORRECT: Always format the date in your target timezone
-    const todayDocId = formatInTimeZone(now, TIME_ZONE, "yyyy-MM-dd");
-
-    if (dayOfWeek === 0) {
-      // Skip Sundays
-      logger.info("Skipping standup scheduling on Sunday", {
-        date: todayDocId,
-        timestamp: new Date().toISOString(),
-      });
+    const timeZone = await getOrganizationTimeZone();
+    if (formatInTimeZone(now, timeZone, "H") !== "0") {
       return;
     }
-    // CORRECT: Always format the date in your target timezone
-    const standupRef = db.collection("standups").doc(todayDocId);
-
-    // Set standup time to 8:45 AM IST
-    // 1. Get today's date string in IST
-    const dateString = formatInTimeZone(now, TIME_ZONE, "yyyy-MM-dd");
-    // 2. Create the full timestamp string for 8:45 AM IST
-    const standupTimeInZone = zonedTimeToUtc(
-      `${dateString}T08:45:00`,
-      TIME_ZONE,
-    );
+    const dayOfWeek = getZonedDayOfWeek(now, timeZone);
+    const todayDocId = getSessionDateId(timeZone, now);
 
     try {
-      await standupRef.set({
-        status: "scheduled",
-        scheduledTime: admin.firestore.Timestamp.fromDate(standupTimeInZone),
-        scheduledBy: "System Automation",
-      });
-      logger.info("Standup scheduled successfully", {
-        date: todayDocId,
-        scheduledTime: "08:45 AM IST",
-        timestamp: new Date().toISOString(),
-      });
+      const schedule = await getStandupSchedule();
+      const daySchedule = schedule.days[String(dayOfWeek)];
+
+      if (!daySchedule?.enabled) {
+        logger.info("Standups are disabled for this weekday, skipping", {
+          date: todayDocId,
+          dayOfWeek,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (await isHoliday(todayDocId)) {
+        logger.info("Today is an organization holiday, skipping", {
+          date: todayDocId,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const [teams, employeesSnapshot] = await Promise.all([
+        getTeams(),
+        db.collection("employees").get(),
+      ]);
+      const hasUnassigned = employeesSnapshot.docs.some(
+        (empDoc) =>
+          empDoc.data().archived !== true &&
+          isOnStandupRoster(empDoc.id, null, teams),
+      );
+      const targets: { team: Team | null; startTime: string | null }[] =
+        teams.map((team) => ({ team, startTime: team.startTime }));
+      if (hasUnassigned) {
+        targets.push({ team: null, startTime: null });
+      }
+
+      for (const { team, startTime } of targets) {
+        const standupId = getStandupDocId(todayDocId, team?.id);
+        const standupRef = db.collection("standups").doc(standupId);
+        const existing = await standupRef.get();
+        // A standup an admin already cancelled or rescheduled for today is left as is
+        if (existing.exists) {
+          logger.info("Standup already exists for today, skipping", {
+            standupId,
+            status: existing.data()?.status,
+          });
+          continue;
+        }
+
+        // Build the start time from the configured HH:mm in the org time zone
+        const standupTimeInZone = zonedTimeToUtc(
+          `${todayDocId}T${startTime || daySchedule.startTime}:00`,
+          timeZone,
+        );
+        const endTime = addMinutes(
+          standupTimeInZone,
+          daySchedule.durationMinutes,
+        );
+
+        await standupRef.set({
+          status: "scheduled",
+          date: todayDocId,
+          scheduledTime: admin.firestore.Timestamp.fromDate(standupTimeInZone),
+          endTime: admin.firestore.Timestamp.fromDate(endTime),
+          scheduledBy: "System Automation",
+          ...(team
+            ? {
+                teamId: team.id,
+                teamName: team.name,
+                facilitatorId: team.facilitatorId,
+              }
+            : {}),
+          // Cancelling it then only affects the members who are on no team
+          ...(!team && teams.length > 0 ? { forUnassigned: true } : {}),
+        });
+        logger.info("Standup scheduled successfully", {
+          standupId,
+          teamId: team?.id ?? null,
+          scheduledTime: startTime || daySchedule.startTime,
+          durationMinutes: daySchedule.durationMinutes,
+          timestamp: new Date().toISOString(),
+        });
+      }
     } catch (error: any) {
       logger.error("Error scheduling standup", {
         date: todayDocId,
@@ -64,36 +220,106 @@ export const scheduleDailyStandup = onSchedule(
 );
 
 // Function to automatically start the standup
+// Polls every minute and starts each of today's standups once its scheduled time has passed.
 export const startScheduledStandup = onSchedule(
   {
     region: "asia-south1",
-    schedule: "every mon,tue,wed,thu,fri,sat 08:45",
-    timeZone: TIME_ZONE,
+    schedule: "every 1 minutes",
+    timeZone: DEFAULT_TIME_ZONE,
   },
   async () => {
     const db = admin.firestore();
-    const todayDocId = formatInTimeZone(new Date(), TIME_ZONE, "yyyy-MM-dd");
-    const standupRef = db.collection("standups").doc(todayDocId);
+    const now = new Date();
+    const todayDocId = getSessionDateId(await getOrganizationTimeZone(), now);
 
     try {
-      const standupDoc = await standupRef.get();
-      if (standupDoc.exists && standupDoc.data()?.status === "scheduled") {
-        // Fetch all employees to initialize tempAttendance
-        const employeesSnapshot = await db.collection("employees").where("archived", "!=", true).get();
+      // Cancelled standups keep their "cancelled" status and are never started
+      const scheduledSnapshot = await db
+        .collection("standups")
+        .where("status", "==", "scheduled")
+        .get();
+      // Older documents carry no `date` field; their id is the date
+      const dueStandups = scheduledSnapshot.docs.filter((standupDoc) => {
+        const data = standupDoc.data();
+        return (
+          (data.date || standupDoc.id) === todayDocId &&
+          data.scheduledTime.toDate() <= now
+        );
+      });
+      if (dueStandups.length === 0) {
+        return;
+      }
+
+      // Fetch all employees to initialize tempAttendance. Archived ones are
+      // filtered in code, as in endStandup, because a `!=` query would also
+      // drop employees that have no `archived` field at all
+      const [employeesSnapshot, teams, leaveReasons] = await Promise.all([
+        db.collection("employees").get(),
+        getTeams(),
+        getApprovedLeaveReasons(todayDocId),
+      ]);
+
+      for (const standupDoc of dueStandups) {
+        const { teamId } = standupDoc.data();
+        const team = teamId ? teams.find((t) => t.id === teamId) : null;
+        if (teamId && !team) {
+          logger.warn("Team for scheduled standup no longer exists", {
+            standupId: standupDoc.id,
+            teamId,
+          });
+        }
+
         const initialTempAttendance: { [key: string]: string } = {};
         employeesSnapshot.forEach((empDoc) => {
-          initialTempAttendance[empDoc.id] = "Missed";
+          if (
+            empDoc.data().archived !== true &&
+            isOnStandupRoster(empDoc.id, teamId ?? null, teams)
+          ) {
+            initialTempAttendance[empDoc.id] = "Missed";
+          }
         });
 
-        await standupRef.update({
+        // Members on approved leave start out Not Available with the leave reason
+        const initialAbsenceReasons: { [key: string]: string } = {};
+        const onLeave = applyApprovedLeave(
+          leaveReasons,
+          initialTempAttendance,
+          initialAbsenceReasons,
+        );
+
+        const startBatch = db.batch();
+        startBatch.update(standupDoc.ref, {
           status: "active",
           startedAt: admin.firestore.FieldValue.serverTimestamp(),
           tempAttendance: initialTempAttendance,
-          absenceReasons: {},
+          absenceReasons: initialAbsenceReasons,
         });
+        Object.entries(initialAbsenceReasons).forEach(
+          ([employeeId, reason]) => {
+            appendAttendanceAudit(startBatch, {
+              ...SYSTEM_ACTOR,
+              sessionType: "standups",
+              sessionId: standupDoc.id,
+              date: todayDocId,
+              employeeId,
+              oldStatus: null,
+              newStatus: "Not Available",
+              reason,
+              source: "leave",
+            });
+          },
+        );
+        await startBatch.commit();
+        const carriedBlockers = await carryOverOpenBlockers(
+          todayDocId,
+          teams.length > 0 ? Object.keys(initialTempAttendance) : null,
+        );
         logger.info("Standup started successfully", {
-          date: todayDocId,
-          employeeCount: employeesSnapshot.size,
+          standupId: standupDoc.id,
+          teamId: teamId ?? null,
+          employeeCount: Object.keys(initialTempAttendance).length,
+          onLeave,
+          carriedBlockers,
           timestamp: new Date().toISOString(),
         });
       }
@@ -107,78 +333,261 @@ export const startScheduledStandup = onSchedule(
   },
 );
 
-// Function to automatically end the standup
-export const endActiveStandup = onSchedule(
-  {
-    region: "asia-south1",
-    schedule: "every mon,tue,wed,thu,fri,sat 09:00",
-    timeZone: TIME_ZONE,
-  },
-  async () => {
-    const db = admin.firestore();
-    const todayDocId = formatInTimeZone(new Date(), TIME_ZONE, "yyyy-MM-dd");
-    const standupRef = db.collection("standups").doc(todayDocId);
+interface StandupEndSummary {
+  standupId: string;
+  alreadyEnded: boolean;
+  attendanceRecords: number;
+  counts: { [status: string]: number };
+}
 
-    try {
-      // Use a transaction to atomically check status and end the standup
-      // This prevents a race condition with the frontend manual stop
-      await db.runTransaction(async (transaction) => {
-        const standupDoc = await transaction.get(standupRef);
-        const standupData = standupDoc.data();
+/**
+ * Ends a single active standup and writes one attendance record per active
+ * (non-archived) member: those seeded into `tempAttendance` at start and any
+ * now on the roster by `isOnStandupRoster`. Shared by the scheduler and `endStandupNow`; a
+ * standup that has already ended is left untouched and its stored summary returned.
+ * Every record whose status changes is audited under the given actor.
+ */
+async function endStandup(
+  standupRef: admin.firestore.DocumentReference,
+  actor: AttendanceAuditActor,
+): Promise<StandupEndSummary> {
+  const db = admin.firestore();
 
-        if (!standupDoc.exists || standupData?.status !== "active") {
-          logger.info("Standup already ended or does not exist, skipping", {
-            date: todayDocId,
-          });
-          return;
-        }
+  // Use a transaction to atomically check status and end the standup, so the
+  // scheduler and a manual stop can never both write attendance
+  return db.runTransaction(async (transaction) => {
+    const standupDoc = await transaction.get(standupRef);
+    const standupData = standupDoc.data();
 
-        const employeesSnapshot = await db.collection("employees").where("archived", "!=", true).get();
+    if (!standupDoc.exists || !standupData) {
+      throw new HttpsError("not-found", "Standup does not exist.");
+    }
+    if (standupData.status === "ended") {
+      logger.info("Standup already ended, skipping", {
+        standupId: standupRef.id,
+      });
+      return {
+        standupId: standupRef.id,
+        alreadyEnded: true,
+        attendanceRecords:
+          standupData.attendanceSummary?.attendanceRecords ?? 0,
+        counts: standupData.attendanceSummary?.counts ?? {},
+      };
+    }
+    if (standupData.status !== "active") {
+      throw new HttpsError(
+        "failed-precondition",
+        "Only an active standup can be ended.",
+      );
+    }
 
-        const tempAttendance = standupData.tempAttendance || {};
-        const absenceReasons = standupData.absenceReasons || {};
+    // Read every employee and filter in code: a `!=` query would also drop
+    // employees that have no `archived` field at all
+    const [employeesSnapshot, teams] = await Promise.all([
+      transaction.get(db.collection("employees")),
+      getTeams(),
+    ]);
+    const lateCutoff = await resolveLateCutoff(standupData);
 
-        employeesSnapshot.forEach((empDoc) => {
-          const attendanceDocRef = db
-            .collection("attendance")
-            .doc(`${todayDocId}_${empDoc.id}`);
-          const employeeData = empDoc.data();
-          const status = tempAttendance[empDoc.id] || "Missed";
-          const record: any = {
-            standup_id: todayDocId,
-            employee_id: empDoc.id,
-            employee_name: employeeData.name,
-            employee_email: employeeData.email,
-            employeeId: employeeData.employeeId,
-            status: status,
-            scheduled_at: standupData.scheduledTime,
-            markedAt: admin.firestore.FieldValue.serverTimestamp(),
-          };
-
-          if (status === "Not Available") {
-            record.reason = absenceReasons[empDoc.id] || "No reason provided";
-          }
+    const standupDate: string = standupData.date || standupRef.id;
+    const tempAttendance = standupData.tempAttendance || {};
+    const absenceReasons = standupData.absenceReasons || {};
+    const checkIns = standupData.checkIns || {};
+    const markedTimes = standupData.markedTimes || {};
+    const startTime: Date = (
+      standupData.startedAt || standupData.scheduledTime
+    ).toDate();
+    // The members seeded at start, plus any who joined the roster since
+    const roster = employeesSnapshot.docs.filter(
+      (empDoc) =>
+        empDoc.data().archived !== true &&
+        (empDoc.id in tempAttendance ||
+          isOnStandupRoster(empDoc.id, standupData.teamId ?? null, teams)),
+    );
+    const attendanceRefs = roster.map((empDoc) =>
+      db.collection("attendance").doc(`${standupDate}_${empDoc.id}`),
+    );
+    // Existing records only matter for the audit trail of what changed
+    const existingRecords =
+      attendanceRefs.length > 0
+        ? await transaction.getAll(...attendanceRefs)
+        : [];
+    const counts: { [status: string]: number } = {};
 
-          transaction.set(attendanceDocRef, record, { merge: true });
-        });
+    roster.forEach((empDoc, index) => {
+      const attendanceDocRef = attendanceRefs[index];
+      const employeeData = empDoc.data();
+      let status = tempAttendance[empDoc.id] || "Missed";
+      // A self check-in takes precedence over the time an admin marked the member
+      const markedTime: admin.firestore.Timestamp | undefined =
+        checkIns[empDoc.id] || markedTimes[empDoc.id];
+      if (
+        status === "Present" &&
+        markedTime &&
+        markedTime.toDate() > lateCutoff
+      ) {
+        status = "Late";
+      }
+      const record: any = {
+        standup_id: standupDate,
+        employee_id: empDoc.id,
+        employee_name: employeeData.name,
+        employee_email: employeeData.email,
+        employeeId: employeeData.employeeId,
+        status: status,
+        scheduled_at: standupData.scheduledTime,
+        markedAt: admin.firestore.FieldValue.serverTimestamp(),
+      };
 
-        transaction.update(standupRef, {
-          status: "ended",
-          endedAt: admin.firestore.FieldValue.serverTimestamp(),
-        });
+      if (standupData.teamId) {
+        record.team_id = standupData.teamId;
+        record.team_name = standupData.teamName || null;
+      }
+      if (status === "Not Available") {
+        record.reason = absenceReasons[empDoc.id] || "No reason provided";
+      }
+      if ((status === "Present" || status === "Late") && markedTime) {
+        record.marked_time = markedTime;
+      }
+      if (status === "Late" && markedTime) {
+        record.minutes_late = differenceInMinutes(
+          markedTime.toDate(),
+          startTime,
+        );
+      }
 
-        logger.info("Standup ended successfully", {
-          date: todayDocId,
-          attendanceRecords: employeesSnapshot.size,
-          timestamp: new Date().toISOString(),
+      counts[status] = (counts[status] || 0) + 1;
+      transaction.set(attendanceDocRef, record, { merge: true });
+
+      const previous = existingRecords[index]?.data();
+      if (
+        previous?.status !== status ||
+        (record.reason && previous?.reason !== record.reason)
+      ) {
+        appendAttendanceAudit(transaction, {
+          ...actor,
+          sessionType: "standups",
+          sessionId: standupRef.id,
+          date: standupDate,
+          employeeId: empDoc.id,
+          oldStatus: previous?.status ?? null,
+          newStatus: status,
+          reason: record.reason ?? null,
+          source: "standup-end",
         });
-      });
+      }
+    });
+
+    const summary: StandupEndSummary = {
+      standupId: standupRef.id,
+      alreadyEnded: false,
+      attendanceRecords: roster.length,
+      counts,
+    };
+    transaction.update(standupRef, {
+      status: "ended",
+      endedAt: admin.firestore.FieldValue.serverTimestamp(),
+      attendanceSummary: {
+        attendanceRecords: summary.attendanceRecords,
+        counts,
+      },
+    });
+
+    logger.info("Standup ended successfully", {
+      standupId: standupRef.id,
+      teamId: standupData.teamId ?? null,
+      attendanceRecords: roster.length,
+      counts,
+      timestamp: new Date().toISOString(),
+    });
+    return summary;
+  });
+}
+
+/**
+ * Ends today's standup (the organization-wide one, or the given team's) right away.
+ * Attendance is written server-side from the marks saved on the standup doc.
+ */
+export const endStandupNow = onCall(
+  { region: "asia-south1", cors: true },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Authentication is required.");
+    }
+    if (!isUserAdmin(request.auth)) {
+      throw new HttpsError(
+        "permission-denied",
+        "Only admins and co-admins can end a standup.",
+      );
+    }
+
+    const { teamId } = validateInput(endStandupSchema, request.data ?? {});
+    const standupId = getStandupDocId(
+      getSessionDateId(await getOrganizationTimeZone()),
+      teamId,
+    );
+    const standupRef = admin.firestore().collection("standups").doc(standupId);
+
+    try {
+      const summary = await endStandup(standupRef, actorFromAuth(request.auth));
+      return { success: true, ...summary };
     } catch (error: any) {
+      if (error instanceof HttpsError) {
+        throw error;
+      }
       logger.error("Error ending standup", {
-        date: todayDocId,
+        standupId,
+        userId: request.auth.uid,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      });
+      throw new HttpsError("internal", "Failed to end the standup.");
+    }
+  },
+);
+
+// Function to automatically end the standup
+// Polls every minute and ends each active standup once its configured duration has elapsed.
+export const endActiveStandup = onSchedule(
+  {
+    region: "asia-south1",
+    schedule: "every 1 minutes",
+    timeZone: DEFAULT_TIME_ZONE,
+  },
+  async () => {
+    const db = admin.firestore();
+    const now = new Date();
+
+    // Cheap pre-check outside the transaction so idle minutes cost a single query
+    let activeSnapshot: admin.firestore.QuerySnapshot;
+    try {
+      activeSnapshot = await db
+        .collection("standups")
+        .where("status", "==", "active")
+        .get();
+    } catch (error: any) {
+      logger.error("Error loading active standups", {
         error: error.message,
         timestamp: new Date().toISOString(),
       });
+      return;
+    }
+
+    for (const standupDoc of activeSnapshot.docs) {
+      try {
+        const standupData = standupDoc.data();
+        const endTime = await resolveStandupEndTime(standupData);
+        if (endTime > now) {
+          continue;
+        }
+        await endStandup(standupDoc.ref, SYSTEM_ACTOR);
+      } catch (error: any) {
+        logger.error("Error ending standup", {
+          standupId: standupDoc.id,
+          error: error.message,
+          timestamp: new Date().toISOString(),
+        });
+      }
     }
   },
 );
@@ -0,0 +1,117 @@
+/**
+ * @file Retries of failed Google Sheets sync runs recorded in `syncJobs`.
+ */
+import * as admin from "firebase-admin";
+import { onCall, HttpsError } from "firebase-functions/v2/https";
+import { logger } from "firebase-functions/v2";
+import { isUserAdmin } from "./utils";
+import {
+  syncJobIdSchema,
+  syncToSheetSchema,
+  validateInput,
+} from "./validation";
+import { actorFromAuth } from "./attendanceAudit";
+import { _syncAttendanceToSheet } from "./attendanceSync";
+import { _syncLearningPoints } from "./syncLearningHours";
+import {
+  isStaleSyncRun,
+  recordSyncRun,
+  staleRunFailure,
+  SYNC_JOBS_COLLECTION,
+} from "./syncJobs";
+
+/**
+ * Runs a failed sync again with the arguments it was first given, recorded as
+ * a new run that points back at the failed one. Backfills resume instead.
+ */
+export const retrySyncJob = onCall(
+  {
+    region: "asia-south1",
+    timeoutSeconds: 300,
+    memory: "512MiB",
+    secrets: [
+      "SHEETS_SA_KEY",
+      "ATTENDANCE_SPREADSHEET_ID",
+      "LEARNING_HOURS_SPREADSHEET_ID",
+    ],
+    cors: true,
+  },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError("unauthenticated", "Authentication is required.");
+    }
+    if (!isUserAdmin(request.auth)) {
+      throw new HttpsError(
+        "permission-denied",
+        "Must be an admin to run this operation.",
+      );
+    }
+    const { jobId } = validateInput(syncJobIdSchema, request.data);
+    const jobRef = admin
+      .firestore()
+      .collection(SYNC_JOBS_COLLECTION)
+      .doc(jobId);
+    // Claimed in a transaction so two admins cannot retry the same run
+    const job = await admin.firestore().runTransaction(async (transaction) => {
+      const data = (await transaction.get(jobRef)).data();
+      if (!data) {
+        throw new HttpsError("not-found", "Sync run not found.");
+      }
+      if (data.type === "attendance-backfill") {
+        throw new HttpsError(
+          "invalid-argument",
+          "Resume backfills from the attendance page instead.",
+        );
+      }
+      // A run cut off mid-run counts as failed even before the sweep sees it
+      const isStale = isStaleSyncRun(data);
+      if (data.status !== "failed" && !isStale) {
+        throw new HttpsError(
+          "failed-precondition",
+          "Only failed sync runs can be retried.",
+        );
+      }
+      if (data.retriedAt) {
+        throw new HttpsError(
+          "failed-precondition",
+          "This sync run has already been retried.",
+        );
+      }
+      transaction.update(jobRef, {
+        ...(isStale ? staleRunFailure() : {}),
+        retriedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return data;
+    });
+
+    const run = {
+      trigger: "retry" as const,
+      actor: actorFromAuth(request.auth),
+      retryOf: jobId,
+    };
+    let result;
+    if (job.type === "attendance-sync") {
+      const params = validateInput(syncToSheetSchema, job.params);
+      result = await recordSyncRun(
+        { ...run, type: "attendance-sync", params },
+        () => _syncAttendanceToSheet(params),
+      );
+    } else if (job.type === "learning-points-sync") {
+      const sessionId = String(job.params?.sessionId ?? "");
+      result = await recordSyncRun(
+        { ...run, type: "learning-points-sync", params: { sessionId } },
+        () => _syncLearningPoints(sessionId),
+      );
+    } else {
+      throw new HttpsError("invalid-argument", "Unknown sync run type.");
+    }
+
+    logger.info("Sync run retried", {
+      userId: request.auth.uid,
+      jobId,
+      retryJobId: result.jobId,
+      timestamp: new Date().toISOString(),
+    });
+    return { success: true, jobId: result.jobId, message: result.message };
+  },
+);
@@ -0,0 +1,140 @@
+/**
+ * @file History of Google Sheets sync runs, kept in the `syncJobs` collection.
+ */
+import * as admin from "firebase-admin";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { logger } from "firebase-functions/v2";
+import type { AttendanceAuditActor } from "./attendanceAudit";
+import { DEFAULT_TIME_ZONE } from "./config";
+
+export const SYNC_JOBS_COLLECTION = "syncJobs";
+
+// Past the longest function timeout (540s), a run still marked running was
+// killed before it could record its outcome
+const STALE_RUN_MS = 10 * 60 * 1000;
+const STALE_RUN_ERROR =
+  "The run stopped before finishing (timed out or was interrupted).";
+
+// Range backfills are also stored here, as "attendance-backfill" jobs
+export type SyncRunType = "attendance-sync" | "learning-points-sync";
+export type SyncTrigger = "manual" | "scheduled" | "retry";
+
+export interface SyncRunResult {
+  message: string;
+  rowsWritten: number;
+  rowsDeleted?: number;
+}
+
+interface SyncRun {
+  type: SyncRunType;
+  trigger: SyncTrigger;
+  // The arguments the sync ran with, so a failed run can be retried as-is
+  params: Record<string, string>;
+  actor: AttendanceAuditActor;
+  retryOf?: string;
+}
+
+/**
+ * Runs one sync and records it with its outcome, row counts and duration.
+ * Errors are recorded and then rethrown, so callers behave as before.
+ */
+export async function recordSyncRun<T extends SyncRunResult>(
+  run: SyncRun,
+  sync: () => Promise<T>,
+): Promise<T & { jobId: string }> {
+  const jobRef = admin.firestore().collection(SYNC_JOBS_COLLECTION).doc();
+  const startedAt = Date.now();
+  await jobRef.set({
+    type: run.type,
+    trigger: run.trigger,
+    status: "running",
+    params: run.params,
+    ...run.actor,
+    retryOf: run.retryOf ?? null,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  try {
+    const result = await sync();
+    await jobRef.update({
+      status: "completed",
+      message: result.message,
+      rowsWritten: result.rowsWritten,
+      rowsDeleted: result.rowsDeleted ?? 0,
+      durationMs: Date.now() - startedAt,
+      finishedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return { ...result, jobId: jobRef.id };
+  } catch (error: any) {
+    await jobRef
+      .update({
+        status: "failed",
+        error: error.message || String(error),
+        durationMs: Date.now() - startedAt,
+        finishedAt: admin.firestore.FieldValue.serverTimestamp(),
+      })
+      .catch((updateError) =>
+        logger.error("Could not record sync failure", {
+          jobId: jobRef.id,
+          error: updateError.message,
+        }),
+      );
+    throw error;
+  }
+}
+
+/**
+ * Whether a single sync run is still marked running long after its function
+ * must have stopped. Backfills hold a lease and are resumed instead.
+ */
+export function isStaleSyncRun(
+  data: admin.firestore.DocumentData,
+  now = Date.now(),
+): boolean {
+  return (
+    data.status === "running" &&
+    data.type !== "attendance-backfill" &&
+    !!data.createdAt &&
+    now - data.createdAt.toMillis() > STALE_RUN_MS
+  );
+}
+
+/**
+ * The fields that record a stale run as failed, so it can be retried.
+ */
+export function staleRunFailure() {
+  return {
+    status: "failed",
+    error: STALE_RUN_ERROR,
+    finishedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+}
+
+/**
+ * Marks sync runs that were cut off mid-run as failed.
+ */
+export const failStaleSyncRuns = onSchedule(
+  {
+    region: "asia-south1",
+    schedule: "every 15 minutes",
+    timeZone: DEFAULT_TIME_ZONE,
+  },
+  async () => {
+    const db = admin.firestore();
+    const snapshot = await db
+      .collection(SYNC_JOBS_COLLECTION)
+      .where("status", "==", "running")
+      .get();
+    const stale = snapshot.docs.filter((doc) => isStaleSyncRun(doc.data()));
+    if (stale.length === 0) {
+      return;
+    }
+
+    const batch = db.batch();
+    stale.forEach((doc) => batch.update(doc.ref, staleRunFailure()));
+    await batch.commit();
+    logger.warn("Marked stale sync runs as failed", {
+      jobIds: stale.map((doc) => doc.id),
+    });
+  },
+);
@@ -3,13 +3,20 @@ import { onSchedule } from "firebase-functions/v2/scheduler";
 import { logger } from "firebase-functions/v2";
 import { google } from "googleapis";
 import * as admin from "firebase-admin";
-import { format } from "date-fns";
-import { formatInTimeZone } from "date-fns-tz";
 import {
   getLearningHoursSpreadsheetId,
   getSheetsAuth,
   isUserAdmin,
 } from "./utils";
+import {
+  DEFAULT_TIME_ZONE,
+  EVENING_JOB_WEEKDAYS,
+  getDailyRunDate,
+  getOrganizationTimeZone,
+  getSessionDateId,
+} from "./config";
+import { actorFromAuth, SYSTEM_ACTOR } from "./attendanceAudit";
+import { recordSyncRun, type SyncRunResult } from "./syncJobs";
 
 type SyncRequest = { sessionId: string };
 
@@ -19,7 +26,9 @@ function getSheetsClient() {
 }
 
 // Reusable core logic for syncing
-async function _syncLearningPoints(sessionId: string) {
+export async function _syncLearningPoints(
+  sessionId: string,
+): Promise<SyncRunResult & { success: boolean; appended: number }> {
   const db = admin.firestore();
   // Verify session
   const sessionRef = db.doc(`learning_hours/${sessionId}`);
@@ -40,6 +49,7 @@ async function _syncLearningPoints(sessionId: string) {
       success: true,
       message: "This session is already synced.",
       appended: 0,
+      rowsWritten: 0,
     };
   }
 
@@ -61,6 +71,7 @@ async function _syncLearningPoints(sessionId: string) {
       message:
         "No locked learning points found for this session. Marked as synced.",
       appended: 0,
+      rowsWritten: 0,
     };
   }
 
@@ -114,10 +125,12 @@ async function _syncLearningPoints(sessionId: string) {
 
     // 4b. Prepare rows
     const rowsToAppend: string[][] = [];
+    const timeZone = await getOrganizationTimeZone();
     points.forEach((p) => {
-      const dateStr = p.date
-        ? format(p.date.toDate(), "yyyy-MM-dd")
-        : format(p.createdAt?.toDate() ?? new Date(), "yyyy-MM-dd");
+      const dateStr = getSessionDateId(
+        timeZone,
+        p.date ? p.date.toDate() : (p.createdAt?.toDate() ?? new Date()),
+      );
 
       const key = `${dateStr}|${p.task_name}|${p.point_type}`;
       if (existingKeys.has(key)) return;
@@ -157,6 +170,7 @@ async function _syncLearningPoints(sessionId: string) {
     success: true,
     message: `Synced successfully. ${totalAppended} new rows appended.`,
     appended: totalAppended,
+    rowsWritten: totalAppended,
   };
 }
 
@@ -204,7 +218,15 @@ export const syncLearningHoursByDate = onCall<SyncByDateRequest>(
       );
     }
 
-    return await _syncLearningPoints(sanitizedDate);
+    return await recordSyncRun(
+      {
+        type: "learning-points-sync",
+        trigger: "manual",
+        params: { sessionId: sanitizedDate },
+        actor: actorFromAuth(request.auth),
+      },
+      () => _syncLearningPoints(sanitizedDate),
+    );
   },
 );
 
@@ -250,28 +272,62 @@ export const syncLearningPointsToSheet = onCall<SyncRequest>(
       throw new HttpsError("invalid-argument", "Invalid sessionId format.");
     }
 
-    return await _syncLearningPoints(sanitizedSessionId);
+    return await recordSyncRun(
+      {
+        type: "learning-points-sync",
+        trigger: "manual",
+        params: { sessionId: sanitizedSessionId },
+        actor: actorFromAuth(request.auth),
+      },
+      () => _syncLearningPoints(sanitizedSessionId),
+    );
   },
 );
 
+// Syncs the day's learning points at 19:00 local time, Monday to Saturday
 export const autoSyncLearningPoints = onSchedule(
   {
     region: "asia-south1",
-    schedule: "0 19 * * 1-6",
-    timeZone: "Asia/Kolkata",
+    schedule: "0 * * * *",
+    timeZone: DEFAULT_TIME_ZONE,
     secrets: ["SHEETS_SA_KEY", "LEARNING_HOURS_SPREADSHEET_ID"],
     timeoutSeconds: 540,
     memory: "512MiB",
   },
-  async () => {
-    const dateString = formatInTimeZone(new Date(), "Asia/Kolkata", "yyyy-MM-dd");
+  async (event) => {
+    const dateString = await getDailyRunDate(
+      new Date(event.scheduleTime),
+      19,
+      EVENING_JOB_WEEKDAYS,
+    );
+    if (!dateString) {
+      return;
+    }
 
     logger.info("Starting scheduled learning points sync", {
       date: dateString,
     });
 
+    // Days without a learning hour have nothing to sync and are not failures
+    const sessionSnap = await admin
+      .firestore()
+      .doc(`learning_hours/${dateString}`)
+      .get();
+    if (!sessionSnap.exists) {
+      logger.info("No learning hour to sync", { date: dateString });
+      return;
+    }
+
     try {
-      const result = await _syncLearningPoints(dateString);
+      const result = await recordSyncRun(
+        {
+          type: "learning-points-sync",
+          trigger: "scheduled",
+          params: { sessionId: dateString },
+          actor: SYSTEM_ACTOR,
+        },
+        () => _syncLearningPoints(dateString),
+      );
       logger.info("Learning points sync completed", {
         date: dateString,
         message: result.message,
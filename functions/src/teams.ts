@@ -0,0 +1,63 @@
+/**
+ * @file Readers for standup teams stored in the `teams` collection.
+ */
+import * as admin from "firebase-admin";
+
+export interface Team {
+  id: string;
+  name: string;
+  memberIds: string[];
+  // Co-admin who runs the team's standup
+  facilitatorId: string | null;
+  // HH:mm override of the configured start time, in the organization time zone
+  startTime: string | null;
+}
+
+/** Reads every team. An empty list means the organization runs one shared standup. */
+export async function getTeams(): Promise<Team[]> {
+  const snapshot = await admin.firestore().collection("teams").get();
+  return snapshot.docs.map((doc) => {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      name: data.name || doc.id,
+      memberIds: Array.isArray(data.memberIds) ? data.memberIds : [],
+      facilitatorId: data.facilitatorId || null,
+      startTime: data.startTime || null,
+    };
+  });
+}
+
+/** Returns the team the employee belongs to, or null if they are not on a team. */
+export async function findTeamForEmployee(
+  employeeId: string,
+): Promise<Team | null> {
+  const teams = await getTeams();
+  return teams.find((team) => team.memberIds.includes(employeeId)) ?? null;
+}
+
+/**
+ * Whether an employee belongs on a standup's roster. A team standup covers the
+ * team's members; the organization-wide standup covers everyone while there
+ * are no teams, and afterwards the employees who are on no team.
+ */
+export function isOnStandupRoster(
+  employeeId: string,
+  teamId: string | null,
+  teams: Team[],
+): boolean {
+  if (teamId) {
+    return teams.some(
+      (team) => team.id === teamId && team.memberIds.includes(employeeId),
+    );
+  }
+  return !teams.some((team) => team.memberIds.includes(employeeId));
+}
+
+/**
+ * Standup documents are keyed `{date}_{teamId}` for teams and plain `{date}`
+ * for the organization-wide standup.
+ */
+export function getStandupDocId(date: string, teamId?: string | null): string {
+  return teamId ? `${date}_${teamId}` : date;
+}
@@ -33,6 +33,15 @@ export function getLearningHoursSpreadsheetId(): string {
     return id.trim();
 }
 
+// Helper function to securely get the secret used to derive standup check-in codes
+export function getCheckInCodeSecret(): string {
+    const secret = process.env.CHECKIN_CODE_SECRET;
+    if (!secret || typeof secret !== "string" || secret.trim().length === 0) {
+        throw new HttpsError("internal", "Check-in is temporarily unavailable.");
+    }
+    return secret.trim();
+}
+
 // Helper function to create a Google Sheets API auth client
 export function getSheetsAuth(): JWT {
     const saRaw = process.env.SHEETS_SA_KEY;
@@ -42,10 +42,185 @@ export const syncToSheetSchema = z.object({
       message: "Session type must be 'standups' or 'learning_hours'",
     }),
   }),
+  // Restricts the sync to one team's members
+  teamId: z.string().min(1).max(128).optional(),
 });
 
 export type SyncToSheetInput = z.infer<typeof syncToSheetSchema>;
 
+export const attendanceStatusSchema = z.enum(
+  ["Present", "Late", "Absent", "Missed", "Not Available"],
+  { errorMap: () => ({ message: "Invalid attendance status" }) },
+);
+
+export const editAttendanceSchema = z
+  .object({
+    date: dateStringSchema,
+    sessionType: z.enum(["standups", "learning_hours"], {
+      errorMap: () => ({
+        message: "Session type must be 'standups' or 'learning_hours'",
+      }),
+    }),
+    // Edits one team's standup instead of the organization-wide one
+    teamId: z.string().min(1).max(128).optional(),
+    records: z
+      .array(
+        z.object({
+          employeeId: uidSchema,
+          status: attendanceStatusSchema,
+          reason: z
+            .string()
+            .max(500, "Reason is too long")
+            .transform((s) => s.trim())
+            .optional(),
+        }),
+      )
+      .min(1, "At least one record is required")
+      .max(500, "Too many records in one edit"),
+  })
+  .refine(
+    (data) =>
+      data.sessionType === "standups" ||
+      data.records.every((r) => r.status !== "Late"),
+    {
+      message: "Learning hours do not record late arrivals",
+      path: ["records"],
+    },
+  )
+  .refine((data) => data.sessionType === "standups" || !data.teamId, {
+    message: "Only standups are held per team",
+    path: ["teamId"],
+  })
+  .refine(
+    (data) =>
+      new Set(data.records.map((r) => r.employeeId)).size ===
+      data.records.length,
+    {
+      message: "Each employee can only appear once",
+      path: ["records"],
+    },
+  );
+
+export type EditAttendanceInput = z.infer<typeof editAttendanceSchema>;
+
+export const attendanceBackfillSchema = z
+  .object({
+    from: dateStringSchema,
+    to: dateStringSchema,
+    sessionTypes: z
+      .array(z.enum(["standups", "learning_hours"]))
+      .min(1, "Choose at least one session type")
+      .max(2)
+      .transform((types) => Array.from(new Set(types))),
+    // Restricts the sync to one team's members
+    teamId: z.string().min(1).max(128).optional(),
+  })
+  .refine((data) => data.to >= data.from, {
+    message: "End date must be on or after start date",
+    path: ["to"],
+  });
+
+export type AttendanceBackfillInput = z.infer<typeof attendanceBackfillSchema>;
+
+export const syncJobIdSchema = z.object({
+  jobId: z.string().min(1, "Job ID is required").max(128),
+});
+
+/** Attendance record fields that can be mapped to a sheet column */
+export const ATTENDANCE_SHEET_FIELDS = [
+  "date",
+  "scheduledTime",
+  "sessionType",
+  "employeeId",
+  "employeeName",
+  "employeeEmail",
+  "status",
+  "reason",
+  "minutesLate",
+] as const;
+
+const sheetTabNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Name the target tab for each session type")
+  .max(100, "Tab name too long");
+
+/** Shape of `config/attendanceSheetSync` */
+export const attendanceSheetConfigSchema = z.object({
+  tabs: z.object({
+    standups: sheetTabNameSchema,
+    learning_hours: sheetTabNameSchema,
+  }),
+  columns: z
+    .array(
+      z.object({
+        field: z.enum(ATTENDANCE_SHEET_FIELDS, {
+          errorMap: () => ({ message: "Unknown attendance field in mapping" }),
+        }),
+        header: z
+          .string()
+          .trim()
+          .min(1, "Every mapped field needs a column header")
+          .max(100, "Column header too long"),
+      }),
+    )
+    // Rows are matched on these when a date is re-synced
+    .refine(
+      (columns) =>
+        columns.some((c) => c.field === "date") &&
+        columns.some((c) => c.field === "employeeId"),
+      { message: "The Date and Employee ID fields must be mapped" },
+    )
+    .refine(
+      (columns) => new Set(columns.map((c) => c.field)).size === columns.length,
+      { message: "Each field can only be mapped to one column" },
+    )
+    .refine(
+      (columns) =>
+        new Set(columns.map((c) => c.header.toLowerCase())).size ===
+        columns.length,
+      { message: "Each column header can only be used once" },
+    ),
+});
+
+export type AttendanceSheetConfig = z.infer<typeof attendanceSheetConfigSchema>;
+export type AttendanceSheetField = (typeof ATTENDANCE_SHEET_FIELDS)[number];
+
+export const reconcileAttendanceSchema = z
+  .object({
+    from: dateStringSchema,
+    to: dateStringSchema,
+    sessionType: z.enum(["standups", "learning_hours"], {
+      errorMap: () => ({
+        message: "Session type must be 'standups' or 'learning_hours'",
+      }),
+    }),
+  })
+  .refine((data) => data.to >= data.from, {
+    message: "End date must be on or after start date",
+    path: ["to"],
+  });
+
+export type ReconcileAttendanceInput = z.infer<
+  typeof reconcileAttendanceSchema
+>;
+
+export const applyReconciliationSchema = z
+  .object({
+    from: dateStringSchema,
+    to: dateStringSchema,
+    sessionType: z.enum(["standups", "learning_hours"]),
+    // Attendance record IDs (`{date}_{uid}`) the admin accepted
+    acceptedIds: z
+      .array(z.string().min(1).max(200))
+      .min(1, "Accept at least one difference")
+      .max(200, "Apply at most 200 differences at a time"),
+  })
+  .refine((data) => data.to >= data.from, {
+    message: "End date must be on or after start date",
+    path: ["to"],
+  });
+
 // ============================================
 // User Management Schemas
 // ============================================
@@ -88,6 +263,13 @@ export const feedbackRequestSchema = z
 
 export type FeedbackRequestInput = z.infer<typeof feedbackRequestSchema>;
 
+export const importFeedbackSchema = z.object({
+  // Everyone's sheets when omitted (admins only)
+  employeeId: z.string().min(1).max(128).optional(),
+  // Re-imports the whole sheet instead of only the rows added since last time
+  full: z.boolean().optional(),
+});
+
 // ============================================
 // Learning Sessions Schemas
 // ============================================
@@ -107,12 +289,39 @@ export type SyncByDateInput = z.infer<typeof syncByDateSchema>;
 // Performance Schemas
 // ============================================
 
-export const performanceRequestSchema = z.object({
-  employeeId: uidSchema,
+export const performanceRequestSchema = z
+  .object({
+    employeeId: uidSchema,
+    month: monthStringSchema.optional(),
+    // A range of months returns a per-month series instead of one summary
+    from: monthStringSchema.optional(),
+    to: monthStringSchema.optional(),
+  })
+  .refine((data) => data.month || (data.from && data.to), {
+    message: "Provide a month, or a from and to month",
+  })
+  .refine((data) => !data.from || !data.to || data.to >= data.from, {
+    message: "End month must be on or after start month",
+    path: ["to"],
+  });
+
+export type PerformanceRequestInput = z.infer<typeof performanceRequestSchema>;
+
+export const rebuildEmployeeStatsSchema = z.object({
   month: monthStringSchema,
 });
 
-export type PerformanceRequestInput = z.infer<typeof performanceRequestSchema>;
+export const attendanceAnalyticsSchema = z
+  .object({
+    from: dateStringSchema,
+    to: dateStringSchema,
+    // Restricts the analytics to one team's members
+    teamId: z.string().min(1).max(128).optional(),
+  })
+  .refine((data) => data.to >= data.from, {
+    message: "End date must be on or after start date",
+    path: ["to"],
+  });
 
 // ============================================
 // Peer Feedback Schemas
@@ -150,6 +359,199 @@ export const analyzeTaskSchema = z.object({
 
 export type AnalyzeTaskInput = z.infer<typeof analyzeTaskSchema>;
 
+// ============================================
+// Standup Check-in Schemas
+// ============================================
+
+export const checkInSchema = z.object({
+  code: z
+    .string()
+    .transform((s) => s.trim())
+    .pipe(z.string().regex(/^\d{6}$/, "Check-in code must be 6 digits")),
+});
+
+export type CheckInInput = z.infer<typeof checkInSchema>;
+
+export const checkInCodeSchema = z.object({
+  // Team whose standup the code is for; omitted for the organization-wide standup
+  teamId: z.string().min(1).max(128).optional(),
+});
+
+export type CheckInCodeInput = z.infer<typeof checkInCodeSchema>;
+
+export const endStandupSchema = z.object({
+  // Team whose standup to end; omitted for the organization-wide standup
+  teamId: z.string().min(1).max(128).optional(),
+});
+
+export type EndStandupInput = z.infer<typeof endStandupSchema>;
+
+// ============================================
+// Live Attendance Schemas
+// ============================================
+
+export const markLiveAttendanceSchema = z
+  .object({
+    sessionType: z.enum(["standups", "learning_hours"], {
+      errorMap: () => ({
+        message: "Session type must be 'standups' or 'learning_hours'",
+      }),
+    }),
+    // Team whose standup is being marked; omitted for the organization-wide standup
+    teamId: z.string().min(1).max(128).optional(),
+    employeeId: uidSchema,
+    status: attendanceStatusSchema,
+    reason: z
+      .string()
+      .max(500, "Reason is too long")
+      .transform((s) => s.trim())
+      .optional(),
+  })
+  .refine((data) => data.status !== "Not Available" || !!data.reason, {
+    message: "A reason is required for Not Available",
+    path: ["reason"],
+  })
+  .refine((data) => data.sessionType === "standups" || data.status !== "Late", {
+    message: "Learning hours do not record late arrivals",
+    path: ["status"],
+  })
+  .refine((data) => data.sessionType === "standups" || !data.teamId, {
+    message: "Only standups are held per team",
+    path: ["teamId"],
+  });
+
+export type MarkLiveAttendanceInput = z.infer<typeof markLiveAttendanceSchema>;
+
+// ============================================
+// Standup Update Schemas
+// ============================================
+
+export const standupUpdateSchema = z.object({
+  yesterday: z
+    .string()
+    .max(2000, "Yesterday's update is too long")
+    .transform((s) => s.trim()),
+  today: z
+    .string()
+    .max(2000, "Today's plan is too long")
+    .transform((s) => s.trim())
+    .pipe(z.string().min(1, "Share what you plan to work on today")),
+  blockers: z
+    .string()
+    .max(2000, "Blockers are too long")
+    .transform((s) => s.trim()),
+});
+
+export type StandupUpdateInput = z.infer<typeof standupUpdateSchema>;
+
+// ============================================
+// Leave Schemas
+// ============================================
+
+export const leaveRequestSchema = z
+  .object({
+    startDate: dateStringSchema,
+    endDate: dateStringSchema,
+    reason: z
+      .string()
+      .transform((s) => s.trim())
+      .pipe(
+        z
+          .string()
+          .min(1, "A reason for the leave is required")
+          .max(500, "Reason is too long"),
+      ),
+  })
+  .refine((data) => data.endDate >= data.startDate, {
+    message: "Leave cannot end before it starts",
+    path: ["endDate"],
+  });
+
+export type LeaveRequestInput = z.infer<typeof leaveRequestSchema>;
+
+// ============================================
+// Attendance Correction Schemas
+// ============================================
+
+export const attendanceCorrectionSchema = z
+  .object({
+    sessionType: z.enum(["standups", "learning_hours"], {
+      errorMap: () => ({
+        message: "Session type must be 'standups' or 'learning_hours'",
+      }),
+    }),
+    date: dateStringSchema,
+    requestedStatus: z.enum(["Present", "Late", "Not Available"], {
+      errorMap: () => ({
+        message: "Corrections can only request Present, Late or Not Available",
+      }),
+    }),
+    reason: z
+      .string()
+      .transform((s) => s.trim())
+      .pipe(
+        z
+          .string()
+          .min(1, "Explain why the record is wrong")
+          .max(1000, "Reason is too long"),
+      ),
+  })
+  .refine(
+    (data) => data.requestedStatus !== "Late" || data.sessionType === "standups",
+    {
+      message: "Learning hours do not record late arrivals",
+      path: ["requestedStatus"],
+    },
+  );
+
+export type AttendanceCorrectionInput = z.infer<
+  typeof attendanceCorrectionSchema
+>;
+
+export const reviewCorrectionSchema = z.object({
+  correctionId: z.string().min(1, "Correction ID is required").max(128),
+  decision: z.enum(["approved", "rejected"]),
+  reviewNote: z
+    .string()
+    .max(1000, "Review note is too long")
+    .transform((s) => s.trim())
+    .optional(),
+});
+
+export type ReviewCorrectionInput = z.infer<typeof reviewCorrectionSchema>;
+
+// ============================================
+// Holiday Schemas
+// ============================================
+
+export const importHolidaysSchema = z.object({
+  icsContent: z
+    .string()
+    .min(1, "Calendar file is empty")
+    .max(1_000_000, "Calendar file is too large"),
+});
+
+export type ImportHolidaysInput = z.infer<typeof importHolidaysSchema>;
+
+// ============================================
+// At-Risk Alert Schemas
+// ============================================
+
+/** Shape of `config/atRiskAlerts`; a rule is off while its threshold is null */
+export const atRiskAlertConfigSchema = z.object({
+  // Most recent standups in a row recorded as Missed
+  consecutiveMissedStandups: z.number().int().min(1).max(30).nullable(),
+  // Learning-hour presence (%) over the lookback window
+  learningPresenceBelow: z.number().min(1).max(100).nullable(),
+  // Points the recent feedback average may fall below its trailing average
+  feedbackDrop: z.number().min(0.1).max(10).nullable(),
+  // Attended learning hours in a row without a learning point
+  sessionsWithoutLearningPoints: z.number().int().min(1).max(60).nullable(),
+  lookbackDays: z.number().int().min(7).max(90),
+});
+
+export type AtRiskAlertConfig = z.infer<typeof atRiskAlertConfigSchema>;
+
 // ============================================
 // Validation Helper
 // ============================================
@@ -46,6 +46,11 @@ import {
   Archive,
   ChevronLeft,
   UserCheck,
+  CalendarOff,
+  Network,
+  Plane,
+  FileSpreadsheet,
+  BarChart3,
 } from "lucide-react";
 import { useState } from "react";
 import { motion } from "framer-motion";
@@ -68,10 +73,15 @@ const adminNavItems = [
   { id: "learning-hours", label: "Learning Hours", icon: GraduationCap },
   { id: "admin-peer-feedback", label: "Peer Feedback", icon: UsersRound },
   { id: "daily-observations", label: "Daily Observations", icon: BookCheck },
+  { id: "analytics", label: "Analytics", icon: BarChart3 },
   { id: "manage-employees", label: "Manage Employees", icon: Users },
   { id: "user-approval", label: "User Approval", icon: UserCheck },
   { id: "archived-employees", label: "Archived Employees", icon: Archive },
   { id: "attendance", label: "Manage Attendance", icon: CalendarCheck },
+  { id: "teams", label: "Teams", icon: Network },
+  { id: "leave-requests", label: "Leave Requests", icon: Plane },
+  { id: "holidays", label: "Holidays", icon: CalendarOff },
+  { id: "sync-jobs", label: "Sync History", icon: FileSpreadsheet },
   { id: "onboardingKit", label: "Onboarding Kit", icon: Box },
 ];
 
@@ -259,6 +269,21 @@ const SidebarContent = ({
         if (item.id === "user-approval" && isCoAdmin && !admin) {
           return false; // Hide user approval for co-admins
         }
+        if (item.id === "holidays" && isCoAdmin && !admin) {
+          return false; // Holiday calendar is managed by admins only
+        }
+        if (item.id === "teams" && isCoAdmin && !admin) {
+          return false; // Teams are managed by admins only
+        }
+        if (item.id === "leave-requests" && isCoAdmin && !admin) {
+          return false; // Leave is approved by admins only
+        }
+        if (item.id === "sync-jobs" && isCoAdmin && !admin) {
+          return false; // Sync failures are handled by admins only
+        }
+        if (item.id === "analytics" && isCoAdmin && !admin) {
+          return false; // Organization-wide analytics are for admins only
+        }
         return true;
       })
       .map((item) => {
@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { Loader2, Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/ui/use-toast";
+import { getUserFriendlyErrorMessage } from "@/lib/errorHandler";
+import {
+  DEFAULT_AT_RISK_ALERT_CONFIG,
+  useAtRiskAlertConfig,
+  type AtRiskAlertConfig,
+} from "@/hooks/use-at-risk-alerts";
+
+type ThresholdKey = Exclude<keyof AtRiskAlertConfig, "lookbackDays">;
+
+// Ranges match atRiskAlertConfigSchema in functions/src/validation.ts
+const RULES: {
+  key: ThresholdKey;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  {
+    key: "consecutiveMissedStandups",
+    label: "Missed standups in a row",
+    unit: "standups",
+    min: 1,
+    max: 30,
+    step: 1,
+  },
+  {
+    key: "learningPresenceBelow",
+    label: "Learning-hour presence below",
+    unit: "%",
+    min: 1,
+    max: 100,
+    step: 1,
+  },
+  {
+    key: "feedbackDrop",
+    label: "Feedback average drops by",
+    unit: "points",
+    min: 0.1,
+    max: 10,
+    step: 0.1,
+  },
+  {
+    key: "sessionsWithoutLearningPoints",
+    label: "Learning hours without a point",
+    unit: "sessions",
+    min: 1,
+    max: 60,
+    step: 1,
+  },
+];
+
+const LOOKBACK_RANGE = { min: 7, max: 90 };
+
+const isInRange = (value: number, min: number, max: number) =>
+  Number.isFinite(value) && value >= min && value <= max;
+
+// Keeps a cleared number input empty instead of rendering NaN
+const inputValue = (value: number | null) =>
+  value === null || Number.isNaN(value) ? "" : value;
+
+/**
+ * Button and dialog for the thresholds the daily at-risk check flags
+ * employees against. A switched-off rule raises no new alerts.
+ */
+export const AtRiskAlertSettingsDialog = () => {
+  const { toast } = useToast();
+  const { config, isLoading, saveConfig } = useAtRiskAlertConfig();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [draft, setDraft] = useState<AtRiskAlertConfig>(
+    DEFAULT_AT_RISK_ALERT_CONFIG,
+  );
+
+  const invalidRule = RULES.find(
+    (rule) =>
+      draft[rule.key] !== null &&
+      (!isInRange(draft[rule.key] as number, rule.min, rule.max) ||
+        (rule.step === 1 && !Number.isInteger(draft[rule.key]))),
+  );
+  const validationError = invalidRule
+    ? `${invalidRule.label} must be between ${invalidRule.min} and ${invalidRule.max}.`
+    : !Number.isInteger(draft.lookbackDays) ||
+        !isInRange(draft.lookbackDays, LOOKBACK_RANGE.min, LOOKBACK_RANGE.max)
+      ? `The lookback window must be ${LOOKBACK_RANGE.min} to ${LOOKBACK_RANGE.max} whole days.`
+      : null;
+
+  const handleOpen = () => {
+    setDraft(config);
+    setIsOpen(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveConfig(draft);
+      toast({
+        title: "Alert Settings Saved",
+        description: "The next daily check will use these thresholds.",
+      });
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Error saving alert settings:", error);
+      toast({
+        title: "Save Failed",
+        description: getUserFriendlyErrorMessage(
+          error,
+          "Could not save the alert settings.",
+        ),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 text-muted-foreground"
+        onClick={handleOpen}
+        disabled={isLoading}
+        aria-label="Alert settings"
+      >
+        <Settings2 className="h-4 w-4" />
+      </Button>
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>At-Risk Alert Settings</DialogTitle>
+            <DialogDescription>
+              Employees are checked every evening. Presence and feedback are
+              measured over the lookback window; feedback compares the last week
+              with the window before it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {RULES.map((rule) => {
+              const value = draft[rule.key];
+              return (
+                <div key={rule.key} className="flex items-center gap-3">
+                  <Switch
+                    id={`alert-rule-${rule.key}`}
+                    checked={value !== null}
+                    onCheckedChange={(checked) =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        [rule.key]: checked
+                          ? DEFAULT_AT_RISK_ALERT_CONFIG[rule.key]
+                          : null,
+                      }))
+                    }
+                  />
+                  <Label
+                    htmlFor={`alert-rule-${rule.key}`}
+                    className="flex-1 font-normal"
+                  >
+                    {rule.label}
+                  </Label>
+                  <Input
+                    type="number"
+                    className="w-24"
+                    min={rule.min}
+                    max={rule.max}
+                    step={rule.step}
+                    value={inputValue(value)}
+                    disabled={value === null}
+                    aria-label={rule.label}
+                    onChange={(e) =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        [rule.key]: e.target.valueAsNumber,
+                      }))
+                    }
+                  />
+                  <span className="w-16 text-sm text-muted-foreground">
+                    {rule.unit}
+                  </span>
+                </div>
+              );
+            })}
+            <div className="flex items-center gap-3 border-t pt-4">
+              <Label htmlFor="alert-lookback" className="flex-1">
+                Lookback window
+              </Label>
+              <Input
+                id="alert-lookback"
+                type="number"
+                className="w-24"
+                min={LOOKBACK_RANGE.min}
+                max={LOOKBACK_RANGE.max}
+                value={inputValue(draft.lookbackDays)}
+                onChange={(e) =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    lookbackDays: e.target.valueAsNumber,
+                  }))
+                }
+              />
+              <span className="w-16 text-sm text-muted-foreground">days</span>
+            </div>
+            {validationError && (
+              <p className="text-sm text-destructive">{validationError}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={handleSave}
+              disabled={!!validationError || isSaving}
+            >
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -22,6 +22,9 @@ import {
   ShieldCheck,
   ShieldOff,
   BrainCircuit,
+  RefreshCw,
+  ArrowUp,
+  ArrowDown,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -33,14 +36,16 @@ import {
 import EmployeeAvatar from "./EmployeeAvatar";
 import { httpsCallable } from "firebase/functions";
 import { functions } from "@/integrations/firebase/client";
-import { format, subMonths } from "date-fns";
-import { Pie } from "react-chartjs-2";
+import { format, parseISO, subMonths } from "date-fns";
+import { Line, Pie } from "react-chartjs-2";
 import {
   Chart as ChartJS,
   CategoryScale,
   LinearScale,
   BarElement,
   ArcElement,
+  PointElement,
+  LineElement,
   Title,
   Tooltip,
   Legend,
@@ -54,6 +59,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useRebuildEmployeeStats } from "@/hooks/use-employee-stats";
 import { useToast } from "@/components/ui/use-toast";
 import {
   Dialog,
@@ -88,6 +94,8 @@ ChartJS.register(
   LinearScale,
   BarElement,
   ArcElement,
+  PointElement,
+  LineElement,
   Title,
   Tooltip,
   Legend,
@@ -108,6 +116,7 @@ interface Employee {
 
 interface AttendanceStats {
   present: number;
+  late: number;
   absent: number;
   missed: number;
   unavailable: number;
@@ -119,6 +128,7 @@ interface PerformanceData {
   monthlyChart: { standupDays: number; learningDays: number };
   presenceChart: AttendanceStats & { presencePercentage: string };
   workingDays: number;
+  learningPoints: number;
 }
 
 interface EditableEmployeeData {
@@ -145,9 +155,15 @@ const PresencePieChart = ({
   data: AttendanceStats;
   title: string;
 }) => {
-  const allLabels = ["Present", "Absent", "Missed", "Not Available"];
-  const allData = [data.present, data.absent, data.missed, data.unavailable];
-  const allColors = ["#059669", "#D97706", "#DC2626", "#4B5563"];
+  const allLabels = ["Present", "Late", "Absent", "Missed", "Not Available"];
+  const allData = [
+    data.present,
+    data.late,
+    data.absent,
+    data.missed,
+    data.unavailable,
+  ];
+  const allColors = ["#059669", "#2563EB", "#D97706", "#DC2626", "#4B5563"];
 
   const filteredLabels = allLabels.filter((_, index) => allData[index] > 0);
   const filteredData = allData.filter((value) => value > 0);
@@ -1118,6 +1134,289 @@ const StatCardSkeleton = () => (
   </Card>
 );
 
+// --- PERFORMANCE TRENDS ---
+interface PerformanceTrendPoint {
+  month: string; // yyyy-MM
+  workingDays: number;
+  standupDays: number;
+  learningDays: number;
+  standupPresence: number;
+  learningPresence: number;
+  presencePercentage: number;
+  // Still in progress, so left out of the best and worst months
+  partial: boolean;
+}
+
+type TrendRange = "3" | "6" | "12" | "custom";
+
+const TREND_SERIES = [
+  {
+    key: "presencePercentage",
+    label: "Overall Presence",
+    color: "rgb(5, 150, 105)",
+  },
+  {
+    key: "standupPresence",
+    label: "Standup Presence",
+    color: "rgb(79, 70, 229)",
+  },
+  {
+    key: "learningPresence",
+    label: "Learning Hour Presence",
+    color: "rgb(147, 51, 234)",
+  },
+] as const;
+
+const formatTrendMonth = (month: string) =>
+  format(parseISO(`${month}-01`), "MMM yyyy");
+
+/**
+ * Picks the complete months with the highest and lowest overall presence.
+ * Nothing is highlighted until there are two different months to compare.
+ */
+const findBestAndWorst = (series: PerformanceTrendPoint[]) => {
+  const complete = series.filter((p) => !p.partial && p.workingDays > 0);
+  if (complete.length < 2) return { best: null, worst: null };
+  const best = complete.reduce((a, b) =>
+    b.presencePercentage > a.presencePercentage ? b : a,
+  );
+  const worst = complete.reduce((a, b) =>
+    b.presencePercentage < a.presencePercentage ? b : a,
+  );
+  return best.presencePercentage === worst.presencePercentage
+    ? { best: null, worst: null }
+    : { best: best.month, worst: worst.month };
+};
+
+const PerformanceTrendCard = ({ employeeId }: { employeeId: string }) => {
+  const currentMonth = format(new Date(), "yyyy-MM");
+  const [range, setRange] = useState<TrendRange>("6");
+  const [customFrom, setCustomFrom] = useState(
+    format(subMonths(new Date(), 5), "yyyy-MM"),
+  );
+  const [customTo, setCustomTo] = useState(currentMonth);
+  const [series, setSeries] = useState<PerformanceTrendPoint[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const from =
+    range === "custom"
+      ? customFrom
+      : format(subMonths(new Date(), Number(range) - 1), "yyyy-MM");
+  const to = range === "custom" ? customTo : currentMonth;
+  const rangeError =
+    !from || !to
+      ? "Choose a start and end month."
+      : from > to
+        ? "The start month must be before the end month."
+        : null;
+
+  useEffect(() => {
+    if (rangeError) return;
+    // Ignores a response that arrives after the range changed again
+    let ignore = false;
+    const fetchTrend = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const getPerformanceSummary = httpsCallable<
+          { employeeId: string; from: string; to: string },
+          { series: PerformanceTrendPoint[] }
+        >(functions, "getEmployeePerformanceSummary");
+        const result = await getPerformanceSummary({ employeeId, from, to });
+        if (!ignore) setSeries(result.data.series);
+      } catch (err) {
+        console.error("Error fetching performance trend:", err);
+        if (!ignore) {
+          setError(
+            getUserFriendlyErrorMessage(
+              err,
+              "Failed to load the performance trend.",
+            ),
+          );
+        }
+      } finally {
+        if (!ignore) setLoading(false);
+      }
+    };
+    fetchTrend();
+    return () => {
+      ignore = true;
+    };
+  }, [employeeId, from, to, rangeError]);
+
+  const { best, worst } = findBestAndWorst(series ?? []);
+  const highlight = <T,>(
+    point: PerformanceTrendPoint,
+    bestValue: T,
+    worstValue: T,
+    fallback: T,
+  ): T =>
+    point.month === best
+      ? bestValue
+      : point.month === worst
+        ? worstValue
+        : fallback;
+
+  const chartData = {
+    labels: (series ?? []).map((p) => formatTrendMonth(p.month)),
+    datasets: TREND_SERIES.map(({ key, label, color }) => ({
+      label,
+      data: (series ?? []).map((p) => p[key]),
+      borderColor: color,
+      backgroundColor: color,
+      tension: 0.3,
+      datalabels: { display: false },
+      // The best and worst months stand out on the overall line
+      ...(key === "presencePercentage"
+        ? {
+            pointRadius: (series ?? []).map((p) => highlight(p, 7, 7, 3)),
+            pointBackgroundColor: (series ?? []).map((p) =>
+              highlight(p, "#059669", "#DC2626", color),
+            ),
+          }
+        : {}),
+    })),
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { position: "bottom" as const },
+      tooltip: {
+        callbacks: {
+          label: (context: any) =>
+            `${context.dataset.label}: ${context.parsed.y}%`,
+        },
+      },
+    },
+    scales: {
+      y: {
+        beginAtZero: true,
+        max: 100,
+        title: { display: true, text: "% of working days" },
+      },
+    },
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <CardTitle className="text-lg">Performance Trends</CardTitle>
+          <CardDescription>
+            Presence month by month, with the change from the previous month
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={range}
+            onValueChange={(value) => setRange(value as TrendRange)}
+          >
+            <SelectTrigger className="w-[160px]" aria-label="Trend range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="3">Last 3 months</SelectItem>
+              <SelectItem value="6">Last 6 months</SelectItem>
+              <SelectItem value="12">Last 12 months</SelectItem>
+              <SelectItem value="custom">Custom range</SelectItem>
+            </SelectContent>
+          </Select>
+          {range === "custom" && (
+            <>
+              <Input
+                type="month"
+                value={customFrom}
+                max={currentMonth}
+                onChange={(e) => setCustomFrom(e.target.value)}
+                className="w-[150px]"
+                aria-label="From month"
+              />
+              <Input
+                type="month"
+                value={customTo}
+                max={currentMonth}
+                onChange={(e) => setCustomTo(e.target.value)}
+                className="w-[150px]"
+                aria-label="To month"
+              />
+            </>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {rangeError || error ? (
+          <div className="text-center text-destructive py-8">
+            {rangeError || error}
+          </div>
+        ) : loading || !series ? (
+          <Skeleton className="h-72 w-full" />
+        ) : (
+          <>
+            <div className="h-72">
+              <Line data={chartData} options={chartOptions} />
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+              {series.map((point, index) => {
+                const delta =
+                  index > 0
+                    ? point.presencePercentage -
+                      series[index - 1].presencePercentage
+                    : null;
+                return (
+                  <div
+                    key={point.month}
+                    className={`rounded-lg border p-3 ${highlight(
+                      point,
+                      "border-green-500 bg-green-50",
+                      "border-red-500 bg-red-50",
+                      "",
+                    )}`}
+                  >
+                    <p className="text-xs text-muted-foreground">
+                      {formatTrendMonth(point.month)}
+                      {point.partial && " (so far)"}
+                    </p>
+                    <p className="text-lg font-semibold">
+                      {point.presencePercentage}%
+                    </p>
+                    {delta !== null && (
+                      <p
+                        className={`flex items-center text-xs ${
+                          delta >= 0 ? "text-green-600" : "text-red-600"
+                        }`}
+                      >
+                        {delta >= 0 ? (
+                          <ArrowUp className="h-3 w-3 mr-0.5" />
+                        ) : (
+                          <ArrowDown className="h-3 w-3 mr-0.5" />
+                        )}
+                        {Math.abs(delta).toFixed(1)} pts
+                      </p>
+                    )}
+                    {point.month === best && (
+                      <p className="text-xs font-medium text-green-700 mt-1">
+                        Best month
+                      </p>
+                    )}
+                    {point.month === worst && (
+                      <p className="text-xs font-medium text-red-700 mt-1">
+                        Worst month
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
 // --- MAIN COMPONENT ---
 interface EmployeeDetailViewProps {
   employee: Employee;
@@ -1135,6 +1434,9 @@ export default function EmployeeDetailView({
     useState<PerformanceData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Bumped after a rebuild so the summary is read again
+  const [reloadKey, setReloadKey] = useState(0);
+  const { rebuild, isRebuilding } = useRebuildEmployeeStats();
 
   useEffect(() => {
     const fetchPerformanceData = async () => {
@@ -1159,7 +1461,13 @@ export default function EmployeeDetailView({
       }
     };
     fetchPerformanceData();
-  }, [employee.id, selectedMonth]);
+  }, [employee.id, selectedMonth, reloadKey]);
+
+  const handleRebuild = async () => {
+    if (await rebuild(selectedMonth)) {
+      setReloadKey((key) => key + 1);
+    }
+  };
 
   const monthOptions = Array.from({ length: 6 }, (_, i) => {
     const d = subMonths(new Date(), i);
@@ -1177,11 +1485,25 @@ export default function EmployeeDetailView({
         <h2 className="text-xl font-semibold text-gray-900">
           Performance Overview
         </h2>
-        <MonthSelector
-          value={selectedMonth}
-          onChange={setSelectedMonth}
-          options={monthOptions}
-        />
+        <div className="flex items-center gap-2">
+          <MonthSelector
+            value={selectedMonth}
+            onChange={setSelectedMonth}
+            options={monthOptions}
+          />
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={handleRebuild}
+            disabled={isRebuilding}
+            aria-label="Rebuild stats for this month"
+            title="Rebuild stats for this month"
+          >
+            <RefreshCw
+              className={`h-4 w-4 ${isRebuilding ? "animate-spin" : ""}`}
+            />
+          </Button>
+        </div>
       </div>
 
       {loading ? (
@@ -1217,6 +1539,7 @@ export default function EmployeeDetailView({
               title="Standup Attendance"
               value={`${Math.round(
                 ((performanceData.standupAttendance.present +
+                  performanceData.standupAttendance.late +
                   performanceData.standupAttendance.absent +
                   performanceData.standupAttendance.unavailable) /
                   performanceData.workingDays) *
@@ -1229,6 +1552,7 @@ export default function EmployeeDetailView({
               title="Learning Attendance"
               value={`${Math.round(
                 ((performanceData.learningAttendance.present +
+                  performanceData.learningAttendance.late +
                   performanceData.learningAttendance.absent +
                   performanceData.learningAttendance.unavailable) /
                   performanceData.workingDays) *
@@ -1251,6 +1575,7 @@ export default function EmployeeDetailView({
           </TabsTrigger>
           <TabsTrigger value="learning" className="flex items-center gap-2">
             <BrainCircuit className="h-4 w-4" /> Learning History
+            {performanceData && ` (${performanceData.learningPoints})`}
           </TabsTrigger>
         </TabsList>
         <TabsContent value="performance" className="mt-2 space-y-6">
@@ -1305,6 +1630,7 @@ export default function EmployeeDetailView({
               <Calendar className="h-12 w-12 text-muted-foreground opacity-40 mx-auto" />
             </Card>
           )}
+          <PerformanceTrendCard employeeId={employee.id} />
         </TabsContent>
         <TabsContent value="feedback" className="mt-2">
           <Card>
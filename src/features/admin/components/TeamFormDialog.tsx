@@ -0,0 +1,225 @@
+import { useEffect, useMemo, useState } from "react";
+import { Loader2, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Team } from "@/hooks/use-teams";
+
+export interface TeamEmployee {
+  id: string;
+  name: string;
+  email: string;
+  isAdmin?: boolean;
+  isCoAdmin?: boolean;
+}
+
+export type TeamDraft = Omit<Team, "id">;
+
+const NO_FACILITATOR = "none";
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const TeamFormDialog = ({
+  isOpen,
+  onClose,
+  team,
+  employees,
+  teamByMember,
+  isSaving,
+  onSave,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  // null creates a new team
+  team: Team | null;
+  employees: TeamEmployee[];
+  teamByMember: Map<string, Team>;
+  isSaving: boolean;
+  onSave: (draft: TeamDraft) => Promise<boolean>;
+}) => {
+  const [name, setName] = useState("");
+  const [facilitatorId, setFacilitatorId] = useState(NO_FACILITATOR);
+  const [startTime, setStartTime] = useState("");
+  const [memberIds, setMemberIds] = useState<Set<string>>(new Set());
+  const [search, setSearch] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(team?.name ?? "");
+    setFacilitatorId(team?.facilitatorId ?? NO_FACILITATOR);
+    setStartTime(team?.startTime ?? "");
+    setMemberIds(new Set(team?.memberIds ?? []));
+    setSearch("");
+    setError(null);
+  }, [isOpen, team]);
+
+  const facilitators = useMemo(
+    () => employees.filter((emp) => emp.isCoAdmin || emp.isAdmin),
+    [employees]
+  );
+
+  const visibleEmployees = useMemo(() => {
+    const lowerQuery = search.toLowerCase();
+    return employees.filter(
+      (emp) =>
+        !lowerQuery ||
+        emp.name.toLowerCase().includes(lowerQuery) ||
+        emp.email.toLowerCase().includes(lowerQuery)
+    );
+  }, [employees, search]);
+
+  const toggleMember = (id: string, checked: boolean) => {
+    setMemberIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError("Give the team a name.");
+      return;
+    }
+    if (startTime && !TIME_PATTERN.test(startTime)) {
+      setError("Enter the start time as HH:mm or leave it empty.");
+      return;
+    }
+    const saved = await onSave({
+      name: name.trim(),
+      facilitatorId: facilitatorId === NO_FACILITATOR ? null : facilitatorId,
+      startTime: startTime || null,
+      memberIds: Array.from(memberIds),
+    });
+    if (saved) onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{team ? "Edit Team" : "New Team"}</DialogTitle>
+          <DialogDescription>
+            Each team runs its own daily standup. An employee can belong to one
+            team; adding them here moves them from their current team.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="team-name">Name</Label>
+            <Input
+              id="team-name"
+              placeholder="e.g., Platform Squad"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Facilitator</Label>
+              <Select value={facilitatorId} onValueChange={setFacilitatorId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a co-admin" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_FACILITATOR}>No facilitator</SelectItem>
+                  {facilitators.map((emp) => (
+                    <SelectItem key={emp.id} value={emp.id}>
+                      {emp.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="team-start-time">Custom start time</Label>
+              <Input
+                id="team-start-time"
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave empty to follow the standup calendar.
+              </p>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Members</Label>
+              <span className="text-xs text-muted-foreground">
+                {memberIds.size} selected
+              </span>
+            </div>
+            <div className="relative">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by name or email..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-8"
+              />
+            </div>
+            <ScrollArea className="h-56 rounded-md border">
+              <div className="p-2 space-y-1">
+                {visibleEmployees.map((emp) => {
+                  const currentTeam = teamByMember.get(emp.id);
+                  const inOtherTeam =
+                    currentTeam && currentTeam.id !== team?.id;
+                  return (
+                    <label
+                      key={emp.id}
+                      className="flex items-center gap-3 rounded-md px-2 py-1.5 hover:bg-muted/50 cursor-pointer"
+                    >
+                      <Checkbox
+                        checked={memberIds.has(emp.id)}
+                        onCheckedChange={(checked) =>
+                          toggleMember(emp.id, checked === true)
+                        }
+                      />
+                      <span className="flex-1 text-sm">{emp.name}</span>
+                      {inOtherTeam && (
+                        <Badge variant="secondary" className="text-xs">
+                          {currentTeam.name}
+                        </Badge>
+                      )}
+                    </label>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Team
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,534 @@
+import { useState } from "react";
+import { format, parseISO, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  BarChart3,
+  Calendar as CalendarIcon,
+  Loader2,
+} from "lucide-react";
+import { Bar, Line } from "react-chartjs-2";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from "chart.js";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useTeams } from "@/hooks/use-teams";
+import type { StatusCounts } from "@/hooks/use-employee-stats";
+import {
+  useAttendanceAnalytics,
+  type EmployeeAnalytics,
+} from "@/hooks/use-attendance-analytics";
+import { getUserFriendlyErrorMessage } from "@/lib/errorHandler";
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+);
+
+const ALL_TEAMS = "all";
+
+type SessionKey = "standups" | "learningHours";
+
+const STATUSES: { key: keyof StatusCounts; label: string }[] = [
+  { key: "present", label: "Present" },
+  { key: "late", label: "Late" },
+  { key: "notAvailable", label: "Not Available" },
+  { key: "absent", label: "Absent" },
+  { key: "missed", label: "Missed" },
+];
+
+// Monday first; values are Date#getDay indexes
+const WEEKDAYS = [
+  { day: 1, label: "Mon" },
+  { day: 2, label: "Tue" },
+  { day: 3, label: "Wed" },
+  { day: 4, label: "Thu" },
+  { day: 5, label: "Fri" },
+  { day: 6, label: "Sat" },
+  { day: 0, label: "Sun" },
+];
+
+// Presence percentage buckets of 10 points; 100% falls in the last one
+const DISTRIBUTION_BUCKETS = Array.from({ length: 10 }, (_, i) => ({
+  label: i === 9 ? "90–100%" : `${i * 10}–${i * 10 + 9}%`,
+  min: i * 10,
+}));
+
+const METRICS: {
+  key: string;
+  label: string;
+  value: (row: EmployeeAnalytics) => number;
+  percentage?: boolean;
+}[] = [
+  {
+    key: "presence",
+    label: "Presence",
+    value: (row) => row.presencePercentage,
+    percentage: true,
+  },
+  {
+    key: "standups",
+    label: "Standups",
+    value: (row) => row.standupPresence,
+    percentage: true,
+  },
+  {
+    key: "learningHours",
+    label: "Learning Hours",
+    value: (row) => row.learningPresence,
+    percentage: true,
+  },
+  { key: "late", label: "Late", value: (row) => row.standups.late },
+  {
+    key: "absent",
+    label: "Absent",
+    value: (row) => row.standups.absent + row.standups.missed,
+  },
+  {
+    key: "learningPoints",
+    label: "Learning Points",
+    value: (row) => row.learningPoints,
+  },
+];
+
+const totalOf = (counts: StatusCounts) =>
+  Object.values(counts).reduce((sum, n) => sum + n, 0);
+
+/**
+ * Attendance and engagement across the organization: daily rates, a
+ * weekday heatmap, the spread of presence and a ranked employee table.
+ * Presence counts the same statuses as the employee performance summary.
+ */
+export default function AdminAnalytics() {
+  const { teams } = useTeams();
+  const [range, setRange] = useState<DateRange | undefined>({
+    from: subDays(new Date(), 29),
+    to: new Date(),
+  });
+  const [teamId, setTeamId] = useState(ALL_TEAMS);
+  const [heatmapSession, setHeatmapSession] = useState<SessionKey>("standups");
+  const [sort, setSort] = useState({ key: "presence", descending: true });
+
+  const { analytics, isLoading, isFetching, error } = useAttendanceAnalytics(
+    range?.from
+      ? {
+          from: format(range.from, "yyyy-MM-dd"),
+          to: format(range.to ?? range.from, "yyyy-MM-dd"),
+          ...(teamId !== ALL_TEAMS && { teamId }),
+        }
+      : null,
+  );
+
+  const daily = analytics?.daily ?? [];
+  const employees = analytics?.employees ?? [];
+
+  const dailyChartData = {
+    labels: daily.map((d) => format(parseISO(d.date), "MMM d")),
+    datasets: [
+      {
+        label: "Standups",
+        data: daily.map((d) => d.standupRate),
+        borderColor: "#2563EB",
+        backgroundColor: "#2563EB",
+        tension: 0.3,
+      },
+      {
+        label: "Learning Hours",
+        data: daily.map((d) => d.learningRate),
+        borderColor: "#7C3AED",
+        backgroundColor: "#7C3AED",
+        tension: 0.3,
+      },
+    ],
+  };
+
+  const dailyChartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { position: "bottom" as const },
+      datalabels: { display: false },
+      tooltip: {
+        callbacks: {
+          label: (context: any) =>
+            `${context.dataset.label}: ${context.parsed.y}%`,
+        },
+      },
+    },
+    scales: {
+      y: {
+        beginAtZero: true,
+        max: 100,
+        title: { display: true, text: "% of marked attendance" },
+      },
+    },
+  };
+
+  const distribution = DISTRIBUTION_BUCKETS.map(
+    ({ min }, i) =>
+      employees.filter(
+        (row) =>
+          row.presencePercentage >= min &&
+          (i === DISTRIBUTION_BUCKETS.length - 1 ||
+            row.presencePercentage < min + 10),
+      ).length,
+  );
+
+  const distributionChartData = {
+    labels: DISTRIBUTION_BUCKETS.map((bucket) => bucket.label),
+    datasets: [
+      {
+        label: "Employees",
+        data: distribution,
+        backgroundColor: "#059669",
+      },
+    ],
+  };
+
+  const distributionChartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: false },
+      datalabels: { display: false },
+    },
+    scales: {
+      x: { title: { display: true, text: "Presence" } },
+      y: {
+        beginAtZero: true,
+        ticks: { precision: 0 },
+        title: { display: true, text: "Employees" },
+      },
+    },
+  };
+
+  const metric = METRICS.find((m) => m.key === sort.key) ?? METRICS[0];
+  const rankedEmployees = [...employees].sort(
+    (a, b) =>
+      (sort.descending ? -1 : 1) * (metric.value(a) - metric.value(b)) ||
+      a.name.localeCompare(b.name),
+  );
+
+  const toggleSort = (key: string) =>
+    setSort((prev) =>
+      prev.key === key
+        ? { key, descending: !prev.descending }
+        : { key, descending: true },
+    );
+
+  const renderEmpty = (message: string) => (
+    <p className="text-center text-sm text-muted-foreground py-8">{message}</p>
+  );
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <h2 className="text-3xl font-bold tracking-tight">Analytics</h2>
+          {isFetching && !isLoading && (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          )}
+        </div>
+        <div className="flex flex-col sm:flex-row items-center gap-2">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                className="w-full sm:w-[260px] justify-start text-left font-normal"
+              >
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {range?.from ? (
+                  `${format(range.from, "PP")} – ${format(
+                    range.to ?? range.from,
+                    "PP",
+                  )}`
+                ) : (
+                  <span>Pick a date range</span>
+                )}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar
+                mode="range"
+                selected={range}
+                onSelect={setRange}
+                numberOfMonths={2}
+                disabled={{ after: new Date() }}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          <Select value={teamId} onValueChange={setTeamId}>
+            <SelectTrigger className="w-full sm:w-[180px]" aria-label="Team">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TEAMS}>All teams</SelectItem>
+              {teams.map((team) => (
+                <SelectItem key={team.id} value={team.id}>
+                  {team.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {error ? (
+        <Card>
+          <CardContent className="pt-6 text-center text-sm text-destructive">
+            {getUserFriendlyErrorMessage(
+              error,
+              "Failed to load attendance analytics.",
+            )}
+          </CardContent>
+        </Card>
+      ) : isLoading || !analytics ? (
+        <div className="grid gap-6 lg:grid-cols-2">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-[340px] w-full" />
+          ))}
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Daily Attendance Rate</CardTitle>
+                <CardDescription>
+                  Present, late and not-available records as a share of each
+                  day&apos;s marked attendance
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {daily.length === 0 ? (
+                  renderEmpty("No attendance was marked in this range.")
+                ) : (
+                  <div className="h-[260px]">
+                    <Line data={dailyChartData} options={dailyChartOptions} />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Presence Distribution</CardTitle>
+                <CardDescription>
+                  How many employees fall in each band of standup presence
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {employees.length === 0 ? (
+                  renderEmpty("No employees match this filter.")
+                ) : (
+                  <div className="h-[260px]">
+                    <Bar
+                      data={distributionChartData}
+                      options={distributionChartOptions}
+                    />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <CardTitle className="text-lg">Weekday Heatmap</CardTitle>
+                <CardDescription>
+                  Statuses recorded on each day of the week, shaded by their
+                  share of that day&apos;s records
+                </CardDescription>
+              </div>
+              <Select
+                value={heatmapSession}
+                onValueChange={(value) =>
+                  setHeatmapSession(value as SessionKey)
+                }
+              >
+                <SelectTrigger
+                  className="w-full md:w-[160px]"
+                  aria-label="Session type"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="standups">Standups</SelectItem>
+                  <SelectItem value="learningHours">Learning Hours</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <div className="grid grid-cols-[auto_repeat(5,minmax(80px,1fr))] gap-1 text-sm min-w-[520px]">
+                <div />
+                {STATUSES.map((status) => (
+                  <div
+                    key={status.key}
+                    className="text-center text-xs font-medium text-muted-foreground pb-1"
+                  >
+                    {status.label}
+                  </div>
+                ))}
+                {WEEKDAYS.map(({ day, label }) => {
+                  const counts = analytics.weekdays[day][heatmapSession];
+                  const total = totalOf(counts);
+                  return [
+                    <div
+                      key={label}
+                      className="pr-3 flex items-center font-medium"
+                    >
+                      {label}
+                    </div>,
+                    ...STATUSES.map((status) => {
+                      const share = total > 0 ? counts[status.key] / total : 0;
+                      return (
+                        <div
+                          key={`${label}-${status.key}`}
+                          className="rounded-md py-3 text-center"
+                          style={{
+                            backgroundColor: `hsl(var(--primary) / ${
+                              0.05 + share * 0.9
+                            })`,
+                            color:
+                              share > 0.5
+                                ? "hsl(var(--primary-foreground))"
+                                : undefined,
+                          }}
+                          title={`${counts[status.key]} of ${total} record(s)`}
+                        >
+                          {total > 0 ? `${Math.round(share * 100)}%` : "—"}
+                        </div>
+                      );
+                    }),
+                  ];
+                })}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <BarChart3 className="h-5 w-5 text-muted-foreground" />
+                <CardTitle className="text-lg">Employee Ranking</CardTitle>
+              </div>
+              <CardDescription>
+                {format(parseISO(analytics.from), "MMM d, yyyy")} –{" "}
+                {format(parseISO(analytics.to), "MMM d, yyyy")}. Percentages are
+                of each employee&apos;s working days. Select a column to rank by
+                it.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {employees.length === 0 ? (
+                renderEmpty("No employees match this filter.")
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-12">#</TableHead>
+                      <TableHead>Employee</TableHead>
+                      {METRICS.map((m) => (
+                        <TableHead key={m.key} className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="-mr-3"
+                            onClick={() => toggleSort(m.key)}
+                          >
+                            {m.label}
+                            {sort.key !== m.key ? (
+                              <ArrowUpDown className="ml-1 h-3 w-3 opacity-50" />
+                            ) : sort.descending ? (
+                              <ArrowDown className="ml-1 h-3 w-3" />
+                            ) : (
+                              <ArrowUp className="ml-1 h-3 w-3" />
+                            )}
+                          </Button>
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rankedEmployees.map((row, index) => (
+                      <TableRow key={row.employeeId}>
+                        <TableCell className="text-muted-foreground">
+                          {index + 1}
+                        </TableCell>
+                        <TableCell>
+                          <p className="font-medium">{row.name || "—"}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {row.teamName ?? "No team"} · {row.workingDays}{" "}
+                            working day(s)
+                          </p>
+                        </TableCell>
+                        {METRICS.map((m) => (
+                          <TableCell
+                            key={m.key}
+                            className={`text-right tabular-nums ${
+                              m.key === sort.key ? "font-semibold" : ""
+                            }`}
+                          >
+                            {m.value(row)}
+                            {m.percentage && "%"}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
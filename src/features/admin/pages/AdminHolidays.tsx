@@ -0,0 +1,242 @@
+import { useRef, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { deleteDoc, doc, serverTimestamp, setDoc } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/integrations/firebase/client";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { CalendarOff, Loader2, Plus, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { getUserFriendlyErrorMessage } from "@/lib/errorHandler";
+import { useAdminAuth } from "@/context/AdminAuthContext";
+import { useHolidays } from "@/hooks/use-holidays";
+
+export default function AdminHolidays() {
+  const { admin } = useAdminAuth();
+  const { holidays, isLoading, refetch } = useHolidays();
+  const [newDate, setNewDate] = useState("");
+  const [newName, setNewName] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [deletingDate, setDeletingDate] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAdd = async () => {
+    if (!newDate || !newName.trim()) {
+      toast.error("Please provide both a date and a name for the holiday.");
+      return;
+    }
+    setIsAdding(true);
+    try {
+      // Holidays are keyed by date so a day can only appear once
+      await setDoc(doc(db, "holidays", newDate), {
+        date: newDate,
+        name: newName.trim(),
+        source: "manual",
+        createdBy: admin?.email || "Admin",
+        createdAt: serverTimestamp(),
+      });
+      toast.success("Holiday added.");
+      setNewDate("");
+      setNewName("");
+      refetch();
+    } catch (error) {
+      console.error("Error adding holiday:", error);
+      toast.error(
+        getUserFriendlyErrorMessage(error, "Could not add the holiday.")
+      );
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleDelete = async (date: string) => {
+    setDeletingDate(date);
+    try {
+      await deleteDoc(doc(db, "holidays", date));
+      toast.success("Holiday removed.");
+      refetch();
+    } catch (error) {
+      console.error("Error removing holiday:", error);
+      toast.error(
+        getUserFriendlyErrorMessage(error, "Could not remove the holiday.")
+      );
+    } finally {
+      setDeletingDate(null);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so the same file can be picked again after fixing it
+    event.target.value = "";
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const icsContent = await file.text();
+      const importHolidaysFromIcs = httpsCallable(
+        functions,
+        "importHolidaysFromIcs"
+      );
+      const result = await importHolidaysFromIcs({ icsContent });
+      toast.success((result.data as { message: string }).message);
+      refetch();
+    } catch (error) {
+      console.error("Error importing holidays:", error);
+      toast.error(
+        getUserFriendlyErrorMessage(error, "Could not import the calendar.")
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between">
+        <h2 className="text-3xl font-bold tracking-tight">Holidays</h2>
+        <div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            className="hidden"
+            onChange={handleImport}
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+          >
+            {isImporting ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            Import ICS
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Holiday</CardTitle>
+          <CardDescription>
+            No standups or learning hours are scheduled on holidays, streaks
+            are not broken by them and they are excluded from presence
+            percentages.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="holiday-date">Date</Label>
+              <Input
+                id="holiday-date"
+                type="date"
+                value={newDate}
+                onChange={(e) => setNewDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="holiday-name">Name</Label>
+              <Input
+                id="holiday-name"
+                placeholder="e.g., Diwali"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleAdd} disabled={isAdding}>
+              {isAdding ? (
+                <Loader2 className="h-4 w-4 animate-spin mr-1" />
+              ) : (
+                <Plus className="h-4 w-4 mr-1" />
+              )}
+              Add
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <CalendarOff className="h-5 w-5 text-muted-foreground" />
+            <CardTitle>Holiday Calendar</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : holidays.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No holidays have been added yet.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {holidays.map((holiday) => (
+                  <TableRow key={holiday.date}>
+                    <TableCell className="font-medium">
+                      {format(parseISO(holiday.date), "EEE, MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell>{holiday.name}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">
+                        {holiday.source === "ics" ? "ICS import" : "Manual"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDelete(holiday.date)}
+                        disabled={deletingDate === holiday.date}
+                        aria-label={`Remove ${holiday.name}`}
+                      >
+                        {deletingDate === holiday.date ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useAdminAuth } from "@/context/AdminAuthContext";
 import { Button } from "@/components/ui/button";
 import {
@@ -11,6 +12,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
 import { db } from "@/integrations/firebase/client";
 import {
   collection,
@@ -38,12 +40,28 @@ import {
   ArrowRight,
   LayoutDashboard,
   ChevronRight,
+  FileSpreadsheet,
+  ShieldAlert,
 } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { motion, type Variants } from "framer-motion";
 import type { ViewState } from "@/layout/AppShell";
 import MotivationalQuote from "@/components/common/MotivationalQuote";
 import { cn } from "@/lib/utils";
+import {
+  STALE_BLOCKER_DAYS,
+  isBlockerStale,
+} from "@/features/standups/hooks/useBlockers";
+import type { Blocker } from "@/features/standups/types";
+import {
+  getLatestSyncRuns,
+  useSyncJobs,
+  type SyncJob,
+} from "@/hooks/use-sync-jobs";
+import { ATTENDED_STATUSES } from "@/hooks/use-employee-stats";
+import { useSessionDateId } from "@/hooks/use-organization-settings";
+import { ALERT_RULE_LABELS, useAtRiskAlerts } from "@/hooks/use-at-risk-alerts";
+import { AtRiskAlertSettingsDialog } from "@/features/admin/components/AtRiskAlertSettingsDialog";
 
 // --- Component Props & Types ---
 interface AdminHomeProps {
@@ -70,11 +88,8 @@ const AdminHome = ({ setActiveView }: AdminHomeProps) => {
   const { admin } = useAdminAuth();
   const [employeeCount, setEmployeeCount] = useState<number>(0);
   const [standupTime, setStandupTime] = useState<string | null>(null);
-  const [standupAttendanceCount, setStandupAttendanceCount] =
-    useState<number>(0);
   const [learningHourTime, setLearningHourTime] = useState<string | null>(null);
-  const [learningHourAttendanceCount, setLearningHourAttendanceCount] =
-    useState<number>(0);
+  const [staleBlockerCount, setStaleBlockerCount] = useState<number>(0);
   const [isLoading, setIsLoading] = useState(true);
 
   // --- Data Fetching (Functionality Unchanged) ---
@@ -89,33 +104,48 @@ const AdminHome = ({ setActiveView }: AdminHomeProps) => {
         const tomorrow = new Date(today);
         tomorrow.setDate(tomorrow.getDate() + 1);
 
-        const [employeeDocs, standupSnapshot, learningHourSnapshot] =
-          await Promise.all([
-            getDocs(collection(db, "employees")),
-            getDocs(
-              query(
-                collection(db, "standups"),
-                where("scheduledTime", ">=", Timestamp.fromDate(today)),
-                where("scheduledTime", "<", Timestamp.fromDate(tomorrow)),
-                orderBy("scheduledTime", "desc"),
-                limit(1),
-              ),
+        const [
+          employeeDocs,
+          standupSnapshot,
+          learningHourSnapshot,
+          blockerSnapshot,
+        ] = await Promise.all([
+          getDocs(collection(db, "employees")),
+          getDocs(
+            query(
+              collection(db, "standups"),
+              where("scheduledTime", ">=", Timestamp.fromDate(today)),
+              where("scheduledTime", "<", Timestamp.fromDate(tomorrow)),
+              orderBy("scheduledTime", "desc"),
+              limit(1),
             ),
-            getDocs(
-              query(
-                collection(db, "learning_hours"),
-                where("scheduledTime", ">=", Timestamp.fromDate(today)),
-                where("scheduledTime", "<", Timestamp.fromDate(tomorrow)),
-                orderBy("scheduledTime", "desc"),
-                limit(1),
-              ),
+          ),
+          getDocs(
+            query(
+              collection(db, "learning_hours"),
+              where("scheduledTime", ">=", Timestamp.fromDate(today)),
+              where("scheduledTime", "<", Timestamp.fromDate(tomorrow)),
+              orderBy("scheduledTime", "desc"),
+              limit(1),
             ),
-          ]);
+          ),
+          getDocs(
+            query(
+              collection(db, "blockers"),
+              where("status", "in", ["open", "in-progress"]),
+            ),
+          ),
+        ]);
 
         const activeEmployees = employeeDocs.docs.filter(
           (doc) => doc.data().archived !== true,
         );
         setEmployeeCount(activeEmployees.length);
+        setStaleBlockerCount(
+          blockerSnapshot.docs.filter((d) =>
+            isBlockerStale({ ...(d.data() as Blocker), id: d.id }),
+          ).length,
+        );
 
         if (!standupSnapshot.empty) {
           const standupDoc = standupSnapshot.docs[0];
@@ -125,14 +155,6 @@ const AdminHome = ({ setActiveView }: AdminHomeProps) => {
               .scheduledTime.toDate()
               .toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }),
           );
-          const attSnapshot = await getCountFromServer(
-            query(
-              collection(db, "attendance"),
-              where("standup_id", "==", standupDoc.id),
-              where("status", "==", "Present"),
-            ),
-          );
-          setStandupAttendanceCount(attSnapshot.data().count);
         }
 
         if (!learningHourSnapshot.empty) {
@@ -143,14 +165,6 @@ const AdminHome = ({ setActiveView }: AdminHomeProps) => {
               .scheduledTime.toDate()
               .toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }),
           );
-          const attSnapshot = await getCountFromServer(
-            query(
-              collection(db, "learning_hours_attendance"),
-              where("learning_hour_id", "==", learningHourDoc.id),
-              where("status", "==", "Present"),
-            ),
-          );
-          setLearningHourAttendanceCount(attSnapshot.data().count);
         }
       } catch (error) {
         console.error("Failed to fetch admin dashboard data:", error);
@@ -162,6 +176,38 @@ const AdminHome = ({ setActiveView }: AdminHomeProps) => {
     fetchDashboardData();
   }, [admin]);
 
+  // Records of team and organization-wide standups alike carry the session
+  // day, so counting them needs no per-employee reads
+  const todayId = useSessionDateId();
+  const { data: attendedToday } = useQuery({
+    queryKey: ["attendedToday", todayId],
+    queryFn: async () => {
+      const countAttended = async (collectionName: string, field: string) =>
+        (
+          await getCountFromServer(
+            query(
+              collection(db, collectionName),
+              where(field, "==", todayId),
+              where("status", "in", ATTENDED_STATUSES),
+            ),
+          )
+        ).data().count;
+      const [standups, learningHours] = await Promise.all([
+        countAttended("attendance", "standup_id"),
+        countAttended("learning_hours_attendance", "learning_hour_id"),
+      ]);
+      return { standups, learningHours };
+    },
+    enabled: !!admin,
+    staleTime: 60 * 1000,
+  });
+  const standupAttendanceCount = standupTime
+    ? (attendedToday?.standups ?? 0)
+    : 0;
+  const learningHourAttendanceCount = learningHourTime
+    ? (attendedToday?.learningHours ?? 0)
+    : 0;
+
   const attendanceRate =
     employeeCount > 0
       ? Math.round(
@@ -297,6 +343,10 @@ const AdminHome = ({ setActiveView }: AdminHomeProps) => {
               </motion.div>
             </div>
 
+            <motion.div variants={itemVariants}>
+              <AtRiskAlertsCard />
+            </motion.div>
+
             {/* Quote of the Day */}
             <motion.div variants={itemVariants} className="pt-4">
               <MotivationalQuote />
@@ -308,6 +358,18 @@ const AdminHome = ({ setActiveView }: AdminHomeProps) => {
             className="xl:col-span-1 space-y-6"
             variants={containerVariants}
           >
+            <motion.div variants={itemVariants}>
+              <StatCard
+                title="Stale Blockers"
+                value={staleBlockerCount}
+                icon={AlertTriangle}
+                color="amber"
+                description={`Unresolved with no activity for ${STALE_BLOCKER_DAYS}+ days`}
+              />
+            </motion.div>
+            <motion.div variants={itemVariants}>
+              <SyncHealthCard setActiveView={setActiveView} />
+            </motion.div>
             <h2 className="text-xl font-semibold tracking-tight">
               Quick Actions
             </h2>
@@ -448,6 +510,172 @@ const AttendanceCard = ({
   );
 };
 
+const SyncHealthRow = ({
+  label,
+  run,
+}: {
+  label: string;
+  run: SyncJob | null;
+}) => (
+  <div className="flex items-center justify-between gap-2 text-sm">
+    <span className="font-medium">{label}</span>
+    {run ? (
+      <span
+        className={cn(
+          "text-xs",
+          run.status === "failed" ? "text-red-500" : "text-muted-foreground",
+        )}
+      >
+        {run.status === "failed" ? "Failed" : "OK"}
+        {run.createdAt &&
+          ` · ${run.createdAt.toDate().toLocaleString([], {
+            month: "short",
+            day: "numeric",
+            hour: "2-digit",
+            minute: "2-digit",
+          })}`}
+      </span>
+    ) : (
+      <span className="text-xs text-muted-foreground">No runs yet</span>
+    )}
+  </div>
+);
+
+// Last-run health of the Google Sheets syncs, linking to the full history
+const SyncHealthCard = ({
+  setActiveView,
+}: {
+  setActiveView: (view: ViewState) => void;
+}) => {
+  const { jobs } = useSyncJobs(20);
+  const { attendance, learningPoints } = getLatestSyncRuns(jobs);
+  const isFailing =
+    attendance?.status === "failed" || learningPoints?.status === "failed";
+
+  return (
+    <Card
+      className={cn(
+        "overflow-hidden border-l-4 shadow-sm",
+        isFailing ? "border-l-red-500" : "border-l-emerald-500",
+      )}
+    >
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground uppercase tracking-wider">
+          Sheets Sync
+        </CardTitle>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-muted-foreground"
+          onClick={() => setActiveView({ view: "sync-jobs" })}
+          aria-label="View sync history"
+        >
+          <FileSpreadsheet className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <SyncHealthRow label="Attendance" run={attendance} />
+        <SyncHealthRow label="Learning Points" run={learningPoints} />
+      </CardContent>
+    </Card>
+  );
+};
+
+// Employees flagged by the daily at-risk check, until an admin resolves them
+const AtRiskAlertsCard = () => {
+  const { alerts, isLoading, updatingId, setAlertStatus } = useAtRiskAlerts();
+  const openCount = alerts.filter((a) => a.status === "open").length;
+
+  return (
+    <Card
+      className={cn(
+        "overflow-hidden border-l-4 shadow-sm",
+        openCount > 0 ? "border-l-red-500" : "border-l-emerald-500",
+      )}
+    >
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <div className="flex items-center gap-2">
+          <ShieldAlert className="h-4 w-4 text-muted-foreground" />
+          <CardTitle className="text-sm font-medium text-muted-foreground uppercase tracking-wider">
+            At-Risk Employees
+          </CardTitle>
+          {openCount > 0 && (
+            <Badge variant="destructive">{openCount} new</Badge>
+          )}
+        </div>
+        <AtRiskAlertSettingsDialog />
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : alerts.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-2">
+            No employees are flagged right now.
+          </p>
+        ) : (
+          <ul className="divide-y max-h-[360px] overflow-y-auto">
+            {alerts.map((alert) => (
+              <li
+                key={alert.id}
+                className="flex flex-col sm:flex-row sm:items-center gap-3 py-3"
+              >
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">
+                      {alert.employeeName || alert.employeeId}
+                    </span>
+                    <Badge variant="outline">
+                      {ALERT_RULE_LABELS[alert.rule] ?? alert.rule}
+                    </Badge>
+                    {alert.status === "acknowledged" && (
+                      <Badge variant="secondary">Acknowledged</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {alert.message}
+                  </p>
+                  {alert.detectedAt && (
+                    <p className="text-xs text-muted-foreground">
+                      Flagged{" "}
+                      {alert.detectedAt.toDate().toLocaleDateString("en-US", {
+                        month: "short",
+                        day: "numeric",
+                      })}
+                      {alert.acknowledgedBy &&
+                        ` · acknowledged by ${alert.acknowledgedBy}`}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {alert.status === "open" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={updatingId === alert.id}
+                      onClick={() => setAlertStatus(alert, "acknowledged")}
+                    >
+                      Acknowledge
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    disabled={updatingId === alert.id}
+                    onClick={() => setAlertStatus(alert, "resolved")}
+                  >
+                    Resolve
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
 const QuickActions = ({
   setActiveView,
 }: {
@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { doc, serverTimestamp, updateDoc } from "firebase/firestore";
+import { db } from "@/integrations/firebase/client";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Check, Loader2, Plane, X } from "lucide-react";
+import { toast } from "sonner";
+import { getUserFriendlyErrorMessage } from "@/lib/errorHandler";
+import { useAdminAuth } from "@/context/AdminAuthContext";
+import {
+  formatLeaveRange,
+  useLeaveRequests,
+  type LeaveRequest,
+  type LeaveStatus,
+} from "@/hooks/use-leave-requests";
+
+export default function AdminLeaveRequests() {
+  const { admin } = useAdminAuth();
+  const { leaveRequests, isLoading, refetch } = useLeaveRequests();
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  // Pending requests need a decision, so they are listed first
+  const sortedRequests = [...leaveRequests].sort(
+    (a, b) => Number(b.status === "pending") - Number(a.status === "pending"),
+  );
+  const pendingCount = leaveRequests.filter(
+    (l) => l.status === "pending",
+  ).length;
+
+  const handleReview = async (leave: LeaveRequest, status: LeaveStatus) => {
+    setReviewingId(leave.id);
+    try {
+      await updateDoc(doc(db, "leaveRequests", leave.id), {
+        status,
+        reviewedBy: admin?.email || "Admin",
+        reviewedAt: serverTimestamp(),
+      });
+      toast.success(
+        status === "approved" ? "Leave approved." : "Leave rejected.",
+      );
+      refetch();
+    } catch (error) {
+      console.error("Error reviewing leave request:", error);
+      toast.error(
+        getUserFriendlyErrorMessage(error, "Could not update the request."),
+      );
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between">
+        <h2 className="text-3xl font-bold tracking-tight">Leave Requests</h2>
+        {pendingCount > 0 && (
+          <Badge variant="secondary">{pendingCount} pending</Badge>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Plane className="h-5 w-5 text-muted-foreground" />
+            <CardTitle>Planned Leave</CardTitle>
+          </div>
+          <CardDescription>
+            Employees on approved leave are marked Not Available with their
+            leave reason when a standup or learning hour starts.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : sortedRequests.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No leave has been requested yet.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedRequests.map((leave) => (
+                  <TableRow key={leave.id}>
+                    <TableCell className="font-medium">
+                      {leave.employeeName}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatLeaveRange(leave.startDate, leave.endDate)}
+                    </TableCell>
+                    <TableCell className="max-w-xs break-words">
+                      {leave.reason}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={
+                          leave.status === "approved"
+                            ? "default"
+                            : leave.status === "rejected"
+                              ? "destructive"
+                              : "secondary"
+                        }
+                        className="capitalize"
+                      >
+                        {leave.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {leave.status === "pending" ? (
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleReview(leave, "approved")}
+                            disabled={reviewingId === leave.id}
+                            aria-label={`Approve leave for ${leave.employeeName}`}
+                          >
+                            {reviewingId === leave.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Check className="h-4 w-4" />
+                            )}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleReview(leave, "rejected")}
+                            disabled={reviewingId === leave.id}
+                            aria-label={`Reject leave for ${leave.employeeName}`}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">
+                          {leave.reviewedBy}
+                        </span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileSpreadsheet, Loader2, RefreshCw, RotateCcw } from "lucide-react";
+import {
+  describeSyncJob,
+  SYNC_JOB_TYPE_LABELS,
+  useSyncJobs,
+  type SyncJob,
+  type SyncJobStatus,
+  type SyncJobType,
+} from "@/hooks/use-sync-jobs";
+
+const ALL = "all";
+
+const STATUS_VARIANTS: Record<
+  SyncJobStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  completed: "default",
+  failed: "destructive",
+  running: "secondary",
+  queued: "outline",
+};
+
+const formatDuration = (ms?: number) =>
+  ms === undefined
+    ? "—"
+    : ms < 1000
+      ? `${ms} ms`
+      : `${(ms / 1000).toFixed(1)} s`;
+
+const formatRows = (job: SyncJob) =>
+  job.rowsWritten === undefined
+    ? "—"
+    : job.rowsDeleted
+      ? `${job.rowsWritten} written, ${job.rowsDeleted} replaced`
+      : `${job.rowsWritten} written`;
+
+export default function AdminSyncJobs() {
+  const { jobs, isLoading, refetch, retryJob, retryingId } = useSyncJobs();
+  const [typeFilter, setTypeFilter] = useState<SyncJobType | typeof ALL>(ALL);
+  const [statusFilter, setStatusFilter] = useState<SyncJobStatus | typeof ALL>(
+    ALL,
+  );
+
+  const filteredJobs = jobs.filter(
+    (job) =>
+      (typeFilter === ALL || job.type === typeFilter) &&
+      (statusFilter === ALL || job.status === statusFilter),
+  );
+  const failedCount = jobs.filter(
+    (job) => job.status === "failed" && !job.retriedAt,
+  ).length;
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between">
+        <h2 className="text-3xl font-bold tracking-tight">Sync History</h2>
+        {failedCount > 0 && (
+          <Badge variant="destructive">{failedCount} failed</Badge>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-2">
+              <FileSpreadsheet className="h-5 w-5 text-muted-foreground" />
+              <CardTitle>Google Sheets Runs</CardTitle>
+            </div>
+            <CardDescription>
+              Every manual and scheduled sync of attendance and learning points.
+              Failed runs can be retried with the same settings.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select
+              value={typeFilter}
+              onValueChange={(value) =>
+                setTypeFilter(value as SyncJobType | typeof ALL)
+              }
+            >
+              <SelectTrigger className="w-[190px]" aria-label="Integration">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All integrations</SelectItem>
+                {Object.entries(SYNC_JOB_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={statusFilter}
+              onValueChange={(value) =>
+                setStatusFilter(value as SyncJobStatus | typeof ALL)
+              }
+            >
+              <SelectTrigger className="w-[140px]" aria-label="Status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any status</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+                <SelectItem value="completed">Completed</SelectItem>
+                <SelectItem value="running">Running</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => refetch()}
+              aria-label="Refresh"
+            >
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : filteredJobs.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No sync runs match these filters.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Integration</TableHead>
+                  <TableHead>Covers</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Rows</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredJobs.map((job) => (
+                  <TableRow key={job.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {job.createdAt
+                        ? format(job.createdAt.toDate(), "MMM d, h:mm a")
+                        : "—"}
+                      <p className="text-xs text-muted-foreground capitalize">
+                        {job.trigger ?? "manual"} ·{" "}
+                        {job.actorName ?? job.createdByName}
+                      </p>
+                    </TableCell>
+                    <TableCell>{SYNC_JOB_TYPE_LABELS[job.type]}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {describeSyncJob(job)}
+                    </TableCell>
+                    <TableCell className="max-w-xs">
+                      <Badge
+                        variant={STATUS_VARIANTS[job.status]}
+                        className="capitalize"
+                      >
+                        {job.status}
+                      </Badge>
+                      {(job.error || job.lastError) && (
+                        <p className="text-xs text-destructive mt-1 break-words">
+                          {job.error || job.lastError}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatRows(job)}
+                    </TableCell>
+                    <TableCell>{formatDuration(job.durationMs)}</TableCell>
+                    <TableCell className="text-right">
+                      {job.status === "failed" && !job.retriedAt ? (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => retryJob(job)}
+                          disabled={retryingId !== null}
+                        >
+                          {retryingId === job.id ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <RotateCcw className="mr-2 h-4 w-4" />
+                          )}
+                          Retry
+                        </Button>
+                      ) : job.retriedAt ? (
+                        <span className="text-xs text-muted-foreground">
+                          Retried
+                        </span>
+                      ) : null}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
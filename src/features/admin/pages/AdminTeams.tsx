@@ -0,0 +1,248 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  arrayRemove,
+  collection,
+  deleteDoc,
+  doc,
+  serverTimestamp,
+  writeBatch,
+} from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/integrations/firebase/client";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Loader2, Network, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { getUserFriendlyErrorMessage } from "@/lib/errorHandler";
+import { useAdminAuth } from "@/context/AdminAuthContext";
+import { useTeams, type Team } from "@/hooks/use-teams";
+import {
+  TeamFormDialog,
+  type TeamDraft,
+  type TeamEmployee,
+} from "../components/TeamFormDialog";
+
+export default function AdminTeams() {
+  const { admin } = useAdminAuth();
+  const { teams, teamByMember, isLoading, refetch } = useTeams();
+  const [employees, setEmployees] = useState<TeamEmployee[]>([]);
+  const [editingTeam, setEditingTeam] = useState<Team | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadEmployees = async () => {
+      try {
+        const getEmployees = httpsCallable<unknown, TeamEmployee[]>(
+          functions,
+          "getEmployeesWithAdminStatus"
+        );
+        const result = await getEmployees();
+        setEmployees(result.data);
+      } catch (error) {
+        console.error("Error loading employees:", error);
+        toast.error(
+          getUserFriendlyErrorMessage(error, "Could not load employees.")
+        );
+      }
+    };
+    loadEmployees();
+  }, []);
+
+  const employeeNames = useMemo(
+    () => new Map(employees.map((emp) => [emp.id, emp.name])),
+    [employees]
+  );
+
+  const openDialog = (team: Team | null) => {
+    setEditingTeam(team);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async (draft: TeamDraft) => {
+    setIsSaving(true);
+    try {
+      const batch = writeBatch(db);
+      const teamRef = editingTeam
+        ? doc(db, "teams", editingTeam.id)
+        : doc(collection(db, "teams"));
+
+      // Employees belong to one team, so pull moved members out of their old team
+      const movedFrom = new Map<string, string[]>();
+      draft.memberIds.forEach((id) => {
+        const current = teamByMember.get(id);
+        if (current && current.id !== teamRef.id) {
+          movedFrom.set(current.id, [...(movedFrom.get(current.id) ?? []), id]);
+        }
+      });
+      movedFrom.forEach((ids, teamId) => {
+        batch.update(doc(db, "teams", teamId), {
+          memberIds: arrayRemove(...ids),
+        });
+      });
+
+      batch.set(
+        teamRef,
+        {
+          ...draft,
+          updatedAt: serverTimestamp(),
+          updatedBy: admin?.email || "Admin",
+        },
+        { merge: true }
+      );
+      await batch.commit();
+      toast.success(editingTeam ? "Team updated." : "Team created.");
+      refetch();
+      return true;
+    } catch (error) {
+      console.error("Error saving team:", error);
+      toast.error(getUserFriendlyErrorMessage(error, "Could not save the team."));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (team: Team) => {
+    setDeletingId(team.id);
+    try {
+      await deleteDoc(doc(db, "teams", team.id));
+      toast.success(`${team.name} removed.`);
+      refetch();
+    } catch (error) {
+      console.error("Error removing team:", error);
+      toast.error(
+        getUserFriendlyErrorMessage(error, "Could not remove the team.")
+      );
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const unassignedCount = employees.filter(
+    (emp) => !teamByMember.has(emp.id)
+  ).length;
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between">
+        <h2 className="text-3xl font-bold tracking-tight">Teams</h2>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Team
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Network className="h-5 w-5 text-muted-foreground" />
+            <CardTitle>Standup Teams</CardTitle>
+          </div>
+          <CardDescription>
+            Each team gets its own standup every day, run by its facilitator.
+            Without any teams everyone joins a single standup.
+            {teams.length > 0 && unassignedCount > 0 && (
+              <>
+                {" "}
+                {unassignedCount} active employee
+                {unassignedCount === 1 ? " is" : "s are"} not on a team and will
+                join a separate standup for members without a team.
+              </>
+            )}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : teams.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No teams have been created yet.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Facilitator</TableHead>
+                  <TableHead>Start Time</TableHead>
+                  <TableHead>Members</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {teams.map((team) => (
+                  <TableRow key={team.id}>
+                    <TableCell className="font-medium">{team.name}</TableCell>
+                    <TableCell>
+                      {team.facilitatorId
+                        ? employeeNames.get(team.facilitatorId) ?? "Unknown"
+                        : "—"}
+                    </TableCell>
+                    <TableCell>
+                      {team.startTime ?? (
+                        <Badge variant="secondary">Calendar</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{team.memberIds.length}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => openDialog(team)}
+                        aria-label={`Edit ${team.name}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleDelete(team)}
+                        disabled={deletingId === team.id}
+                        aria-label={`Remove ${team.name}`}
+                      >
+                        {deletingId === team.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <TeamFormDialog
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        team={editingTeam}
+        employees={employees}
+        teamByMember={teamByMember}
+        isSaving={isSaving}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
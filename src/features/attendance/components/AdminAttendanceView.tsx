@@ -19,11 +19,26 @@ import {
 } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { cn } from "@/lib/utils";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { AttendanceReport } from "./AttendanceReport";
+import { CorrectionReviewQueue } from "./CorrectionReviewQueue";
+import { SheetReconciliationCard } from "./SheetReconciliationCard";
+import { AttendanceExportDialog } from "./AttendanceExportDialog";
+import { AttendanceBackfillDialog } from "./AttendanceBackfillDialog";
+import { AttendanceSheetSettingsDialog } from "./AttendanceSheetSettingsDialog";
 import { getUserFriendlyErrorMessage } from "@/lib/errorHandler";
+import { useTeams } from "@/hooks/use-teams";
 
 type SessionType = "standups" | "learning_hours";
 
+const ALL_TEAMS = "all";
+
 import { useUserAuth } from "@/context/UserAuthContext";
 
 export const AdminAttendanceView = () => {
@@ -31,6 +46,9 @@ export const AdminAttendanceView = () => {
   const [isSyncing, setIsSyncing] = useState(false);
   const { toast } = useToast();
   const { isAdmin, isCoAdmin } = useUserAuth();
+  const { teams } = useTeams();
+  const [teamId, setTeamId] = useState<string>(ALL_TEAMS);
+  const team = teams.find((t) => t.id === teamId) ?? null;
 
   const handleSync = async (sessionType: SessionType) => {
     setIsSyncing(true);
@@ -46,10 +64,14 @@ export const AdminAttendanceView = () => {
         description: `Please wait while we sync ${sessionType.replace(
           "_",
           " ",
-        )} attendance for ${date}.`,
+        )} attendance for ${date}${team ? ` (${team.name})` : ""}.`,
       });
 
-      const result = await syncAttendanceToSheet({ date, sessionType });
+      const result = await syncAttendanceToSheet({
+        date,
+        sessionType,
+        ...(team ? { teamId: team.id } : {}),
+      });
 
       toast({
         title: "Sync Complete",
@@ -119,6 +141,24 @@ export const AdminAttendanceView = () => {
                 />
               </PopoverContent>
             </Popover>
+            {teams.length > 0 && (
+              <Select value={teamId} onValueChange={setTeamId}>
+                <SelectTrigger
+                  className="w-full sm:w-[180px]"
+                  aria-label="Team"
+                >
+                  <SelectValue placeholder="All teams" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_TEAMS}>All teams</SelectItem>
+                  {teams.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
             <div className="flex items-center gap-2 w-full sm:w-auto">
               <Button
                 onClick={() => handleSync("standups")}
@@ -146,17 +186,30 @@ export const AdminAttendanceView = () => {
                 <span className="sm:hidden">Learning</span>
                 <span className="hidden sm:inline">Sync Learning Hours</span>
               </Button>
+              <AttendanceBackfillDialog
+                team={team}
+                disabled={!isAdmin && !isCoAdmin}
+              />
+              <AttendanceExportDialog defaultDate={selectedDate} team={team} />
+              {isAdmin && <AttendanceSheetSettingsDialog />}
             </div>
           </div>
         </CardHeader>
       </Card>
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <AttendanceReport sessionType="standups" selectedDate={selectedDate} />
+        <AttendanceReport
+          sessionType="standups"
+          selectedDate={selectedDate}
+          team={team}
+        />
         <AttendanceReport
           sessionType="learning_hours"
           selectedDate={selectedDate}
+          team={team}
         />
       </div>
+      <CorrectionReviewQueue />
+      {isAdmin && <SheetReconciliationCard />}
     </motion.div>
   );
 };
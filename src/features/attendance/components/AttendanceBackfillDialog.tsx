@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Calendar as CalendarIcon, CalendarRange, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Progress } from "@/components/ui/progress";
+import type { Team } from "@/hooks/use-teams";
+import {
+  useAttendanceBackfill,
+  type AttendanceBackfillJob,
+  type BackfillSessionType,
+} from "../hooks/useAttendanceBackfill";
+
+const SESSION_OPTIONS: { value: BackfillSessionType; label: string }[] = [
+  { value: "standups", label: "Standups" },
+  { value: "learning_hours", label: "Learning Hours" },
+];
+
+const STATUS_LABELS: Record<AttendanceBackfillJob["status"], string> = {
+  queued: "Waiting to continue",
+  running: "Syncing",
+  completed: "Completed",
+  failed: "Stopped on an error",
+};
+
+const BackfillProgress = ({
+  job,
+  isRunning,
+  onResume,
+}: {
+  job: AttendanceBackfillJob;
+  isRunning: boolean;
+  onResume: () => void;
+}) => (
+  <div className="space-y-2 rounded-md border p-3">
+    <div className="flex items-center justify-between text-sm">
+      <span className="font-medium">
+        Last backfill: {job.from} to {job.to}
+      </span>
+      <span className="text-muted-foreground">{STATUS_LABELS[job.status]}</span>
+    </div>
+    <Progress value={(job.completedDays / job.totalDays) * 100} />
+    <p className="text-xs text-muted-foreground">
+      {job.completedDays} of {job.totalDays} day(s) synced
+      {job.nextDate && job.status !== "completed" && `, next ${job.nextDate}`} ·
+      started by {job.createdByName}
+    </p>
+    {job.status === "failed" && (
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-destructive break-words">{job.lastError}</p>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onResume}
+          disabled={isRunning}
+        >
+          Resume
+        </Button>
+      </div>
+    )}
+  </div>
+);
+
+/**
+ * Button and dialog that sync a range of past days to the attendance sheet,
+ * showing the progress of the latest backfill.
+ */
+export const AttendanceBackfillDialog = ({
+  team = null,
+  disabled = false,
+}: {
+  // Limits the sync to one team's members
+  team?: Team | null;
+  disabled?: boolean;
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [range, setRange] = useState<DateRange | undefined>();
+  const [sessionTypes, setSessionTypes] = useState<BackfillSessionType[]>([
+    "standups",
+    "learning_hours",
+  ]);
+  const { latestJob, isRunning, startBackfill, resumeBackfill } =
+    useAttendanceBackfill();
+
+  const toggleSessionType = (value: BackfillSessionType, checked: boolean) => {
+    setSessionTypes((prev) =>
+      checked ? [...prev, value] : prev.filter((t) => t !== value)
+    );
+  };
+
+  const handleStart = () => {
+    if (!range?.from) return;
+    // Runs in the background; progress arrives through the job document
+    startBackfill({
+      from: format(range.from, "yyyy-MM-dd"),
+      to: format(range.to ?? range.from, "yyyy-MM-dd"),
+      sessionTypes,
+      ...(team ? { teamId: team.id } : {}),
+    });
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => setIsOpen(true)}
+        disabled={disabled}
+      >
+        <CalendarRange className="mr-2 h-4 w-4" />
+        Backfill
+      </Button>
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Backfill Sheet Sync</DialogTitle>
+            <DialogDescription>
+              Re-sync every day in a range to the attendance sheet
+              {team ? ` for ${team.name}` : ""}. Each day replaces its existing
+              rows, so re-running a range is safe.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Date range</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start text-left font-normal"
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {range?.from ? (
+                      `${format(range.from, "PP")} – ${format(
+                        range.to ?? range.from,
+                        "PP"
+                      )}`
+                    ) : (
+                      <span>Pick a date range</span>
+                    )}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    selected={range}
+                    onSelect={setRange}
+                    numberOfMonths={2}
+                    disabled={{ after: new Date() }}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div className="flex gap-6">
+              {SESSION_OPTIONS.map(({ value, label }) => (
+                <div key={value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`backfill-${value}`}
+                    checked={sessionTypes.includes(value)}
+                    onCheckedChange={(checked) =>
+                      toggleSessionType(value, checked === true)
+                    }
+                  />
+                  <Label htmlFor={`backfill-${value}`} className="font-normal">
+                    {label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            {latestJob && (
+              <BackfillProgress
+                job={latestJob}
+                isRunning={isRunning}
+                onResume={() => resumeBackfill(latestJob.id)}
+              />
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Close
+            </Button>
+            <Button
+              onClick={handleStart}
+              disabled={isRunning || !range?.from || sessionTypes.length === 0}
+            >
+              {isRunning && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Start Backfill
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,298 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { useQuery } from "@tanstack/react-query";
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { db } from "@/integrations/firebase/client";
+import { Calendar as CalendarIcon, Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import type { Team } from "@/hooks/use-teams";
+import { useOrganizationSettings } from "@/hooks/use-organization-settings";
+import { getUserFriendlyErrorMessage } from "@/lib/errorHandler";
+import {
+  downloadAttendanceExport,
+  fetchAttendanceForExport,
+  type ExportFormat,
+  type ExportSessionType,
+} from "../services/attendanceExport";
+
+const STATUSES = ["Present", "Late", "Absent", "Missed", "Not Available"];
+const ALL = "all";
+
+type SessionChoice = ExportSessionType | typeof ALL;
+
+/**
+ * Button and dialog that export attendance for a date range as CSV or XLSX,
+ * optionally narrowed to one employee, session type or set of statuses.
+ */
+export const AttendanceExportDialog = ({
+  defaultDate,
+  defaultSessionType = ALL,
+  team = null,
+}: {
+  defaultDate: Date;
+  defaultSessionType?: SessionChoice;
+  // Limits the export to one team's members
+  team?: Team | null;
+}) => {
+  const { toast } = useToast();
+  const { timeZone } = useOrganizationSettings();
+  const [isOpen, setIsOpen] = useState(false);
+  const [range, setRange] = useState<DateRange | undefined>();
+  const [sessionType, setSessionType] =
+    useState<SessionChoice>(defaultSessionType);
+  const [employeeId, setEmployeeId] = useState<string>(ALL);
+  const [statuses, setStatuses] = useState<string[]>([]);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setRange({ from: defaultDate, to: defaultDate });
+  }, [isOpen, defaultDate]);
+
+  const { data: employees } = useQuery({
+    queryKey: ["exportEmployees"],
+    queryFn: async () => {
+      const snapshot = await getDocs(
+        query(collection(db, "employees"), where("archived", "!=", true))
+      );
+      return snapshot.docs
+        .map((d) => ({ id: d.id, name: (d.data().name as string) || d.id }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+    enabled: isOpen,
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+  const employeeOptions = (employees ?? []).filter(
+    (emp) => !team || team.memberIds.includes(emp.id)
+  );
+
+  const toggleStatus = (status: string, checked: boolean) => {
+    setStatuses((prev) =>
+      checked ? [...prev, status] : prev.filter((s) => s !== status)
+    );
+  };
+
+  const handleExport = async () => {
+    if (!range?.from) return;
+    const from = format(range.from, "yyyy-MM-dd");
+    const to = format(range.to ?? range.from, "yyyy-MM-dd");
+    setIsExporting(true);
+    try {
+      const rows = await fetchAttendanceForExport({
+        from,
+        to,
+        sessionTypes:
+          sessionType === ALL ? ["standups", "learning_hours"] : [sessionType],
+        employeeIds: employeeId === ALL ? [] : [employeeId],
+        statuses,
+        teamMemberIds: team?.memberIds,
+        timeZone,
+      });
+      if (rows.length === 0) {
+        toast({
+          title: "Nothing to Export",
+          description: "No attendance records match these filters.",
+        });
+        return;
+      }
+      await downloadAttendanceExport(
+        rows,
+        exportFormat,
+        from === to ? `attendance-${from}` : `attendance-${from}-to-${to}`
+      );
+      toast({
+        title: "Export Ready",
+        description: `Exported ${rows.length} attendance record(s).`,
+      });
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Attendance export failed:", error);
+      toast({
+        title: "Export Failed",
+        description: getUserFriendlyErrorMessage(
+          error,
+          "Failed to export attendance. Please try again."
+        ),
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setIsOpen(true)}>
+        <Download className="mr-2 h-4 w-4" />
+        Export
+      </Button>
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Export Attendance</DialogTitle>
+            <DialogDescription>
+              Download attendance records with the same columns as the sheet
+              sync{team ? ` for ${team.name}` : ""}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Date range</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start text-left font-normal"
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {range?.from ? (
+                      range.to &&
+                      range.to.getTime() !== range.from.getTime() ? (
+                        `${format(range.from, "PP")} – ${format(range.to, "PP")}`
+                      ) : (
+                        format(range.from, "PP")
+                      )
+                    ) : (
+                      <span>Pick a date range</span>
+                    )}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    selected={range}
+                    onSelect={setRange}
+                    numberOfMonths={2}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Session</Label>
+                <Select
+                  value={sessionType}
+                  onValueChange={(value) =>
+                    setSessionType(value as SessionChoice)
+                  }
+                >
+                  <SelectTrigger aria-label="Session type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Both</SelectItem>
+                    <SelectItem value="standups">Standups</SelectItem>
+                    <SelectItem value="learning_hours">
+                      Learning Hours
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <Select
+                  value={exportFormat}
+                  onValueChange={(value) =>
+                    setExportFormat(value as ExportFormat)
+                  }
+                >
+                  <SelectTrigger aria-label="File format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="csv">CSV</SelectItem>
+                    <SelectItem value="xlsx">Excel (XLSX)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Employee</Label>
+              <Select value={employeeId} onValueChange={setEmployeeId}>
+                <SelectTrigger aria-label="Employee">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All employees</SelectItem>
+                  {employeeOptions.map((emp) => (
+                    <SelectItem key={emp.id} value={emp.id}>
+                      {emp.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <p className="text-xs text-muted-foreground">
+                Leave all unchecked to include every status.
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {STATUSES.map((status) => (
+                  <div key={status} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`export-status-${status}`}
+                      checked={statuses.includes(status)}
+                      onCheckedChange={(checked) =>
+                        toggleStatus(status, checked === true)
+                      }
+                    />
+                    <Label
+                      htmlFor={`export-status-${status}`}
+                      className="font-normal"
+                    >
+                      {status}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsOpen(false)}
+              disabled={isExporting}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleExport}
+              disabled={isExporting || !range?.from}
+            >
+              {isExporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Download
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { History, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  AUDIT_SOURCE_LABELS,
+  useAttendanceHistory,
+  type AttendanceSessionType,
+} from "@/hooks/use-attendance-audit";
+
+/**
+ * Shows every recorded change to one employee's attendance for a session on
+ * one day. History is only fetched once the popover is opened.
+ */
+export const AttendanceHistoryPopover = ({
+  employeeId,
+  date,
+  sessionType,
+}: {
+  employeeId: string;
+  date: string; // yyyy-MM-dd
+  sessionType: AttendanceSessionType;
+}) => {
+  const [open, setOpen] = useState(false);
+  const { entries, isLoading } = useAttendanceHistory(
+    open ? employeeId : null,
+    date,
+    sessionType,
+  );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          aria-label="Attendance history"
+        >
+          <History className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="end">
+        <p className="text-sm font-semibold mb-3">Change History</p>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No changes recorded for this day.
+          </p>
+        ) : (
+          <ol className="space-y-3 max-h-72 overflow-y-auto">
+            {entries.map((entry) => (
+              <li key={entry.id} className="text-sm border-l-2 pl-3">
+                <p className="font-medium">
+                  {entry.oldStatus ?? "Not Marked"} → {entry.newStatus}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {AUDIT_SOURCE_LABELS[entry.source] ?? entry.source} ·{" "}
+                  {entry.actorName}
+                  {entry.createdAt &&
+                    ` · ${format(entry.createdAt.toDate(), "MMM d, h:mm a")}`}
+                </p>
+                {entry.reason && (
+                  <p className="text-xs text-muted-foreground break-words">
+                    {entry.reason}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
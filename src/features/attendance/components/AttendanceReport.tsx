@@ -1,18 +1,15 @@
 import { useEffect, useState, useCallback, useMemo } from "react";
-import { format, startOfDay } from "date-fns";
-import { db } from "@/integrations/firebase/client";
+import { format } from "date-fns";
+import { db, functions } from "@/integrations/firebase/client";
 import {
   collection,
   query,
   where,
   getDocs,
-  Timestamp,
-  writeBatch,
   doc,
   getDoc,
-  setDoc,
-  serverTimestamp,
 } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
 import { Button } from "@/components/ui/button";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Loader2, Search } from "lucide-react";
@@ -37,6 +34,10 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { cn } from "@/lib/utils";
 import { ReasonModal } from "./ReasonModal";
+import { getStandupDocId, type Team } from "@/hooks/use-teams";
+import { getUserFriendlyErrorMessage } from "@/lib/errorHandler";
+import { AttendanceHistoryPopover } from "./AttendanceHistoryPopover";
+import { AttendanceExportDialog } from "./AttendanceExportDialog";
 
 type Employee = {
   archived: boolean;
@@ -45,22 +46,38 @@ type Employee = {
   email: string;
   employeeId: string;
 };
-type AttendanceStatus = "Present" | "Absent" | "Missed" | "Not Available";
+type AttendanceStatus =
+  | "Present"
+  | "Late"
+  | "Absent"
+  | "Missed"
+  | "Not Available";
 type AttendanceRecord = {
   employee_id: string;
   status: AttendanceStatus;
   reason?: string;
+  minutes_late?: number;
 };
 type SessionType = "standups" | "learning_hours";
+// Payload of the editAttendanceForDate callable
+type EditAttendanceRequest = {
+  date: string;
+  sessionType: SessionType;
+  teamId?: string;
+  records: { employeeId: string; status: AttendanceStatus; reason?: string }[];
+};
 
 export const AttendanceReport = ({
   sessionType,
   selectedDate,
+  team = null,
 }: {
   sessionType: SessionType;
   selectedDate: Date;
+  // Limits the report to one team's members
+  team?: Team | null;
 }) => {
-  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [allEmployees, setEmployees] = useState<Employee[]>([]);
   const [attendance, setAttendance] = useState<
     Record<string, AttendanceRecord>
   >({});
@@ -70,6 +87,7 @@ export const AttendanceReport = ({
     {}
   );
   const [isSaving, setIsSaving] = useState(false);
+  const [needsResync, setNeedsResync] = useState(false);
   const { toast } = useToast();
 
   const [editingReasonFor, setEditingReasonFor] = useState<Employee | null>(
@@ -81,6 +99,14 @@ export const AttendanceReport = ({
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [searchQuery, setSearchQuery] = useState("");
 
+  const employees = useMemo(
+    () =>
+      team
+        ? allEmployees.filter((emp) => team.memberIds.includes(emp.id))
+        : allEmployees,
+    [allEmployees, team]
+  );
+
   const filteredEmployees = useMemo(() => {
     if (!searchQuery) return employees;
     const lowerQuery = searchQuery.toLowerCase();
@@ -109,7 +135,7 @@ export const AttendanceReport = ({
     async (date: Date) => {
       setLoading(true);
       try {
-        if (employees.length === 0) {
+        if (allEmployees.length === 0) {
           const empSnap = await getDocs(
             query(collection(db, "employees"), where("archived", "!=", true))
           );
@@ -130,7 +156,20 @@ export const AttendanceReport = ({
           collection(db, collectionName),
           where(idField, "==", sessionId)
         );
-        const attSnap = await getDocs(q);
+        const [attSnap, sessionSnap] = await Promise.all([
+          getDocs(q),
+          getDoc(
+            doc(
+              db,
+              sessionType,
+              sessionType === "standups"
+                ? getStandupDocId(sessionId, team?.id)
+                : sessionId
+            )
+          ),
+        ]);
+        // Set once an edit changes attendance that was already synced
+        setNeedsResync(sessionSnap.data()?.needsResync === true);
         const map: Record<string, AttendanceRecord> = {};
         const reasons: Record<string, string> = {};
         attSnap.forEach((d) => {
@@ -149,7 +188,7 @@ export const AttendanceReport = ({
         setLoading(false);
       }
     },
-    [employees.length, toast, sessionType]
+    [allEmployees.length, toast, sessionType, team?.id]
   );
 
   useEffect(() => {
@@ -168,58 +207,39 @@ export const AttendanceReport = ({
 
   const handleSave = async () => {
     setIsSaving(true);
-    const sessionId = format(selectedDate, "yyyy-MM-dd");
-    const sessionRef = doc(db, sessionType, sessionId);
-    const attendanceCollectionName =
-      sessionType === "standups" ? "attendance" : "learning_hours_attendance";
-    const idField =
-      sessionType === "standups" ? "standup_id" : "learning_hour_id";
-
     try {
-      const sessionSnap = await getDoc(sessionRef);
-      let sessionTimestamp: Timestamp;
-
-      if (sessionSnap.exists()) {
-        sessionTimestamp = sessionSnap.data().scheduledTime as Timestamp;
-      } else {
-        sessionTimestamp = Timestamp.fromDate(startOfDay(selectedDate));
-        await setDoc(sessionRef, {
-          scheduledTime: sessionTimestamp,
-          status: "ended",
-          scheduledBy: "Admin (Manual Edit)",
-        });
-      }
-
-      const batch = writeBatch(db);
-      employees.forEach((emp) => {
-        const attRef = doc(
-          db,
-          attendanceCollectionName,
-          `${sessionId}_${emp.id}`
-        );
-        const status = editedAtt[emp.id];
-        const record: any = {
-          [idField]: sessionId,
-          employee_id: emp.id,
-          employee_name: emp.name,
-          employeeId: emp.employeeId,
-          employee_email: emp.email,
-          status: status,
-          scheduled_at: sessionTimestamp,
-          markedAt: serverTimestamp(),
-        };
-        if (status === "Not Available") {
-          record.reason = editedReasons[emp.id] || "No reason provided";
-        }
-        batch.set(attRef, record, { merge: true });
+      const editAttendanceForDate = httpsCallable<
+        EditAttendanceRequest,
+        { message: string; needsResync: boolean }
+      >(functions, "editAttendanceForDate");
+      const result = await editAttendanceForDate({
+        date: format(selectedDate, "yyyy-MM-dd"),
+        sessionType,
+        ...(sessionType === "standups" && team ? { teamId: team.id } : {}),
+        records: employees.map((emp) => {
+          const status = editedAtt[emp.id] || "Missed";
+          return {
+            employeeId: emp.id,
+            status,
+            ...(status === "Not Available"
+              ? { reason: editedReasons[emp.id] || "No reason provided" }
+              : {}),
+          };
+        }),
+      });
+      toast({
+        title: "Attendance saved successfully.",
+        description: result.data.message,
       });
-      await batch.commit();
-      toast({ title: "Attendance saved successfully." });
       setEditing(false);
       fetchData(selectedDate);
     } catch (error) {
       console.error(error);
-      toast({ title: "Failed to save attendance.", variant: "destructive" });
+      toast({
+        title: "Failed to save attendance.",
+        description: getUserFriendlyErrorMessage(error),
+        variant: "destructive",
+      });
     } finally {
       setIsSaving(false);
     }
@@ -235,6 +255,8 @@ export const AttendanceReport = ({
     switch (status) {
       case "Present":
         return "bg-green-100 text-green-800 border-green-300";
+      case "Late":
+        return "bg-blue-100 text-blue-800 border-blue-300";
       case "Absent":
         return "bg-yellow-100 text-yellow-800 border-yellow-300";
       case "Missed":
@@ -249,6 +271,7 @@ export const AttendanceReport = ({
   const dailyStats = useMemo(() => {
     const sourceData = editing ? editedAtt : attendance;
     let present = 0,
+      late = 0,
       absent = 0,
       missed = 0,
       notAvailable = 0;
@@ -263,6 +286,9 @@ export const AttendanceReport = ({
         case "Present":
           present++;
           break;
+        case "Late":
+          late++;
+          break;
         case "Absent":
           absent++;
           break;
@@ -278,7 +304,7 @@ export const AttendanceReport = ({
       }
     });
 
-    return { present, absent, missed, notAvailable };
+    return { present, late, absent, missed, notAvailable };
   }, [attendance, editing, editedAtt, employees]);
 
   return (
@@ -292,10 +318,15 @@ export const AttendanceReport = ({
       <Card className="flex flex-col">
         <CardHeader className="flex-row items-center justify-between">
           <div>
-            <CardTitle className="text-xl">
+            <CardTitle className="text-xl flex items-center gap-2">
               {sessionType === "standups"
                 ? "Standup Report"
                 : "Learning Session Report"}
+              {needsResync && !loading && (
+                <Badge variant="secondary" className="font-normal">
+                  Needs re-sync
+                </Badge>
+              )}
             </CardTitle>
           </div>
           <div className="flex gap-2 items-center">
@@ -317,9 +348,16 @@ export const AttendanceReport = ({
                 </Button>
               </>
             ) : (
-              <Button onClick={handleEdit} disabled={isSaving}>
-                Edit
-              </Button>
+              <>
+                <AttendanceExportDialog
+                  defaultDate={selectedDate}
+                  defaultSessionType={sessionType}
+                  team={team}
+                />
+                <Button onClick={handleEdit} disabled={isSaving}>
+                  Edit
+                </Button>
+              </>
             )}
           </div>
         </CardHeader>
@@ -330,13 +368,19 @@ export const AttendanceReport = ({
             </div>
           ) : (
             <>
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
                 <Card className="p-3">
                   <p className="text-sm font-medium text-muted-foreground">
                     Present
                   </p>
                   <p className="text-2xl font-bold">{dailyStats.present}</p>
                 </Card>
+                <Card className="p-3">
+                  <p className="text-sm font-medium text-muted-foreground">
+                    Late
+                  </p>
+                  <p className="text-2xl font-bold">{dailyStats.late}</p>
+                </Card>
                 <Card className="p-3">
                   <p className="text-sm font-medium text-muted-foreground">
                     Absent
@@ -480,6 +524,9 @@ export const AttendanceReport = ({
                               </SelectTrigger>
                               <SelectContent>
                                 <SelectItem value="Present">Present</SelectItem>
+                                {sessionType === "standups" && (
+                                  <SelectItem value="Late">Late</SelectItem>
+                                )}
                                 <SelectItem value="Absent">Absent</SelectItem>
                                 <SelectItem value="Missed">Missed</SelectItem>
                                 <SelectItem value="Not Available">
@@ -488,17 +535,27 @@ export const AttendanceReport = ({
                               </SelectContent>
                             </Select>
                           ) : (
-                            <Badge
-                              variant="outline"
-                              className={cn(
-                                "text-sm",
-                                getBadgeStyle(attendance[emp.id]?.status)
-                              )}
-                            >
-                              {attendance[emp.id]?.status === "Not Available"
-                                ? "N/A"
-                                : attendance[emp.id]?.status || "Not Marked"}
-                            </Badge>
+                            <div className="flex items-center gap-1">
+                              <Badge
+                                variant="outline"
+                                className={cn(
+                                  "text-sm",
+                                  getBadgeStyle(attendance[emp.id]?.status)
+                                )}
+                              >
+                                {attendance[emp.id]?.status === "Not Available"
+                                  ? "N/A"
+                                  : attendance[emp.id]?.status === "Late" &&
+                                    attendance[emp.id]?.minutes_late != null
+                                  ? `Late (${attendance[emp.id].minutes_late}m)`
+                                  : attendance[emp.id]?.status || "Not Marked"}
+                              </Badge>
+                              <AttendanceHistoryPopover
+                                employeeId={emp.id}
+                                date={format(selectedDate, "yyyy-MM-dd")}
+                                sessionType={sessionType}
+                              />
+                            </div>
                           )}
                         </TableCell>
                       </TableRow>
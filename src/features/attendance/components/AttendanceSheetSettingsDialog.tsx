@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { Loader2, Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { getUserFriendlyErrorMessage } from "@/lib/errorHandler";
+import {
+  ATTENDANCE_SHEET_FIELDS,
+  DEFAULT_ATTENDANCE_SHEET_CONFIG,
+  useAttendanceSheetConfig,
+  validateAttendanceSheetConfig,
+  type AttendanceSheetConfig,
+  type AttendanceSheetField,
+} from "../hooks/useAttendanceSheetConfig";
+
+/**
+ * Button and dialog for the tab each session type syncs to and the column
+ * header each attendance field is written under.
+ */
+export const AttendanceSheetSettingsDialog = ({
+  disabled = false,
+}: {
+  disabled?: boolean;
+}) => {
+  const { toast } = useToast();
+  const { config, isLoading, isChecking, saveConfig, checkConfig } =
+    useAttendanceSheetConfig();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [draft, setDraft] = useState<AttendanceSheetConfig>(
+    DEFAULT_ATTENDANCE_SHEET_CONFIG,
+  );
+  const validationError = validateAttendanceSheetConfig(draft);
+
+  const handleOpen = () => {
+    setDraft(config ?? DEFAULT_ATTENDANCE_SHEET_CONFIG);
+    setIsOpen(true);
+  };
+
+  const headerFor = (field: AttendanceSheetField) =>
+    draft.columns.find((c) => c.field === field)?.header;
+
+  const toggleField = (
+    field: AttendanceSheetField,
+    label: string,
+    checked: boolean,
+  ) => {
+    setDraft((prev) => ({
+      ...prev,
+      // Kept in field order so the saved mapping reads like the sheet
+      columns: checked
+        ? ATTENDANCE_SHEET_FIELDS.filter(
+            (f) =>
+              f.field === field ||
+              prev.columns.some((c) => c.field === f.field),
+          ).map(
+            (f) =>
+              prev.columns.find((c) => c.field === f.field) ?? {
+                field,
+                header: label,
+              },
+          )
+        : prev.columns.filter((c) => c.field !== field),
+    }));
+  };
+
+  const setHeader = (field: AttendanceSheetField, header: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      columns: prev.columns.map((c) =>
+        c.field === field ? { ...c, header } : c,
+      ),
+    }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveConfig(draft);
+      toast({
+        title: "Sheet Settings Saved",
+        description: "Future syncs will use these tabs and columns.",
+      });
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Error saving sheet settings:", error);
+      toast({
+        title: "Save Failed",
+        description: getUserFriendlyErrorMessage(
+          error,
+          "Could not save the sheet settings.",
+        ),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={handleOpen}
+        disabled={disabled || isLoading}
+        aria-label="Sheet settings"
+        className="shrink-0"
+      >
+        <Settings2 className="h-4 w-4" />
+      </Button>
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Sheet Sync Settings</DialogTitle>
+            <DialogDescription>
+              Choose the tab each session type syncs to and the header of the
+              column each field is written under. Headers are matched in the
+              tab&apos;s first row, so columns can be in any order.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2 max-h-[60vh] overflow-y-auto">
+            {!config && (
+              <p className="text-sm text-muted-foreground">
+                Not configured yet: syncs currently write to the first tab for
+                standups and the second for learning hours.
+              </p>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sheet-tab-standups">Standups tab</Label>
+                <Input
+                  id="sheet-tab-standups"
+                  value={draft.tabs.standups}
+                  onChange={(e) =>
+                    setDraft((prev) => ({
+                      ...prev,
+                      tabs: { ...prev.tabs, standups: e.target.value },
+                    }))
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sheet-tab-learning-hours">
+                  Learning hours tab
+                </Label>
+                <Input
+                  id="sheet-tab-learning-hours"
+                  value={draft.tabs.learning_hours}
+                  onChange={(e) =>
+                    setDraft((prev) => ({
+                      ...prev,
+                      tabs: { ...prev.tabs, learning_hours: e.target.value },
+                    }))
+                  }
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Columns</Label>
+              {ATTENDANCE_SHEET_FIELDS.map((f) => {
+                const header = headerFor(f.field);
+                return (
+                  <div key={f.field} className="flex items-center gap-3">
+                    <Checkbox
+                      id={`sheet-field-${f.field}`}
+                      checked={header !== undefined}
+                      disabled={"required" in f}
+                      onCheckedChange={(checked) =>
+                        toggleField(f.field, f.label, checked === true)
+                      }
+                    />
+                    <Label
+                      htmlFor={`sheet-field-${f.field}`}
+                      className="w-32 shrink-0 font-normal"
+                    >
+                      {f.label}
+                    </Label>
+                    <Input
+                      value={header ?? ""}
+                      disabled={header === undefined}
+                      placeholder="Not synced"
+                      aria-label={`${f.label} column header`}
+                      onChange={(e) => setHeader(f.field, e.target.value)}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+            {validationError && (
+              <p className="text-sm text-destructive">{validationError}</p>
+            )}
+          </div>
+          <DialogFooter className="gap-2">
+            <Button
+              variant="outline"
+              onClick={() => checkConfig(draft)}
+              disabled={!!validationError || isChecking}
+            >
+              {isChecking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Check Sheet
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!!validationError || isSaving}
+            >
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  CorrectableStatus,
+  CorrectionDraft,
+  CorrectionSessionType,
+} from "../hooks/useAttendanceCorrections";
+import { AttendanceHistoryPopover } from "./AttendanceHistoryPopover";
+
+const SESSION_LABELS: Record<CorrectionSessionType, string> = {
+  standups: "Standup",
+  learning_hours: "Learning Hour",
+};
+
+/**
+ * Lets an employee dispute their standup or learning hour record for one day.
+ * Only sessions with a record on that day can be disputed; the record's change
+ * history is one click away. Render it keyed by date so each day opens with a
+ * fresh form.
+ */
+export const CorrectionRequestDialog = ({
+  employeeId,
+  date,
+  statuses,
+  isSaving,
+  onClose,
+  onSubmit,
+}: {
+  employeeId: string;
+  date: string | null; // yyyy-MM-dd; the dialog is open while set
+  statuses: Partial<Record<CorrectionSessionType, string>>;
+  isSaving: boolean;
+  onClose: () => void;
+  onSubmit: (draft: CorrectionDraft) => Promise<boolean>;
+}) => {
+  const sessions = (
+    Object.keys(SESSION_LABELS) as CorrectionSessionType[]
+  ).filter((s) => statuses[s]);
+  const [sessionType, setSessionType] = useState<CorrectionSessionType>(
+    sessions[0] ?? "standups",
+  );
+  const [requestedStatus, setRequestedStatus] =
+    useState<CorrectableStatus>("Present");
+  const [reason, setReason] = useState("");
+
+  if (!date) return null;
+
+  const currentStatus = statuses[sessionType];
+  // Learning hours do not record late arrivals
+  const statusOptions = (
+    ["Present", "Late", "Not Available"] as CorrectableStatus[]
+  ).filter(
+    (s) => s !== currentStatus && (s !== "Late" || sessionType === "standups"),
+  );
+
+  const handleSubmit = async () => {
+    const saved = await onSubmit({
+      sessionType,
+      date,
+      requestedStatus,
+      reason,
+    });
+    if (saved) onClose();
+  };
+
+  return (
+    <Dialog open={!!date} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Request Correction</DialogTitle>
+          <DialogDescription>
+            {format(parseISO(date), "EEEE, MMMM d, yyyy")}. An admin will review
+            your request before the record changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="correction-session">Session</Label>
+              <Select
+                value={sessionType}
+                onValueChange={(value) => {
+                  setSessionType(value as CorrectionSessionType);
+                  setRequestedStatus("Present");
+                }}
+              >
+                <SelectTrigger id="correction-session">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sessions.map((s) => (
+                    <SelectItem key={s} value={s}>
+                      {SESSION_LABELS[s]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="correction-status">Should be</Label>
+              <Select
+                value={requestedStatus}
+                onValueChange={(value) =>
+                  setRequestedStatus(value as CorrectableStatus)
+                }
+              >
+                <SelectTrigger id="correction-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {statusOptions.map((s) => (
+                    <SelectItem key={s} value={s}>
+                      {s}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              Currently marked{" "}
+              <span className="font-semibold text-foreground">
+                {currentStatus}
+              </span>
+              .
+            </p>
+            <AttendanceHistoryPopover
+              employeeId={employeeId}
+              date={date}
+              sessionType={sessionType}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="correction-reason">Reason</Label>
+            <Textarea
+              id="correction-reason"
+              placeholder="e.g., I joined on time but the check-in code had expired..."
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={1000}
+              className="min-h-[100px] resize-none"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSaving || !reason.trim() || !currentStatus}
+          >
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Send Request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Check, ClipboardCheck, Loader2, X } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  useAttendanceCorrections,
+  type AttendanceCorrection,
+} from "../hooks/useAttendanceCorrections";
+
+// Reviewed requests stay as history; only the latest few are listed here
+const REVIEWED_HISTORY_LIMIT = 10;
+
+const describeCorrection = (correction: AttendanceCorrection) =>
+  `${format(parseISO(correction.date), "MMM d, yyyy")} · ${
+    correction.sessionType === "standups" ? "Standup" : "Learning Hour"
+  } · ${correction.currentStatus} → ${correction.requestedStatus}`;
+
+/**
+ * Admin queue of attendance corrections filed by employees. Approving one
+ * rewrites the attendance record on the server.
+ */
+export const CorrectionReviewQueue = () => {
+  const { corrections, isLoading, isSaving, reviewCorrection } =
+    useAttendanceCorrections();
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const pending = corrections.filter((c) => c.status === "pending");
+  const reviewed = corrections
+    .filter((c) => c.status !== "pending")
+    .slice(0, REVIEWED_HISTORY_LIMIT);
+
+  const handleReview = async (
+    correction: AttendanceCorrection,
+    decision: "approved" | "rejected",
+  ) => {
+    setReviewingId(correction.id);
+    await reviewCorrection(correction.id, decision, notes[correction.id]);
+    setReviewingId(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5 text-muted-foreground" />
+          <CardTitle>Correction Requests</CardTitle>
+          {pending.length > 0 && (
+            <Badge variant="secondary">{pending.length} pending</Badge>
+          )}
+        </div>
+        <CardDescription>
+          Employees dispute their records from their attendance calendar.
+          Approving a request updates the record.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : pending.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-4">
+            No corrections are waiting for review.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {pending.map((correction) => (
+              <div
+                key={correction.id}
+                className="rounded-lg border border-border/50 p-4 space-y-3"
+              >
+                <div>
+                  <p className="font-semibold text-foreground">
+                    {correction.employeeName}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {describeCorrection(correction)}
+                  </p>
+                  <p className="text-sm text-foreground mt-1 break-words">
+                    {correction.reason}
+                  </p>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    placeholder="Note for the employee (optional)"
+                    value={notes[correction.id] ?? ""}
+                    onChange={(e) =>
+                      setNotes((prev) => ({
+                        ...prev,
+                        [correction.id]: e.target.value,
+                      }))
+                    }
+                    maxLength={1000}
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={() => handleReview(correction, "approved")}
+                      disabled={isSaving}
+                    >
+                      {reviewingId === correction.id ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Check className="mr-2 h-4 w-4" />
+                      )}
+                      Approve
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleReview(correction, "rejected")}
+                      disabled={isSaving}
+                    >
+                      <X className="mr-2 h-4 w-4" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {reviewed.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-semibold text-foreground">
+              Recently reviewed
+            </p>
+            {reviewed.map((correction) => (
+              <div
+                key={correction.id}
+                className="flex items-center justify-between gap-4 text-sm"
+              >
+                <span className="text-muted-foreground truncate">
+                  {correction.employeeName} · {describeCorrection(correction)}
+                </span>
+                <Badge
+                  variant={
+                    correction.status === "approved" ? "default" : "destructive"
+                  }
+                  className="capitalize"
+                >
+                  {correction.status}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
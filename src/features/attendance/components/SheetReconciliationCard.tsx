@@ -0,0 +1,281 @@
+import { useEffect, useState } from "react";
+import { format, parseISO, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import {
+  ArrowRight,
+  Calendar as CalendarIcon,
+  GitCompare,
+  Loader2,
+} from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  useSheetReconciliation,
+  type AttendanceValues,
+  type ReconcileSessionType,
+} from "../hooks/useSheetReconciliation";
+
+const describeValues = (values: AttendanceValues | null) => {
+  if (!values) return "No record";
+  const details = [
+    values.minutesLate !== null && `${values.minutesLate} min late`,
+    values.reason,
+  ].filter(Boolean);
+  return details.length > 0
+    ? `${values.status} (${details.join(", ")})`
+    : values.status;
+};
+
+/**
+ * Admin review of fixes made directly in the attendance sheet. Differences
+ * from Firestore are listed for a date range and only the accepted ones are
+ * written back, each with an audit entry, so the next sync keeps them.
+ */
+export const SheetReconciliationCard = () => {
+  const { result, isComparing, isApplying, compare, apply } =
+    useSheetReconciliation();
+  const [range, setRange] = useState<DateRange | undefined>({
+    from: subDays(new Date(), 6),
+    to: new Date(),
+  });
+  const [sessionType, setSessionType] =
+    useState<ReconcileSessionType>("standups");
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+
+  const applicable = (result?.differences ?? []).filter((d) => !d.problem);
+
+  // Every applicable difference starts accepted; the admin unticks the rest
+  useEffect(() => {
+    setAccepted(
+      new Set(
+        (result?.differences ?? []).filter((d) => !d.problem).map((d) => d.id),
+      ),
+    );
+  }, [result]);
+
+  const toggle = (id: string, checked: boolean) => {
+    setAccepted((prev) => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const handleCompare = () => {
+    if (!range?.from) return;
+    compare({
+      from: format(range.from, "yyyy-MM-dd"),
+      to: format(range.to ?? range.from, "yyyy-MM-dd"),
+      sessionType,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5 text-muted-foreground" />
+            <CardTitle>Sheet Reconciliation</CardTitle>
+          </div>
+          <CardDescription>
+            Bring fixes made directly in the attendance sheet back into the app
+            before the next sync replaces them.
+          </CardDescription>
+        </div>
+        <div className="flex flex-col sm:flex-row items-center gap-2">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                className="w-full sm:w-[260px] justify-start text-left font-normal"
+              >
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {range?.from ? (
+                  `${format(range.from, "PP")} – ${format(
+                    range.to ?? range.from,
+                    "PP",
+                  )}`
+                ) : (
+                  <span>Pick a date range</span>
+                )}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar
+                mode="range"
+                selected={range}
+                onSelect={setRange}
+                numberOfMonths={2}
+                disabled={{ after: new Date() }}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          <Select
+            value={sessionType}
+            onValueChange={(value) =>
+              setSessionType(value as ReconcileSessionType)
+            }
+          >
+            <SelectTrigger
+              className="w-full sm:w-[160px]"
+              aria-label="Session type"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="standups">Standups</SelectItem>
+              <SelectItem value="learning_hours">Learning Hours</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={handleCompare}
+            disabled={isComparing || isApplying || !range?.from}
+            className="w-full sm:w-auto"
+          >
+            {isComparing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Compare
+          </Button>
+        </div>
+      </CardHeader>
+      {result && (
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              {format(parseISO(result.range.from), "MMM d")} –{" "}
+              {format(parseISO(result.range.to), "MMM d")}:{" "}
+              {result.differences.length} difference(s), {result.matched}{" "}
+              matching
+              {result.firestoreOnly > 0 &&
+                `, ${result.firestoreOnly} not in the sheet yet (the next sync adds them)`}
+            </p>
+            {result.differences.length > 0 && (
+              <Button
+                onClick={() => apply(Array.from(accepted))}
+                disabled={isApplying || accepted.size === 0}
+              >
+                {isApplying && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Apply {accepted.size} Change(s)
+              </Button>
+            )}
+          </div>
+          {result.differences.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-4">
+              The sheet matches the app for this range.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      aria-label="Accept all"
+                      checked={
+                        applicable.length > 0 &&
+                        accepted.size === applicable.length
+                      }
+                      onCheckedChange={(checked) =>
+                        setAccepted(
+                          checked === true
+                            ? new Set(applicable.map((d) => d.id))
+                            : new Set(),
+                        )
+                      }
+                    />
+                  </TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>In the app</TableHead>
+                  <TableHead />
+                  <TableHead>In the sheet</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.differences.map((difference) => (
+                  <TableRow key={difference.id}>
+                    <TableCell>
+                      <Checkbox
+                        aria-label={`Accept ${difference.employeeName}`}
+                        checked={accepted.has(difference.id)}
+                        disabled={!!difference.problem}
+                        onCheckedChange={(checked) =>
+                          toggle(difference.id, checked === true)
+                        }
+                      />
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {format(parseISO(difference.date), "MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-medium">
+                        {difference.employeeName || "—"}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {difference.employeeId}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {describeValues(difference.firestore)}
+                    </TableCell>
+                    <TableCell>
+                      <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap items-center gap-2">
+                        {describeValues(difference.sheet)}
+                        {difference.kind === "sheet-only" && (
+                          <Badge variant="secondary">Added in sheet</Badge>
+                        )}
+                      </div>
+                      {difference.problem && (
+                        <p className="text-xs text-destructive mt-1">
+                          {difference.problem}
+                        </p>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
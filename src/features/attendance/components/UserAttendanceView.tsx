@@ -39,11 +39,19 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils"; // Assuming you have a cn utility from shadcn
+import { useAttendanceCorrections } from "../hooks/useAttendanceCorrections";
+import { CorrectionRequestDialog } from "./CorrectionRequestDialog";
 
 // --- Types and Helper Data ---
 
-type AttendanceStatus = "Present" | "Absent" | "Missed" | "Not Available";
+type AttendanceStatus =
+  | "Present"
+  | "Late"
+  | "Absent"
+  | "Missed"
+  | "Not Available";
 type DailyCombinedStatus = {
   standup?: AttendanceStatus;
   learning?: AttendanceStatus;
@@ -54,6 +62,8 @@ const getStatusClass = (s?: AttendanceStatus) => {
   switch (s) {
     case "Present":
       return "text-green-500";
+    case "Late":
+      return "text-blue-500";
     case "Absent":
       return "text-yellow-500";
     case "Missed":
@@ -69,6 +79,8 @@ const getStatusLabel = (s?: AttendanceStatus) => {
   switch (s) {
     case "Present":
       return "Present";
+    case "Late":
+      return "Late";
     case "Absent":
       return "Absent";
     case "Missed":
@@ -89,7 +101,10 @@ export const UserAttendanceView = ({ userId }: { userId: string }) => {
     Record<string, DailyCombinedStatus>
   >({});
   const [loading, setLoading] = useState(true);
+  const [correctionDate, setCorrectionDate] = useState<string | null>(null);
   const { toast } = useToast();
+  const { corrections, isSaving, requestCorrection } =
+    useAttendanceCorrections(userId);
 
   const fetchAllData = useCallback(async () => {
     if (!userId) {
@@ -141,8 +156,8 @@ export const UserAttendanceView = ({ userId }: { userId: string }) => {
 
   const monthlyStats = useMemo(() => {
     const stats = {
-      standup: { present: 0, missed: 0, absent: 0, notAvailable: 0 },
-      learning: { present: 0, missed: 0, absent: 0, notAvailable: 0 },
+      standup: { present: 0, late: 0, missed: 0, absent: 0, notAvailable: 0 },
+      learning: { present: 0, late: 0, missed: 0, absent: 0, notAvailable: 0 },
     };
 
     Object.entries(allAttendance).forEach(([dateStr, statuses]) => {
@@ -151,6 +166,7 @@ export const UserAttendanceView = ({ userId }: { userId: string }) => {
         if (isSameMonth(date, month) && !isSunday(date)) {
           // Standup stats
           if (statuses.standup === "Present") stats.standup.present++;
+          else if (statuses.standup === "Late") stats.standup.late++;
           else if (statuses.standup === "Missed") stats.standup.missed++;
           else if (statuses.standup === "Absent") stats.standup.absent++;
           else if (statuses.standup === "Not Available")
@@ -158,6 +174,7 @@ export const UserAttendanceView = ({ userId }: { userId: string }) => {
 
           // Learning Hour stats
           if (statuses.learning === "Present") stats.learning.present++;
+          else if (statuses.learning === "Late") stats.learning.late++;
           else if (statuses.learning === "Missed") stats.learning.missed++;
           else if (statuses.learning === "Absent") stats.learning.absent++;
           else if (statuses.learning === "Not Available")
@@ -197,18 +214,21 @@ export const UserAttendanceView = ({ userId }: { userId: string }) => {
     title: string;
     stats: {
       present: number;
+      late: number;
       missed: number;
       absent: number;
       notAvailable: number;
     };
     icon: React.ReactNode;
   }) => {
-    const considered = stats.present + stats.missed;
+    // Late still counts as attended
+    const attended = stats.present + stats.late;
+    const considered = attended + stats.missed;
     const totalConducted = considered + stats.absent + stats.notAvailable;
     const percentage =
       considered > 0
         ? Math.round(
-            ((stats.present + stats.absent + stats.notAvailable) /
+            ((attended + stats.absent + stats.notAvailable) /
               totalConducted) *
               100
           )
@@ -238,6 +258,9 @@ export const UserAttendanceView = ({ userId }: { userId: string }) => {
             <p>
               Present: <span className="font-bold">{stats.present}</span>
             </p>
+            <p>
+              Late: <span className="font-bold">{stats.late}</span>
+            </p>
             <p>
               Missed: <span className="font-bold">{stats.missed}</span>
             </p>
@@ -272,12 +295,15 @@ export const UserAttendanceView = ({ userId }: { userId: string }) => {
     const isCurrentMonth = isSameMonth(date, month);
     const isTodayDate = isToday(date);
     const isSundayDate = isSunday(date);
+    // Any marked entry can be disputed
+    const canRequestCorrection = !!(status?.standup || status?.learning);
 
     return (
       <TooltipProvider delayDuration={100}>
         <Tooltip>
           <TooltipTrigger asChild>
             <div
+              onClick={() => canRequestCorrection && setCorrectionDate(dateKey)}
               className={cn(
                 "relative h-16 w-full flex flex-col items-center justify-center rounded-lg cursor-pointer transition-colors",
                 "hover:bg-accent hover:text-accent-foreground",
@@ -327,6 +353,11 @@ export const UserAttendanceView = ({ userId }: { userId: string }) => {
               ) : (
                 <p className="font-medium text-red-500">Sunday (Off-day)</p>
               )}
+              {canRequestCorrection && (
+                <p className="text-xs text-muted-foreground pt-1">
+                  Click to see history or request a correction
+                </p>
+              )}
             </div>
           </TooltipContent>
         </Tooltip>
@@ -337,6 +368,7 @@ export const UserAttendanceView = ({ userId }: { userId: string }) => {
   const Legend = () => {
     const legendItems: Array<{ status?: AttendanceStatus; label: string }> = [
       { status: "Present", label: "Present" },
+      { status: "Late", label: "Late" },
       { status: "Absent", label: "Absent" },
       { status: "Missed", label: "Missed" },
       { status: "Not Available", label: "N/A" },
@@ -541,6 +573,72 @@ export const UserAttendanceView = ({ userId }: { userId: string }) => {
           <Legend />
         </CardContent>
       </Card>
+
+      {corrections.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Correction Requests</CardTitle>
+            <CardDescription>
+              Corrections you have asked an admin to make.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {corrections.map((correction) => (
+              <div
+                key={correction.id}
+                className="flex items-start justify-between gap-4 rounded-lg border border-border/50 p-3"
+              >
+                <div className="min-w-0 text-sm">
+                  <p className="font-medium text-foreground">
+                    {format(parseISO(correction.date), "MMM d, yyyy")} ·{" "}
+                    {correction.sessionType === "standups"
+                      ? "Standup"
+                      : "Learning Hour"}{" "}
+                    · {correction.currentStatus} → {correction.requestedStatus}
+                  </p>
+                  <p className="text-muted-foreground break-words">
+                    {correction.reason}
+                  </p>
+                  {correction.reviewNote && (
+                    <p className="text-muted-foreground break-words">
+                      Reviewer: {correction.reviewNote}
+                    </p>
+                  )}
+                </div>
+                <Badge
+                  variant={
+                    correction.status === "approved"
+                      ? "default"
+                      : correction.status === "rejected"
+                      ? "destructive"
+                      : "secondary"
+                  }
+                  className="capitalize"
+                >
+                  {correction.status}
+                </Badge>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <CorrectionRequestDialog
+        key={correctionDate ?? "closed"}
+        employeeId={userId}
+        date={correctionDate}
+        statuses={{
+          standups: correctionDate
+            ? allAttendance[correctionDate]?.standup
+            : undefined,
+          learning_hours: correctionDate
+            ? allAttendance[correctionDate]?.learning
+            : undefined,
+        }}
+        isSaving={isSaving}
+        onClose={() => setCorrectionDate(null)}
+        onSubmit={requestCorrection}
+      />
     </motion.div>
   );
 };
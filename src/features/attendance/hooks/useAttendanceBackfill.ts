@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import {
+  collection,
+  onSnapshot,
+  query,
+  Timestamp,
+  where,
+} from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/integrations/firebase/client";
+import { useToast } from "@/components/ui/use-toast";
+import { formatErrorForDisplay } from "@/lib/errorHandler";
+
+export type BackfillSessionType = "standups" | "learning_hours";
+export type BackfillStatus = "queued" | "running" | "completed" | "failed";
+
+// Stored in `syncJobs`; created and advanced only by the backfill functions
+export interface AttendanceBackfillJob {
+  id: string;
+  type: "attendance-backfill";
+  status: BackfillStatus;
+  from: string; // yyyy-MM-dd
+  to: string; // yyyy-MM-dd
+  sessionTypes: BackfillSessionType[];
+  teamId: string | null;
+  nextDate: string | null;
+  completedDays: number;
+  totalDays: number;
+  lastError: string | null;
+  createdByName: string;
+  createdAt?: Timestamp;
+  completedAt?: Timestamp;
+}
+
+export interface BackfillRequest {
+  from: string;
+  to: string;
+  sessionTypes: BackfillSessionType[];
+  teamId?: string;
+}
+
+type BackfillResponse = {
+  success: boolean;
+  jobId: string;
+  status: BackfillStatus;
+};
+
+// A run keeps the callable open for up to the function's 540s timeout
+const BACKFILL_CALL_TIMEOUT_MS = 550 * 1000;
+
+/**
+ * Watches the most recent attendance backfill and starts or resumes one. The
+ * job document carries the progress, so it stays live while a run is going.
+ */
+export const useAttendanceBackfill = () => {
+  const { toast } = useToast();
+  const [latestJob, setLatestJob] = useState<AttendanceBackfillJob | null>(
+    null,
+  );
+  const [isCalling, setIsCalling] = useState(false);
+
+  useEffect(() => {
+    // Equality filter only, so no composite index is needed; backfills are
+    // rare enough to sort in memory
+    const jobsQuery = query(
+      collection(db, "syncJobs"),
+      where("type", "==", "attendance-backfill"),
+    );
+    const unsubscribe = onSnapshot(
+      jobsQuery,
+      (snapshot) => {
+        const job = snapshot.docs
+          .map((d) => ({ ...(d.data() as AttendanceBackfillJob), id: d.id }))
+          .sort(
+            (a, b) =>
+              (b.createdAt?.toMillis() ?? 0) - (a.createdAt?.toMillis() ?? 0),
+          )[0];
+        setLatestJob(job ?? null);
+      },
+      (error) => console.error("Error watching backfill jobs:", error),
+    );
+    return () => unsubscribe();
+  }, []);
+
+  const runCallable = async (
+    name: "startAttendanceBackfill" | "resumeAttendanceBackfill",
+    payload: BackfillRequest | { jobId: string },
+  ) => {
+    setIsCalling(true);
+    try {
+      const callable = httpsCallable<typeof payload, BackfillResponse>(
+        functions,
+        name,
+        { timeout: BACKFILL_CALL_TIMEOUT_MS },
+      );
+      const result = await callable(payload);
+      toast({
+        title:
+          result.data.status === "completed"
+            ? "Backfill Complete"
+            : "Backfill In Progress",
+        description:
+          result.data.status === "completed"
+            ? "Every day in the range has been synced to the sheet."
+            : result.data.status === "failed"
+              ? "The backfill stopped on an error. Resume it once fixed."
+              : "The remaining days will be synced in the background.",
+        variant: result.data.status === "failed" ? "destructive" : "default",
+      });
+      return true;
+    } catch (error) {
+      console.error(`Error calling ${name}:`, error);
+      const { title, description } = formatErrorForDisplay(
+        error,
+        "Backfill Failed",
+        "syncing the date range",
+      );
+      toast({ title, description, variant: "destructive" });
+      return false;
+    } finally {
+      setIsCalling(false);
+    }
+  };
+
+  const isRunning =
+    isCalling ||
+    latestJob?.status === "queued" ||
+    latestJob?.status === "running";
+
+  return {
+    latestJob,
+    isRunning,
+    startBackfill: (request: BackfillRequest) =>
+      runCallable("startAttendanceBackfill", request),
+    resumeBackfill: (jobId: string) =>
+      runCallable("resumeAttendanceBackfill", { jobId }),
+  };
+};
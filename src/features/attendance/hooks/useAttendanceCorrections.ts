@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  collection,
+  getDocs,
+  orderBy,
+  query,
+  Timestamp,
+  where,
+} from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/integrations/firebase/client";
+import { useToast } from "@/components/ui/use-toast";
+import { formatErrorForDisplay } from "@/lib/errorHandler";
+
+export type CorrectionSessionType = "standups" | "learning_hours";
+export type CorrectableStatus = "Present" | "Late" | "Not Available";
+export type CorrectionStatus = "pending" | "approved" | "rejected";
+
+// Stored in `attendanceCorrections`; filed and reviewed through callables
+export interface AttendanceCorrection {
+  id: string;
+  employeeId: string;
+  employeeName: string;
+  sessionType: CorrectionSessionType;
+  date: string; // yyyy-MM-dd
+  recordId: string;
+  currentStatus: string;
+  requestedStatus: CorrectableStatus;
+  reason: string;
+  status: CorrectionStatus;
+  createdAt?: Timestamp;
+  reviewedBy?: string;
+  reviewNote?: string | null;
+  reviewedAt?: Timestamp;
+}
+
+export interface CorrectionDraft {
+  sessionType: CorrectionSessionType;
+  date: string;
+  requestedStatus: CorrectableStatus;
+  reason: string;
+}
+
+/**
+ * Correction requests, newest first: one employee's when `employeeId` is
+ * given, otherwise everyone's for the admin review queue.
+ */
+export const useAttendanceCorrections = (employeeId?: string | null) => {
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const {
+    data: corrections,
+    isLoading,
+    refetch,
+  } = useQuery({
+    queryKey: ["attendanceCorrections", employeeId ?? "all"],
+    queryFn: async () => {
+      const correctionsRef = collection(db, "attendanceCorrections");
+      const snapshot = await getDocs(
+        employeeId
+          ? query(correctionsRef, where("employeeId", "==", employeeId))
+          : query(correctionsRef, orderBy("createdAt", "desc")),
+      );
+      return snapshot.docs
+        .map((d) => ({ ...(d.data() as AttendanceCorrection), id: d.id }))
+        .sort(
+          (a, b) =>
+            (b.createdAt?.toMillis() ?? 0) - (a.createdAt?.toMillis() ?? 0),
+        );
+    },
+    enabled: employeeId !== null,
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  const requestCorrection = async (draft: CorrectionDraft) => {
+    setIsSaving(true);
+    try {
+      const requestAttendanceCorrection = httpsCallable<
+        CorrectionDraft,
+        { success: boolean; message: string }
+      >(functions, "requestAttendanceCorrection");
+      const result = await requestAttendanceCorrection(draft);
+      toast({
+        title: "Correction Requested",
+        description: result.data.message,
+      });
+      refetch();
+      return true;
+    } catch (error) {
+      console.error("Error requesting attendance correction:", error);
+      const { title, description } = formatErrorForDisplay(
+        error,
+        "Request Failed",
+        "requesting the correction",
+      );
+      toast({ title, description, variant: "destructive" });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const reviewCorrection = async (
+    correctionId: string,
+    decision: "approved" | "rejected",
+    reviewNote?: string,
+  ) => {
+    setIsSaving(true);
+    try {
+      const reviewAttendanceCorrection = httpsCallable<
+        { correctionId: string; decision: string; reviewNote?: string },
+        { success: boolean; message: string }
+      >(functions, "reviewAttendanceCorrection");
+      const result = await reviewAttendanceCorrection({
+        correctionId,
+        decision,
+        ...(reviewNote ? { reviewNote } : {}),
+      });
+      toast({
+        title:
+          decision === "approved"
+            ? "Correction Approved"
+            : "Correction Rejected",
+        description: result.data.message,
+      });
+      refetch();
+      return true;
+    } catch (error) {
+      console.error("Error reviewing attendance correction:", error);
+      const { title, description } = formatErrorForDisplay(
+        error,
+        "Review Failed",
+        "reviewing the correction",
+      );
+      toast({ title, description, variant: "destructive" });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return {
+    corrections: corrections ?? [],
+    isLoading,
+    isSaving,
+    requestCorrection,
+    reviewCorrection,
+  };
+};
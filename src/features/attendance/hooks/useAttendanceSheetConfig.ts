@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { doc, getDoc, serverTimestamp, setDoc } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/integrations/firebase/client";
+import { useUserAuth } from "@/context/UserAuthContext";
+import { useToast } from "@/components/ui/use-toast";
+import { formatErrorForDisplay } from "@/lib/errorHandler";
+
+// Mirrors ATTENDANCE_SHEET_FIELDS in functions/src/validation.ts, in the
+// column order the sync used before it was configurable
+export const ATTENDANCE_SHEET_FIELDS = [
+  { field: "date", label: "Date", required: true },
+  { field: "scheduledTime", label: "Scheduled Time" },
+  { field: "sessionType", label: "Session Type" },
+  { field: "employeeId", label: "Employee ID", required: true },
+  { field: "employeeName", label: "Employee Name" },
+  { field: "employeeEmail", label: "Email" },
+  { field: "status", label: "Status" },
+  { field: "reason", label: "Reason" },
+  { field: "minutesLate", label: "Minutes Late" },
+] as const;
+
+export type AttendanceSheetField =
+  (typeof ATTENDANCE_SHEET_FIELDS)[number]["field"];
+
+// Stored in `config/attendanceSheetSync` and read by the sync functions
+export interface AttendanceSheetConfig {
+  tabs: { standups: string; learning_hours: string };
+  columns: { field: AttendanceSheetField; header: string }[];
+}
+
+// Suggested starting point; headers match the attendance export
+export const DEFAULT_ATTENDANCE_SHEET_CONFIG: AttendanceSheetConfig = {
+  tabs: { standups: "Standups", learning_hours: "Learning Hours" },
+  columns: ATTENDANCE_SHEET_FIELDS.map(({ field, label }) => ({
+    field,
+    header: label,
+  })),
+};
+
+/**
+ * Same rules as the functions' schema, so a bad mapping is caught before it
+ * is saved. Returns an error message, or null when the settings are valid.
+ */
+export function validateAttendanceSheetConfig(
+  config: AttendanceSheetConfig,
+): string | null {
+  if (!config.tabs.standups.trim() || !config.tabs.learning_hours.trim()) {
+    return "Name the target tab for each session type.";
+  }
+  const fields = config.columns.map((c) => c.field);
+  if (!fields.includes("date") || !fields.includes("employeeId")) {
+    return "The Date and Employee ID fields must be mapped.";
+  }
+  if (config.columns.some((c) => !c.header.trim())) {
+    return "Every mapped field needs a column header.";
+  }
+  const headers = config.columns.map((c) => c.header.trim().toLowerCase());
+  if (new Set(headers).size !== headers.length) {
+    return "Each column header can only be used once.";
+  }
+  return null;
+}
+
+/**
+ * Reads and saves the attendance sheet sync settings. `config` is null until an
+ * admin saves them, in which case the sync keeps its legacy layout: first tab
+ * for standups, second for learning hours, fixed column order.
+ */
+export const useAttendanceSheetConfig = () => {
+  const { user } = useUserAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isChecking, setIsChecking] = useState(false);
+
+  const { data: config, isLoading } = useQuery({
+    queryKey: ["attendanceSheetConfig"],
+    queryFn: async () => {
+      const snap = await getDoc(doc(db, "config", "attendanceSheetSync"));
+      return snap.exists() ? (snap.data() as AttendanceSheetConfig) : null;
+    },
+    staleTime: 10 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  const saveConfig = async (next: AttendanceSheetConfig) => {
+    await setDoc(doc(db, "config", "attendanceSheetSync"), {
+      tabs: {
+        standups: next.tabs.standups.trim(),
+        learning_hours: next.tabs.learning_hours.trim(),
+      },
+      columns: next.columns.map((c) => ({ ...c, header: c.header.trim() })),
+      updatedAt: serverTimestamp(),
+      updatedBy: user?.displayName || user?.email || "Admin",
+    });
+    await queryClient.invalidateQueries({
+      queryKey: ["attendanceSheetConfig"],
+    });
+  };
+
+  // Looks up the tabs and headers in the spreadsheet without writing to it
+  const checkConfig = async (draft: AttendanceSheetConfig) => {
+    setIsChecking(true);
+    try {
+      const callable = httpsCallable<
+        { config: AttendanceSheetConfig },
+        { success: boolean; message: string }
+      >(functions, "checkAttendanceSheetConfig");
+      const result = await callable({ config: draft });
+      toast({ title: "Sheet Matches", description: result.data.message });
+      return true;
+    } catch (error) {
+      console.error("Error checking sheet settings:", error);
+      const { title, description } = formatErrorForDisplay(
+        error,
+        "Sheet Check Failed",
+        "checking the spreadsheet",
+      );
+      toast({ title, description, variant: "destructive" });
+      return false;
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return {
+    config: config ?? null,
+    isLoading,
+    isChecking,
+    saveConfig,
+    checkConfig,
+  };
+};
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { httpsCallable } from "firebase/functions";
+import { functions } from "@/integrations/firebase/client";
+import { useToast } from "@/components/ui/use-toast";
+import { formatErrorForDisplay } from "@/lib/errorHandler";
+
+export type ReconcileSessionType = "standups" | "learning_hours";
+
+export interface AttendanceValues {
+  status: string;
+  reason: string | null;
+  minutesLate: number | null;
+}
+
+// Mirrors AttendanceDifference in functions/src/attendanceReconcile.ts
+export interface AttendanceDifference {
+  id: string;
+  date: string; // yyyy-MM-dd
+  employeeId: string;
+  employeeName: string;
+  kind: "changed" | "sheet-only";
+  firestore: AttendanceValues | null;
+  sheet: AttendanceValues;
+  problem: string | null;
+}
+
+export interface ReconcileRange {
+  from: string;
+  to: string;
+  sessionType: ReconcileSessionType;
+}
+
+interface ReconcileResult {
+  range: ReconcileRange;
+  differences: AttendanceDifference[];
+  matched: number;
+  firestoreOnly: number;
+}
+
+/**
+ * Compares the attendance sheet with Firestore for a range and applies the
+ * differences the admin accepts. Comparing writes nothing.
+ */
+export const useSheetReconciliation = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [result, setResult] = useState<ReconcileResult | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const compare = async (range: ReconcileRange) => {
+    setIsComparing(true);
+    try {
+      const callable = httpsCallable<
+        ReconcileRange,
+        Omit<ReconcileResult, "range">
+      >(functions, "reconcileAttendanceSheet", { timeout: 120 * 1000 });
+      const { data } = await callable(range);
+      setResult({
+        range,
+        differences: data.differences,
+        matched: data.matched,
+        firestoreOnly: data.firestoreOnly,
+      });
+    } catch (error) {
+      console.error("Error comparing sheet with Firestore:", error);
+      const { title, description } = formatErrorForDisplay(
+        error,
+        "Comparison Failed",
+        "reading the attendance sheet",
+      );
+      toast({ title, description, variant: "destructive" });
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const apply = async (acceptedIds: string[]) => {
+    if (!result) return false;
+    setIsApplying(true);
+    try {
+      const callable = httpsCallable<
+        ReconcileRange & { acceptedIds: string[] },
+        { success: boolean; applied: number; message: string }
+      >(functions, "applyAttendanceReconciliation", { timeout: 120 * 1000 });
+      const { data } = await callable({ ...result.range, acceptedIds });
+      toast({ title: "Sheet Fixes Applied", description: data.message });
+      queryClient.invalidateQueries({ queryKey: ["attendanceAudit"] });
+      await compare(result.range);
+      return true;
+    } catch (error) {
+      console.error("Error applying reconciliation:", error);
+      const { title, description } = formatErrorForDisplay(
+        error,
+        "Apply Failed",
+        "updating attendance from the sheet",
+      );
+      toast({ title, description, variant: "destructive" });
+      return false;
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return {
+    result,
+    isComparing,
+    isApplying,
+    compare,
+    apply,
+    clear: () => setResult(null),
+  };
+};
@@ -0,0 +1,169 @@
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { db } from "@/integrations/firebase/client";
+
+export type ExportSessionType = "standups" | "learning_hours";
+export type ExportFormat = "csv" | "xlsx";
+
+export interface AttendanceExportFilters {
+  from: string; // yyyy-MM-dd, inclusive
+  to: string; // yyyy-MM-dd, inclusive
+  sessionTypes: ExportSessionType[];
+  // Empty means every employee / status
+  employeeIds: string[];
+  statuses: string[];
+  // Limits the export to one team's members
+  teamMemberIds?: string[];
+  timeZone: string;
+}
+
+// Same columns, in the same order, as the attendance sheet sync writes
+export const ATTENDANCE_EXPORT_HEADERS = [
+  "Date",
+  "Scheduled Time",
+  "Session Type",
+  "Employee ID",
+  "Employee Name",
+  "Email",
+  "Status",
+  "Reason",
+  "Minutes Late",
+];
+
+export type AttendanceExportRow = [
+  string,
+  string,
+  string,
+  string,
+  string,
+  string,
+  string,
+  string,
+  number | "",
+];
+
+const SOURCES: Record<
+  ExportSessionType,
+  { collectionName: string; idField: string }
+> = {
+  standups: { collectionName: "attendance", idField: "standup_id" },
+  learning_hours: {
+    collectionName: "learning_hours_attendance",
+    idField: "learning_hour_id",
+  },
+};
+
+/**
+ * Reads attendance records between two session dates and flattens them into
+ * sheet rows, sorted by date, session type and employee name.
+ */
+export async function fetchAttendanceForExport(
+  filters: AttendanceExportFilters
+): Promise<AttendanceExportRow[]> {
+  const employeeIds = new Set(filters.employeeIds);
+  const statuses = new Set(filters.statuses);
+  const teamMemberIds = filters.teamMemberIds
+    ? new Set(filters.teamMemberIds)
+    : null;
+  const timeFormat = new Intl.DateTimeFormat("en-US", {
+    hour12: true,
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: filters.timeZone,
+  });
+
+  const snapshots = await Promise.all(
+    filters.sessionTypes.map(async (sessionType) => {
+      const { collectionName, idField } = SOURCES[sessionType];
+      // A range on the session id only, so no composite index is needed
+      const snapshot = await getDocs(
+        query(
+          collection(db, collectionName),
+          where(idField, ">=", filters.from),
+          where(idField, "<=", filters.to)
+        )
+      );
+      return { sessionType, snapshot };
+    })
+  );
+
+  const rows: AttendanceExportRow[] = [];
+  snapshots.forEach(({ sessionType, snapshot }) => {
+    snapshot.docs.forEach((d) => {
+      const data = d.data();
+      if (employeeIds.size > 0 && !employeeIds.has(data.employee_id)) return;
+      if (statuses.size > 0 && !statuses.has(data.status)) return;
+      if (teamMemberIds && !teamMemberIds.has(data.employee_id)) return;
+      rows.push([
+        data.standup_id || data.learning_hour_id,
+        data.scheduled_at
+          ? timeFormat.format(data.scheduled_at.toDate())
+          : "N/A",
+        sessionType,
+        data.employeeId || "",
+        data.employee_name || "",
+        data.employee_email || "",
+        data.status,
+        data.reason || "",
+        data.minutes_late ?? "",
+      ]);
+    });
+  });
+
+  return rows.sort(
+    (a, b) =>
+      a[0].localeCompare(b[0]) ||
+      a[2].localeCompare(b[2]) ||
+      a[4].localeCompare(b[4])
+  );
+}
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function toCsvCell(value: string | number): string {
+  let text = String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Downloads the rows as a CSV or XLSX file named after `baseName`.
+ */
+export async function downloadAttendanceExport(
+  rows: AttendanceExportRow[],
+  exportFormat: ExportFormat,
+  baseName: string
+) {
+  if (exportFormat === "csv") {
+    const csv = [ATTENDANCE_EXPORT_HEADERS, ...rows]
+      .map((row) => row.map(toCsvCell).join(","))
+      .join("\r\n");
+    // The byte order mark makes Excel read the file as UTF-8
+    downloadBlob(
+      new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" }),
+      `${baseName}.csv`
+    );
+    return;
+  }
+
+  // Loaded on demand so the spreadsheet writer stays out of the main bundle
+  const { default: writeXlsxFile } = await import("write-excel-file/browser");
+  await writeXlsxFile(
+    [
+      ATTENDANCE_EXPORT_HEADERS.map((value) => ({ value, fontWeight: "bold" })),
+      ...rows,
+    ],
+    { stickyRowsCount: 1 }
+  ).toFile(`${baseName}.xlsx`);
+}
@@ -56,6 +56,7 @@ import {
   Calendar as CalendarIcon,
   AlertCircle,
   BookOpen,
+  RefreshCw,
 } from "lucide-react";
 
 // Animation & Utilities
@@ -64,6 +65,8 @@ import { cn } from "@/lib/utils";
 import { format } from "date-fns";
 import { DateRange } from "react-day-picker";
 import { useMobile } from "@/hooks/use-mobile";
+import { useToast } from "@/components/ui/use-toast";
+import { formatErrorForDisplay } from "@/lib/errorHandler";
 
 // Charting Libraries
 import {
@@ -706,6 +709,7 @@ const DashboardContent = ({
 export default function FeedbackPage() {
   const { user, loading: userAuthLoading } = useUserAuth();
   const isMobile = useMobile();
+  const { toast } = useToast();
 
   const [isChartLoading, setIsChartLoading] = useState(false);
   const [isAiLoading, setIsAiLoading] = useState(false);
@@ -722,6 +726,7 @@ export default function FeedbackPage() {
   const [rawFeedback, setRawFeedback] = useState<RawFeedbackData | null>(null);
   const [isRawFeedbackLoading, setIsRawFeedbackLoading] = useState(false);
   const [rawFeedbackError, setRawFeedbackError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
 
   const fetchRawFeedback = async () => {
     if (!employeeData?.firebaseUid || !activeFilter) return;
@@ -873,6 +878,36 @@ export default function FeedbackPage() {
     [employeeData], // Dependency array is correct
   );
 
+  // Feedback is imported from the sheet every evening; this picks up rows
+  // added since then and reloads the current view
+  const importLatestFeedback = async () => {
+    if (!employeeData?.firebaseUid) return;
+    setIsImporting(true);
+    try {
+      const importFeedbackCallable = httpsCallable<
+        { employeeId: string },
+        { imported: number; message: string }
+      >(functions, "importFeedback", { timeout: 120 * 1000 });
+      const result = await importFeedbackCallable({
+        employeeId: employeeData.firebaseUid,
+      });
+      toast({ title: "Feedback Updated", description: result.data.message });
+      if (activeFilter && result.data.imported > 0) {
+        fetchFeedbackData(activeFilter);
+      }
+    } catch (err) {
+      console.error("Error importing feedback:", err);
+      const { title, description } = formatErrorForDisplay(
+        err,
+        "Refresh Failed",
+        "importing your feedback sheet",
+      );
+      toast({ title, description, variant: "destructive" });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   // Initial loading screen for auth and profile fetching
   if (userAuthLoading || (!employeeData && !chartError)) {
     return (
@@ -932,12 +967,26 @@ export default function FeedbackPage() {
         animate={{ opacity: 1, y: 0 }}
         transition={{ duration: 0.5 }}
       >
-        <div className="mb-6">
-          <h1 className="text-3xl font-bold">Your Feedback Dashboard</h1>
-          <p className="text-muted-foreground">
-            Welcome back, <strong>{employeeData?.name || "Employee"}</strong>!
-            Here&rsquo;s your latest performance summary.
-          </p>
+        <div className="mb-6 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Your Feedback Dashboard</h1>
+            <p className="text-muted-foreground">
+              Welcome back, <strong>{employeeData?.name || "Employee"}</strong>!
+              Here&rsquo;s your latest performance summary.
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={importLatestFeedback}
+            disabled={!employeeData || isImporting}
+          >
+            {isImporting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Refresh from Sheet
+          </Button>
         </div>
         <FeedbackFilters
           onFilterChange={fetchFeedbackData}
@@ -3,6 +3,12 @@
 import { useUserAuth } from "@/context/UserAuthContext";
 import { useAttendanceStreak } from "@/hooks/use-attendance-streak";
 import { useLearningStreak } from "@/hooks/use-learning-streak";
+import { useTeams } from "@/hooks/use-teams";
+import {
+  appliesToTeam,
+  useCancelledStandups,
+} from "@/hooks/use-cancelled-standups";
+import { useSessionDateId } from "@/hooks/use-organization-settings";
 import {
   Activity,
   BookOpen,
@@ -16,9 +22,11 @@ import {
   Users,
   TrendingUp,
   Clock,
+  CalendarX2,
 } from "lucide-react";
 import { motion, Variants } from "framer-motion";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import type { ViewState } from "@/layout/AppShell";
 import MotivationalQuote from "@/components/common/MotivationalQuote";
 import { cn } from "@/lib/utils";
@@ -319,6 +327,34 @@ const QuickActions = ({
   );
 };
 
+// --- Standup Cancellation Banner ---
+const StandupCancelledBanner = ({ userId }: { userId?: string }) => {
+  const { cancelledStandups } = useCancelledStandups();
+  const { teamByMember } = useTeams();
+  const teamId = (userId && teamByMember.get(userId)?.id) ?? null;
+  const today = useSessionDateId();
+  const cancelled = cancelledStandups.find(
+    (c) => c.date === today && appliesToTeam(c, teamId)
+  );
+
+  if (!cancelled) return null;
+
+  return (
+    <Alert className="border-destructive/30 bg-destructive/5">
+      <CalendarX2 className="h-4 w-4 !text-destructive" aria-hidden="true" />
+      <AlertTitle className="font-semibold">
+        {cancelled.teamName
+          ? `${cancelled.teamName}'s standup is cancelled today`
+          : "Today's standup is cancelled"}
+      </AlertTitle>
+      <AlertDescription className="text-muted-foreground">
+        {cancelled.reason || "No reason was given."} It won&apos;t count against
+        your streak.
+      </AlertDescription>
+    </Alert>
+  );
+};
+
 // --- Date Display Component ---
 const DateDisplay = () => {
   const today = new Date();
@@ -409,6 +445,8 @@ export default function UserHome({ setActiveView }: UserHomeProps) {
         </motion.div>
       </motion.section>
 
+      <StandupCancelledBanner userId={user?.uid} />
+
       {/* Main Dashboard Grid */}
       <div className="grid grid-cols-1 gap-6 lg:grid-cols-12 lg:gap-8">
         {/* Left Column - Main Content */}
@@ -59,6 +59,8 @@ interface AttendanceCardProps {
   onSetStatus: (employeeId: string, status: AttendanceStatus) => void;
   onMarkUnavailable: (employee: Employee) => void;
   isInteractive: boolean;
+  // Name of another facilitator who just changed this row
+  changedBy?: string;
 }
 
 // --- Main Component ---
@@ -69,6 +71,7 @@ export const AttendanceCard = ({
   onSetStatus,
   onMarkUnavailable,
   isInteractive,
+  changedBy,
 }: AttendanceCardProps) => {
   // [LOGIC PRESERVED] - Initials logic unchanged
   const getInitials = (name: string) => {
@@ -99,7 +102,8 @@ export const AttendanceCard = ({
         "flex flex-col h-full transition-all duration-200 rounded-xl overflow-hidden",
         "border border-border/50 hover:border-border",
         "shadow-sm hover:shadow-lg",
-        isInteractive && "cursor-default"
+        isInteractive && "cursor-default",
+        changedBy && "ring-2 ring-primary/60"
       )}
     >
       <CardHeader className="flex flex-row items-center gap-3 p-4 pb-3">
@@ -128,6 +132,16 @@ export const AttendanceCard = ({
             <Mail className="h-3 w-3 flex-shrink-0" aria-hidden="true" />
             <span className="truncate">{employee.email}</span>
           </CardDescription>
+          {changedBy && (
+            <motion.p
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="text-xs font-medium text-primary truncate mt-1"
+              role="status"
+            >
+              Updated by {changedBy}
+            </motion.p>
+          )}
         </div>
       </CardHeader>
 
@@ -42,6 +42,8 @@ import {
 import { cn } from "@/lib/utils";
 import { motion } from "framer-motion";
 import { formatErrorForDisplay } from "@/lib/errorHandler";
+import { useHolidays } from "@/hooks/use-holidays";
+import { toDateKey } from "@/lib/working-days";
 
 export const ScheduleLearningHourForm = ({
   todayDocId,
@@ -54,6 +56,7 @@ export const ScheduleLearningHourForm = ({
 }) => {
   // [LOGIC PRESERVED] - State and handlers unchanged
   const { toast } = useToast();
+  const { holidayDates } = useHolidays();
   const [isScheduling, setIsScheduling] = useState(false);
   const [scheduledDate, setScheduledDate] = useState<Date | undefined>(
     new Date()
@@ -69,6 +72,14 @@ export const ScheduleLearningHourForm = ({
       });
       return;
     }
+    if (holidayDates.has(toDateKey(scheduledDate))) {
+      toast({
+        title: "Holiday",
+        description: "Learning hours cannot be scheduled on an organization holiday.",
+        variant: "destructive",
+      });
+      return;
+    }
     const [hours, minutes] = scheduledTimeInput.split(":").map(Number);
     if (isNaN(hours) || isNaN(minutes) || hours > 23 || minutes > 59) {
       toast({
@@ -194,7 +205,10 @@ export const ScheduleLearningHourForm = ({
                     selected={scheduledDate}
                     onSelect={setScheduledDate}
                     initialFocus
-                    disabled={(d) => startOfDay(d) < startOfDay(new Date())}
+                    disabled={(d) =>
+                      startOfDay(d) < startOfDay(new Date()) ||
+                      holidayDates.has(toDateKey(d))
+                    }
                     className="rounded-md border"
                   />
                 </PopoverContent>
@@ -1,9 +1,13 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { collection, getDocs, query, where, writeBatch, doc, serverTimestamp, getDoc, updateDoc } from 'firebase/firestore';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { collection, getDocs, query, where, doc, getDoc, onSnapshot } from 'firebase/firestore';
 import { db } from '@/integrations/firebase/client';
 import { useToast } from '@/components/ui/use-toast';
 import type { Employee, AttendanceRecord, AttendanceStatus, LearningHour } from '../types';
 import { useUserAuth } from '@/context/UserAuthContext';
+import { markLiveAttendance } from '@/hooks/use-attendance-audit';
+
+// How long a row stays highlighted after someone else changes it
+const REMOTE_CHANGE_HIGHLIGHT_MS = 8000;
 
 // FIX: Accept activeFilter as a parameter to ensure the hook can react to UI changes.
 export const useLearningHourAttendance = (
@@ -14,32 +18,31 @@ export const useLearningHourAttendance = (
     const { user } = useUserAuth();
     const { toast } = useToast();
     const [employees, setEmployees] = useState<Employee[]>([]);
-    const [tempAttendance, setTempAttendance] = useState<Record<string, AttendanceStatus>>({});
+    const [liveAttendance, setLiveAttendance] = useState<Record<string, AttendanceStatus>>({});
     const [savedAttendance, setSavedAttendance] = useState<Record<string, AttendanceRecord>>({});
     const [currentUserAttendance, setCurrentUserAttendance] = useState<AttendanceRecord | null>(null);
     const [editingAbsence, setEditingAbsence] = useState<Employee | null>(null);
     const [absenceReasons, setAbsenceReasons] = useState<Record<string, string>>({});
+    // Employee id -> name of whoever else last changed that row
+    const [remoteChanges, setRemoteChanges] = useState<Record<string, string>>({});
     const [activeSearchQuery, setActiveSearchQuery] = useState("");
     const [finalSearchQuery, setFinalSearchQuery] = useState("");
     const [finalFilter, setFinalFilter] = useState<AttendanceStatus | "all">("all");
+    const highlightTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+
+    const sessionStatus = learningHour?.status;
 
     const fetchInitialData = useCallback(async () => {
         try {
-            const empSnapshot = await getDocs(query(collection(db, "employees"), where("archived", "!=", true)));
+            // Same roster as endLearningSessionAndLockPoints: every employee
+            // not archived, including those with no `archived` field
+            const empSnapshot = await getDocs(collection(db, "employees"));
             const fetchedEmployees = empSnapshot.docs
+                .filter((doc) => doc.data().archived !== true)
                 .map((doc) => ({ id: doc.id, ...doc.data() } as Employee));
             setEmployees(fetchedEmployees);
 
-            if (learningHour?.status === "active") {
-                const initialAttendance: Record<string, AttendanceStatus> = {};
-                fetchedEmployees.forEach(emp => {
-                    initialAttendance[emp.id] = learningHour.tempAttendance?.[emp.id] || "Missed";
-                });
-                setTempAttendance(initialAttendance);
-                setAbsenceReasons(learningHour.absenceReasons || {});
-            }
-
-            if (learningHour?.status === "ended") {
+            if (sessionStatus === "ended") {
                 const q = query(collection(db, "learning_hours_attendance"), where("learning_hour_id", "==", todayDocId));
                 const attSnapshot = await getDocs(q);
                 const fetchedAttendance: Record<string, AttendanceRecord> = {};
@@ -61,78 +64,111 @@ export const useLearningHourAttendance = (
             console.error("Error fetching data:", error);
             toast({ title: "Error loading data", variant: "destructive" });
         }
-    }, [learningHour, todayDocId, toast, user]);
+    }, [sessionStatus, todayDocId, toast, user]);
 
     useEffect(() => {
         fetchInitialData();
     }, [fetchInitialData]);
 
+    // Follow marks made by every facilitator while the session is live
+    useEffect(() => {
+        if (sessionStatus !== "active") return;
+        let previous: LearningHour | null = null;
+        const unsubscribe = onSnapshot(
+            doc(db, "learning_hours", todayDocId),
+            (snap) => {
+                const data = (snap.data() as LearningHour | undefined) ?? null;
+                const attendance = data?.tempAttendance || {};
+                const reasons = data?.absenceReasons || {};
+                setLiveAttendance(attendance);
+                setAbsenceReasons(reasons);
+
+                // The first snapshot is the baseline, not a change
+                if (previous) {
+                    const before = previous;
+                    const changed = Object.keys({ ...before.tempAttendance, ...attendance }).filter(
+                        (id) =>
+                            before.tempAttendance?.[id] !== attendance[id] ||
+                            before.absenceReasons?.[id] !== reasons[id]
+                    );
+                    const byOthers = changed.filter((id) => data?.markedBy?.[id]?.uid !== user?.uid);
+                    if (byOthers.length > 0) {
+                        setRemoteChanges((prev) => {
+                            const next = { ...prev };
+                            byOthers.forEach((id) => {
+                                next[id] = data?.markedBy?.[id]?.name || "Someone else";
+                            });
+                            return next;
+                        });
+                        byOthers.forEach((id) => {
+                            clearTimeout(highlightTimers.current[id]);
+                            highlightTimers.current[id] = setTimeout(() => {
+                                setRemoteChanges((prev) => {
+                                    const next = { ...prev };
+                                    delete next[id];
+                                    return next;
+                                });
+                            }, REMOTE_CHANGE_HIGHLIGHT_MS);
+                        });
+                    }
+                }
+                previous = data;
+            },
+            (error) => {
+                console.error("Error listening to learning hour:", error);
+            }
+        );
+        return () => unsubscribe();
+    }, [sessionStatus, todayDocId, user?.uid]);
+
+    useEffect(() => {
+        const timers = highlightTimers.current;
+        return () => Object.values(timers).forEach(clearTimeout);
+    }, []);
+
+    // Everyone not yet marked counts as Missed
+    const tempAttendance = useMemo(() => {
+        const attendance: Record<string, AttendanceStatus> = {};
+        employees.forEach((emp) => {
+            attendance[emp.id] = liveAttendance[emp.id] || "Missed";
+        });
+        return attendance;
+    }, [employees, liveAttendance]);
+
+    // Each mark only touches its own employee's fields, so facilitators marking
+    // at the same time never overwrite each other
     const saveAbsenceReason = async (employeeId: string, reason: string) => {
         if (!reason.trim()) {
             toast({ title: "Reason is required", variant: "destructive" });
             return;
         }
-        const newAbsenceReasons = { ...absenceReasons, [employeeId]: reason };
-        const newTempAttendance = { ...tempAttendance, [employeeId]: "Not Available" as AttendanceStatus };
-        
-        setAbsenceReasons(newAbsenceReasons);
-        setTempAttendance(newTempAttendance);
         setEditingAbsence(null);
 
         try {
-            const learningHourRef = doc(db, "learning_hours", todayDocId);
-            await updateDoc(learningHourRef, {
-                absenceReasons: newAbsenceReasons,
-                tempAttendance: newTempAttendance,
+            await markLiveAttendance({
+                sessionType: "learning_hours",
+                employeeId,
+                status: "Not Available",
+                reason,
             });
             toast({ title: "Absence Recorded" });
         } catch (error) {
             console.error("Error saving absence reason:", error);
             toast({ title: "Error saving status", variant: "destructive" });
-            // Revert optimistic update on failure
-            setAbsenceReasons(absenceReasons);
-            setTempAttendance(tempAttendance);
         }
     };
 
     const handleSetTempAttendance = async (employeeId: string, status: AttendanceStatus) => {
-        const newTempAttendance = { ...tempAttendance, [employeeId]: status };
-        setTempAttendance(newTempAttendance);
         try {
-            const learningHourRef = doc(db, "learning_hours", todayDocId);
-            await updateDoc(learningHourRef, {
-                tempAttendance: newTempAttendance,
+            await markLiveAttendance({
+                sessionType: "learning_hours",
+                employeeId,
+                status,
             });
         } catch (error) {
             console.error("Error updating temp attendance:", error);
             toast({ title: "Error saving status", variant: "destructive" });
-            // Revert optimistic update on failure
-            setTempAttendance(tempAttendance);
-        }
-    };
-
-    const saveAttendance = async () => {
-        if (!learningHour) return;
-        const batch = writeBatch(db);
-        for (const emp of employees) {
-            const docRef = doc(collection(db, "learning_hours_attendance"), `${todayDocId}_${emp.id}`);
-            const status = tempAttendance[emp.id] || "Missed";
-            const record: Omit<AttendanceRecord, 'markedAt'> & { markedAt: any } = {
-                learning_hour_id: todayDocId,
-                employee_id: emp.id,
-                employee_name: emp.name,
-                employee_email: emp.email,
-                employeeId: emp.employeeId,
-                status: status,
-                scheduled_at: learningHour.scheduledTime,
-                markedAt: serverTimestamp(),
-            };
-            if (status === "Not Available") {
-                record.reason = absenceReasons[emp.id] || "No reason provided";
-            }
-            batch.set(docRef, record);
         }
-        await batch.commit();
     };
 
     const sessionStats = useMemo(() => {
@@ -192,14 +228,13 @@ export const useLearningHourAttendance = (
     return {
         employees,
         tempAttendance,
-        setTempAttendance,
+        remoteChanges,
         savedAttendance,
         currentUserAttendance,
         editingAbsence,
         setEditingAbsence,
         absenceReasons,
         saveAbsenceReason,
-        saveAttendance,
         handleSetTempAttendance,
         sessionStats,
         fetchInitialData,
@@ -5,9 +5,10 @@ import {
   updateDoc,
   serverTimestamp,
 } from "firebase/firestore";
-import { db } from "@/integrations/firebase/client";
-import { format } from "date-fns";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/integrations/firebase/client";
 import { useToast } from "@/components/ui/use-toast";
+import { useSessionDateId } from "@/hooks/use-organization-settings";
 import type { LearningHour } from "../types";
 
 export const useLearningHourSession = () => {
@@ -17,7 +18,7 @@ export const useLearningHourSession = () => {
   const [isUpdating, setIsUpdating] = useState(false);
   const [sessionTime, setSessionTime] = useState("0s");
 
-  const todayDocId = format(new Date(), "yyyy-MM-dd");
+  const todayDocId = useSessionDateId();
 
   useEffect(() => {
     const ref = doc(db, "learning_hours", todayDocId);
@@ -56,10 +57,8 @@ export const useLearningHourSession = () => {
   const startSession = async () => {
     setIsUpdating(true);
     try {
-      await updateDoc(doc(db, "learning_hours", todayDocId), {
-        status: "active",
-        startedAt: serverTimestamp(),
-      });
+      // The function pre-marks anyone on approved leave and audits those marks
+      await httpsCallable(functions, "startLearningSession")();
       toast({ title: "Learning Session Started" });
     } catch (e) {
       console.error(e);
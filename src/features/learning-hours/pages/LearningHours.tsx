@@ -420,13 +420,13 @@ export default function LearningHours() {
   const {
     employees,
     tempAttendance,
+    remoteChanges,
     handleSetTempAttendance,
     savedAttendance,
     editingAbsence,
     setEditingAbsence,
     absenceReasons, // Ensure this hook provides this
     saveAbsenceReason, // Ensure this hook provides this
-    saveAttendance,
     sessionStats,
     fetchInitialData,
     finalFilter,
@@ -496,7 +496,7 @@ export default function LearningHours() {
     );
 
     try {
-      await saveAttendance(); // Auto-save before end
+      // Attendance is written by the server from the marks saved on the session
       await endSessionFunction({ sessionId: todayDocId });
       toast({
         title: "Session Ended",
@@ -739,6 +739,7 @@ export default function LearningHours() {
                         onSetStatus={handleSetTempAttendance}
                         onMarkUnavailable={setEditingAbsence}
                         isInteractive={true}
+                        changedBy={remoteChanges[emp.id]}
                       />
                     </motion.div>
                   ))
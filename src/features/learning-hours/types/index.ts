@@ -11,6 +11,8 @@ export type LearningHour = {
     scheduledBy: string;
     tempAttendance?: Record<string, AttendanceStatus>;
     absenceReasons?: Record<string, string>;
+    // Who last marked each employee during the live session
+    markedBy?: Record<string, { uid: string | null; name: string }>;
 };
 
 export type Employee = {
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { httpsCallable } from "firebase/functions";
+import { functions } from "@/integrations/firebase/client";
+import { useUserAuth } from "@/context/UserAuthContext";
+import { useToast } from "@/components/ui/use-toast";
+import { formatErrorForDisplay } from "@/lib/errorHandler";
+import { useSessionDateId } from "@/hooks/use-organization-settings";
+import {
+  formatLeaveRange,
+  useLeaveRequests,
+  type LeaveStatus,
+} from "@/hooks/use-leave-requests";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Loader2, Plane } from "lucide-react";
+
+const STATUS_BADGE: Record<
+  LeaveStatus,
+  { label: string; variant: "secondary" | "default" | "destructive" }
+> = {
+  pending: { label: "Pending", variant: "secondary" },
+  approved: { label: "Approved", variant: "default" },
+  rejected: { label: "Rejected", variant: "destructive" },
+};
+
+/**
+ * Lets an employee file planned leave ahead of time. Once an admin approves
+ * it, the employee is pre-marked Not Available when a session starts.
+ */
+export const LeaveRequestsCard = () => {
+  const { user } = useUserAuth();
+  const { toast } = useToast();
+  const { leaveRequests, isLoading, refetch } = useLeaveRequests(
+    user?.uid ?? null,
+  );
+  const today = useSessionDateId();
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!startDate || !reason.trim()) {
+      toast({
+        title: "Missing Details",
+        description: "Pick the first day of your leave and give a reason.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const submitLeaveRequest = httpsCallable<
+        { startDate: string; endDate: string; reason: string },
+        { success: boolean; message: string }
+      >(functions, "submitLeaveRequest");
+      const result = await submitLeaveRequest({
+        startDate,
+        endDate: endDate || startDate,
+        reason,
+      });
+      toast({ title: "Leave Requested", description: result.data.message });
+      setStartDate("");
+      setEndDate("");
+      setReason("");
+      refetch();
+    } catch (error) {
+      console.error("Error submitting leave request:", error);
+      const { title, description } = formatErrorForDisplay(
+        error,
+        "Request Failed",
+        "filing your leave",
+      );
+      toast({ title, description, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-2xl mx-auto">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Plane className="h-5 w-5 text-muted-foreground" aria-hidden="true" />
+          <CardTitle className="text-xl">Planned Leave</CardTitle>
+        </div>
+        <CardDescription>
+          File leave ahead of time. Once approved, you are marked Not Available
+          for standups and learning hours on those days.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="leave-start">From</Label>
+              <Input
+                id="leave-start"
+                type="date"
+                min={today}
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leave-end">To (optional)</Label>
+              <Input
+                id="leave-end"
+                type="date"
+                min={startDate || today}
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="leave-reason">Reason</Label>
+            <Textarea
+              id="leave-reason"
+              placeholder="e.g., Family function, Medical appointment..."
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              className="min-h-[80px] resize-none"
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleSubmit} disabled={isSubmitting}>
+              {isSubmitting && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Request Leave
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-sm font-semibold text-foreground">Your requests</p>
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : leaveRequests.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              You have not filed any leave yet.
+            </p>
+          ) : (
+            leaveRequests.map((leave) => (
+              <div
+                key={leave.id}
+                className="flex items-start justify-between gap-4 rounded-lg border border-border/50 p-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground">
+                    {formatLeaveRange(leave.startDate, leave.endDate)}
+                  </p>
+                  <p className="text-sm text-muted-foreground break-words">
+                    {leave.reason}
+                  </p>
+                </div>
+                <Badge variant={STATUS_BADGE[leave.status].variant}>
+                  {STATUS_BADGE[leave.status].label}
+                </Badge>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
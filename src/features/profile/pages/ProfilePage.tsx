@@ -19,6 +19,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Loader2 } from "lucide-react";
 import { useToast } from "@/components/ui/use-toast";
 import { motion } from "framer-motion";
+import { LeaveRequestsCard } from "../components/LeaveRequestsCard";
 
 export default function ProfilePage() {
   const { user, loading: userLoading } = useUserAuth();
@@ -144,6 +145,7 @@ export default function ProfilePage() {
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
       transition={{ duration: 0.5 }}
+      className="space-y-6"
     >
       <Card className="max-w-2xl mx-auto">
         <CardHeader>
@@ -202,6 +204,7 @@ export default function ProfilePage() {
           </Button>
         </CardFooter>
       </Card>
+      <LeaveRequestsCard />
     </motion.div>
   );
 }
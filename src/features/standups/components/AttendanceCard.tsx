@@ -15,7 +15,7 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
-import { Check, Info, UserMinus, UserX, X, Mail } from "lucide-react";
+import { Check, Clock, Info, UserMinus, UserX, X, Mail } from "lucide-react";
 import { motion, LayoutGroup } from "framer-motion";
 import type { Employee, AttendanceStatus } from "../types";
 
@@ -31,6 +31,12 @@ const statusConfig: Record<
     className:
       "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200 border-green-200 dark:border-green-800",
   },
+  Late: {
+    label: "Late",
+    icon: Clock,
+    className:
+      "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200 border-blue-200 dark:border-blue-800",
+  },
   Absent: {
     label: "Absent",
     icon: UserMinus,
@@ -84,6 +90,8 @@ export const AttendanceCard = ({
     switch (status) {
       case "Present":
         return "bg-green-500";
+      case "Late":
+        return "bg-blue-500";
       case "Absent":
         return "bg-red-500";
       case "Missed":
@@ -188,8 +196,11 @@ const InteractiveControls = ({
     <div className="grid grid-cols-2 sm:grid-cols-4 gap-1.5 bg-muted/50 p-1.5 rounded-xl border border-border/30">
       <LayoutGroup id={`controls-${employeeId}`}>
         {controls.map((status) => {
-          const isActive = currentStatus === status;
-          const { label, icon: Icon, className } = statusConfig[status];
+          // Late is set automatically, so it is shown on the Present control
+          const showsLate = status === "Present" && currentStatus === "Late";
+          const isActive = currentStatus === status || showsLate;
+          const { label, icon: Icon, className } =
+            statusConfig[showsLate ? "Late" : status];
           return (
             <TooltipProvider key={status} delayDuration={300}>
               <Tooltip>
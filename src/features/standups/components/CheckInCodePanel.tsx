@@ -0,0 +1,52 @@
+import { QRCodeSVG } from "qrcode.react";
+import { Loader2, QrCode } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { buildCheckInUrl, useCheckInCode } from "../hooks/useStandupCheckIn";
+
+const ROTATION_SECONDS = 30;
+
+export const CheckInCodePanel = ({ teamId }: { teamId?: string }) => {
+  const { checkInCode, secondsLeft, error } = useCheckInCode(true, teamId);
+
+  return (
+    <Card className="border shadow-sm">
+      <CardContent className="p-6">
+        <div className="flex flex-col sm:flex-row items-center gap-6">
+          <div className="rounded-xl bg-white p-3 border border-border/50">
+            {checkInCode ? (
+              <QRCodeSVG value={buildCheckInUrl(checkInCode.code)} size={128} />
+            ) : (
+              <div className="h-32 w-32 flex items-center justify-center">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            )}
+          </div>
+          <div className="flex-1 w-full text-center sm:text-left space-y-3">
+            <div className="flex items-center justify-center sm:justify-start gap-2 text-sm text-muted-foreground">
+              <QrCode className="h-4 w-4" aria-hidden="true" />
+              <span>Self check-in code</span>
+            </div>
+            <p
+              className="text-4xl sm:text-5xl font-bold tracking-[0.3em] tabular-nums text-foreground"
+              aria-live="polite"
+            >
+              {checkInCode?.code ?? "------"}
+            </p>
+            {error ? (
+              <p className="text-sm text-destructive">{error}</p>
+            ) : (
+              <div className="space-y-1">
+                <Progress value={(secondsLeft / ROTATION_SECONDS) * 100} />
+                <p className="text-xs text-muted-foreground">
+                  Rotates in {secondsLeft}s. Members scan the QR code or enter
+                  the code on their Standups page to mark themselves present.
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,139 @@
+import { useMemo } from "react";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { isBlockerStale, useBlockers } from "../hooks/useBlockers";
+import type { BlockerStatus, Employee } from "../types";
+
+const UNASSIGNED = "unassigned";
+
+/**
+ * Unresolved blockers raised by this standup's members, including those
+ * carried over from earlier days.
+ */
+export const OpenBlockersPanel = ({ employees }: { employees: Employee[] }) => {
+  const memberIds = useMemo(() => employees.map((e) => e.id), [employees]);
+  const { blockers, setBlockerStatus, setBlockerOwner } =
+    useBlockers(memberIds);
+
+  return (
+    <Card className="border shadow-sm">
+      <CardHeader className="pb-4 border-b border-border/50">
+        <CardTitle className="text-xl font-bold tracking-tight flex items-center gap-2">
+          <AlertTriangle
+            className="h-5 w-5 text-muted-foreground"
+            aria-hidden="true"
+          />
+          Open Blockers
+          {blockers.length > 0 && (
+            <Badge variant="secondary">{blockers.length}</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {blockers.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-6">
+            No open blockers. Nice.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {blockers.map((blocker) => {
+              const dates = [...(blocker.standupDates ?? [])].sort();
+              const firstRaised = dates[0];
+              return (
+                <div
+                  key={blocker.id}
+                  className="rounded-xl border border-border/50 p-4 space-y-3"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="font-semibold text-foreground">
+                      {blocker.raisedByName}
+                    </p>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      {firstRaised && (
+                        <span>
+                          Raised {format(parseISO(firstRaised), "MMM d")}
+                        </span>
+                      )}
+                      {dates.length > 1 && (
+                        <Badge variant="outline">
+                          Carried over {dates.length - 1}×
+                        </Badge>
+                      )}
+                      {isBlockerStale(blocker) && (
+                        <Badge variant="destructive">Stale</Badge>
+                      )}
+                    </div>
+                  </div>
+                  <p className="text-sm text-foreground whitespace-pre-wrap">
+                    {blocker.description}
+                  </p>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Select
+                      value={blocker.ownerId ?? UNASSIGNED}
+                      onValueChange={(value) =>
+                        setBlockerOwner(
+                          blocker,
+                          employees.find((e) => e.id === value) ?? null
+                        )
+                      }
+                    >
+                      <SelectTrigger
+                        className="sm:w-[200px]"
+                        aria-label="Blocker owner"
+                      >
+                        <SelectValue placeholder="Owner" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNASSIGNED}>No owner</SelectItem>
+                        {employees.map((emp) => (
+                          <SelectItem key={emp.id} value={emp.id}>
+                            {emp.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={blocker.status}
+                      onValueChange={(value) =>
+                        setBlockerStatus(blocker, value as BlockerStatus)
+                      }
+                    >
+                      <SelectTrigger
+                        className="sm:w-[160px]"
+                        aria-label="Blocker status"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="open">Open</SelectItem>
+                        <SelectItem value="in-progress">In progress</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      className="sm:ml-auto"
+                      onClick={() => setBlockerStatus(blocker, "resolved")}
+                    >
+                      <CheckCircle2 className="mr-2 h-4 w-4" aria-hidden="true" />
+                      Resolve
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -41,6 +41,8 @@ import {
 import { cn } from "@/lib/utils";
 import { motion } from "framer-motion";
 import { formatErrorForDisplay } from "@/lib/errorHandler";
+import { useHolidays } from "@/hooks/use-holidays";
+import { toDateKey } from "@/lib/working-days";
 
 export const ScheduleStandupForm = ({
   todayDocId,
@@ -53,6 +55,7 @@ export const ScheduleStandupForm = ({
 }) => {
   // [LOGIC PRESERVED] - State and handlers unchanged
   const { toast } = useToast();
+  const { holidayDates } = useHolidays();
   const [isScheduling, setIsScheduling] = useState(false);
   const [scheduledDate, setScheduledDate] = useState<Date | undefined>(
     new Date()
@@ -70,6 +73,14 @@ export const ScheduleStandupForm = ({
       });
       return;
     }
+    if (holidayDates.has(toDateKey(scheduledDate))) {
+      toast({
+        title: "Holiday",
+        description: "Standups cannot be scheduled on an organization holiday.",
+        variant: "destructive",
+      });
+      return;
+    }
     const [hours, minutes] = scheduledTimeInput.split(":").map(Number);
     if (isNaN(hours) || isNaN(minutes) || hours > 23 || minutes > 59) {
       toast({
@@ -195,7 +206,10 @@ export const ScheduleStandupForm = ({
                     selected={scheduledDate}
                     onSelect={setScheduledDate}
                     initialFocus
-                    disabled={(d) => startOfDay(d) < startOfDay(new Date())}
+                    disabled={(d) =>
+                      startOfDay(d) < startOfDay(new Date()) ||
+                      holidayDates.has(toDateKey(d))
+                    }
                     className="rounded-md border"
                   />
                 </PopoverContent>
@@ -1,6 +1,13 @@
 import { motion, Variants } from "framer-motion";
 import { StatCard } from "@/components/common/StatCard";
-import { Users, UserCheck, UserX, UserMinus, Slash } from "lucide-react";
+import {
+  Users,
+  UserCheck,
+  UserX,
+  UserMinus,
+  Slash,
+  Clock,
+} from "lucide-react";
 
 // --- Animation Variants ---
 const containerVariants: Variants = {
@@ -42,6 +49,13 @@ const statDetails = [
     iconBg: "bg-green-100/50 dark:bg-green-900/20",
     className: "border-green-200 dark:border-green-800/50",
   },
+  {
+    key: "late",
+    title: "Late",
+    icon: <Clock className="h-5 w-5 text-blue-600 dark:text-blue-400" />,
+    iconBg: "bg-blue-100/50 dark:bg-blue-900/20",
+    className: "border-blue-200 dark:border-blue-800/50",
+  },
   {
     key: "absent",
     title: "Absent",
@@ -71,7 +85,7 @@ export const SessionStatistics = ({
   stats: Record<string, number>;
 }) => (
   <motion.div
-    className="grid gap-4 grid-cols-2 md:grid-cols-3 lg:grid-cols-5"
+    className="grid gap-4 grid-cols-2 md:grid-cols-3 lg:grid-cols-6"
     variants={containerVariants}
     initial="hidden"
     animate="visible"
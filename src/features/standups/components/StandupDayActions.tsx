@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { CalendarClock, CalendarX2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+export interface StandupDayActionsProps {
+  isSavingDay: boolean;
+  // HH:mm prefilled in the reschedule dialog
+  defaultTime: string;
+  // Cancelling is hidden once the day is already cancelled
+  canCancel: boolean;
+  onCancel: (reason: string) => Promise<boolean>;
+  onReschedule: (time: string) => Promise<boolean>;
+}
+
+/**
+ * Admin controls for today's standup: move it to another time or cancel the day.
+ */
+export const StandupDayActions = ({
+  isSavingDay,
+  defaultTime,
+  canCancel,
+  onCancel,
+  onReschedule,
+}: StandupDayActionsProps) => {
+  const [dialog, setDialog] = useState<"cancel" | "reschedule" | null>(null);
+  const [reason, setReason] = useState("");
+  const [time, setTime] = useState(defaultTime);
+
+  useEffect(() => {
+    if (dialog) {
+      setReason("");
+      setTime(defaultTime);
+    }
+  }, [dialog, defaultTime]);
+
+  const handleConfirm = async () => {
+    const saved =
+      dialog === "cancel" ? await onCancel(reason) : await onReschedule(time);
+    if (saved) setDialog(null);
+  };
+
+  return (
+    <>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Button
+          variant="outline"
+          className="flex-1"
+          onClick={() => setDialog("reschedule")}
+        >
+          <CalendarClock className="mr-2 h-4 w-4" aria-hidden="true" />
+          Reschedule
+        </Button>
+        {canCancel && (
+          <Button
+            variant="outline"
+            className="flex-1 text-destructive hover:text-destructive"
+            onClick={() => setDialog("cancel")}
+          >
+            <CalendarX2 className="mr-2 h-4 w-4" aria-hidden="true" />
+            Cancel Today
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>
+              {dialog === "cancel"
+                ? "Cancel Today's Standup"
+                : "Reschedule Today's Standup"}
+            </DialogTitle>
+            <DialogDescription>
+              {dialog === "cancel"
+                ? "Nobody is marked for a cancelled day, and it does not count as a working day in streaks or performance."
+                : "The session starts and closes automatically at the new time."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {dialog === "cancel" ? (
+            <div className="space-y-2 py-2">
+              <Label htmlFor="cancel-reason" className="text-sm font-semibold">
+                Reason
+              </Label>
+              <Textarea
+                id="cancel-reason"
+                placeholder="e.g., Team offsite, Company all-hands..."
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                className="min-h-[100px] resize-none"
+              />
+            </div>
+          ) : (
+            <div className="space-y-2 py-2">
+              <Label
+                htmlFor="reschedule-time"
+                className="text-sm font-semibold"
+              >
+                New start time
+              </Label>
+              <Input
+                id="reschedule-time"
+                type="time"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+              />
+            </div>
+          )}
+
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="ghost" onClick={() => setDialog(null)}>
+              Back
+            </Button>
+            <Button
+              onClick={handleConfirm}
+              disabled={isSavingDay || (dialog === "cancel" && !reason.trim())}
+              variant={dialog === "cancel" ? "destructive" : "default"}
+            >
+              {isSavingDay && (
+                <Loader2
+                  className="mr-2 h-4 w-4 animate-spin"
+                  aria-hidden="true"
+                />
+              )}
+              {dialog === "cancel" ? "Cancel Standup" : "Save Time"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/components/ui/use-toast";
+import { isValidTimeZone } from "@/lib/session-date";
+import type { StandupDaySchedule, StandupSchedule } from "../types";
+
+// Display order starts on Monday; keys follow Date#getDay
+const WEEKDAYS: { key: string; label: string }[] = [
+  { key: "1", label: "Monday" },
+  { key: "2", label: "Tuesday" },
+  { key: "3", label: "Wednesday" },
+  { key: "4", label: "Thursday" },
+  { key: "5", label: "Friday" },
+  { key: "6", label: "Saturday" },
+  { key: "0", label: "Sunday" },
+];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const StandupScheduleDialog = ({
+  isOpen,
+  onClose,
+  schedule,
+  timeZone,
+  isSaving,
+  onSave,
+}: {
+  isOpen: boolean;
+  onClose: () => void;
+  schedule: StandupSchedule;
+  timeZone: string;
+  isSaving: boolean;
+  onSave: (schedule: StandupSchedule, timeZone: string) => Promise<boolean>;
+}) => {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<StandupSchedule>(schedule);
+  const [draftTimeZone, setDraftTimeZone] = useState(timeZone);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(schedule);
+      setDraftTimeZone(timeZone);
+    }
+  }, [isOpen, schedule, timeZone]);
+
+  const updateDay = (key: string, patch: Partial<StandupDaySchedule>) => {
+    setDraft((prev) => ({
+      ...prev,
+      days: { ...prev.days, [key]: { ...prev.days[key], ...patch } },
+    }));
+  };
+
+  const handleSave = async () => {
+    const invalid = WEEKDAYS.find(({ key }) => {
+      const day = draft.days[key];
+      return (
+        day.enabled &&
+        (!TIME_PATTERN.test(day.startTime) ||
+          !Number.isInteger(day.durationMinutes) ||
+          day.durationMinutes < 1 ||
+          day.durationMinutes > 180)
+      );
+    });
+    if (invalid) {
+      toast({
+        title: "Invalid Schedule",
+        description: `${invalid.label} needs a valid start time and a duration between 1 and 180 minutes.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (
+      !Number.isInteger(draft.lateGraceMinutes) ||
+      draft.lateGraceMinutes < 0 ||
+      draft.lateGraceMinutes > 60
+    ) {
+      toast({
+        title: "Invalid Grace Period",
+        description: "The late grace period must be between 0 and 60 minutes.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const nextTimeZone = draftTimeZone.trim();
+    if (!isValidTimeZone(nextTimeZone)) {
+      toast({
+        title: "Invalid Time Zone",
+        description: "Enter an IANA time zone such as Asia/Kolkata.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (await onSave(draft, nextTimeZone)) onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Standup Calendar</DialogTitle>
+          <DialogDescription>
+            Choose which days standups run, when they start and how long they
+            stay open. Times are in the organization time zone.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center justify-between gap-3 border-b pb-4">
+          <div>
+            <Label htmlFor="organization-time-zone">Time zone</Label>
+            <p className="text-xs text-muted-foreground">
+              Decides which day a session belongs to for everyone.
+            </p>
+          </div>
+          <Input
+            id="organization-time-zone"
+            className="w-44"
+            value={draftTimeZone}
+            onChange={(e) => setDraftTimeZone(e.target.value)}
+          />
+        </div>
+        <div className="space-y-3 py-2">
+          {WEEKDAYS.map(({ key, label }) => {
+            const day = draft.days[key];
+            return (
+              <div
+                key={key}
+                className="grid grid-cols-[1fr_auto_auto] items-center gap-3"
+              >
+                <div className="flex items-center gap-3">
+                  <Switch
+                    id={`standup-day-${key}`}
+                    checked={day.enabled}
+                    onCheckedChange={(enabled) => updateDay(key, { enabled })}
+                  />
+                  <Label htmlFor={`standup-day-${key}`}>{label}</Label>
+                </div>
+                <Input
+                  type="time"
+                  aria-label={`${label} start time`}
+                  className="w-28"
+                  value={day.startTime}
+                  disabled={!day.enabled}
+                  onChange={(e) => updateDay(key, { startTime: e.target.value })}
+                />
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={180}
+                    aria-label={`${label} duration in minutes`}
+                    className="w-20"
+                    value={day.durationMinutes}
+                    disabled={!day.enabled}
+                    onChange={(e) =>
+                      updateDay(key, {
+                        durationMinutes: Number(e.target.value),
+                      })
+                    }
+                  />
+                  <span className="text-sm text-muted-foreground">min</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex items-center justify-between gap-3 border-t pt-4">
+          <div>
+            <Label htmlFor="late-grace-minutes">Late after</Label>
+            <p className="text-xs text-muted-foreground">
+              Members marked present this long after the start are recorded as
+              Late.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              id="late-grace-minutes"
+              type="number"
+              min={0}
+              max={60}
+              className="w-20"
+              value={draft.lateGraceMinutes}
+              onChange={(e) =>
+                setDraft((prev) => ({
+                  ...prev,
+                  lateGraceMinutes: Number(e.target.value),
+                }))
+              }
+            />
+            <span className="text-sm text-muted-foreground">min</span>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Schedule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Loader2, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { StandupUpdate } from "../types";
+import type { StandupUpdateDraft } from "../hooks/useStandupUpdates";
+
+const FIELDS: { key: keyof StandupUpdateDraft; label: string; hint: string }[] =
+  [
+    {
+      key: "yesterday",
+      label: "Yesterday",
+      hint: "What did you get done?",
+    },
+    { key: "today", label: "Today", hint: "What will you work on?" },
+    {
+      key: "blockers",
+      label: "Blockers",
+      hint: "Anything in your way? Leave empty if not.",
+    },
+  ];
+
+export const StandupUpdateForm = ({
+  myUpdate,
+  isSubmitting,
+  onSubmit,
+  countsAsPresence,
+}: {
+  myUpdate: StandupUpdate | null;
+  isSubmitting: boolean;
+  onSubmit: (draft: StandupUpdateDraft) => Promise<boolean>;
+  // True while the session is live and posting also checks the member in
+  countsAsPresence: boolean;
+}) => {
+  const [draft, setDraft] = useState<StandupUpdateDraft>({
+    yesterday: "",
+    today: "",
+    blockers: "",
+  });
+
+  useEffect(() => {
+    if (myUpdate) {
+      setDraft({
+        yesterday: myUpdate.yesterday,
+        today: myUpdate.today,
+        blockers: myUpdate.blockers,
+      });
+    }
+  }, [myUpdate]);
+
+  return (
+    <form
+      className="space-y-3 p-4 rounded-xl bg-muted/50 border border-border/30 text-left"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit(draft);
+      }}
+    >
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-semibold">Your standup update</p>
+        {myUpdate?.updatedAt && (
+          <p className="text-xs text-muted-foreground">
+            Posted at {format(myUpdate.updatedAt.toDate(), "h:mm a")}
+          </p>
+        )}
+      </div>
+      {FIELDS.map(({ key, label, hint }) => (
+        <div key={key} className="space-y-1">
+          <Label htmlFor={`standup-update-${key}`} className="text-xs">
+            {label}
+          </Label>
+          <Textarea
+            id={`standup-update-${key}`}
+            rows={2}
+            maxLength={2000}
+            placeholder={hint}
+            value={draft[key]}
+            onChange={(e) =>
+              setDraft((prev) => ({ ...prev, [key]: e.target.value }))
+            }
+          />
+        </div>
+      ))}
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-muted-foreground">
+          {countsAsPresence
+            ? "Posting while the standup is live marks you present."
+            : "Your facilitator will see this during the standup."}
+        </p>
+        <Button
+          type="submit"
+          size="sm"
+          disabled={isSubmitting || !draft.today.trim()}
+        >
+          {isSubmitting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+          ) : (
+            <Send className="mr-2 h-4 w-4" aria-hidden="true" />
+          )}
+          {myUpdate ? "Update" : "Post"}
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, MessageSquareText } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import type { StandupUpdate } from "../types";
+
+const UpdateSection = ({ label, text }: { label: string; text: string }) =>
+  text ? (
+    <div>
+      <p className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
+        {label}
+      </p>
+      <p className="text-sm text-foreground whitespace-pre-wrap">{text}</p>
+    </div>
+  ) : null;
+
+export const StandupUpdatesList = ({
+  updates,
+  rosterSize,
+}: {
+  updates: StandupUpdate[];
+  rosterSize: number;
+}) => {
+  const [blockersOnly, setBlockersOnly] = useState(false);
+  const blockerCount = updates.filter((u) => u.blockers).length;
+  const visibleUpdates = blockersOnly
+    ? updates.filter((u) => u.blockers)
+    : updates;
+
+  return (
+    <Card className="border shadow-sm">
+      <CardHeader className="pb-4 border-b border-border/50">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <CardTitle className="text-xl font-bold tracking-tight flex items-center gap-2">
+              <MessageSquareText
+                className="h-5 w-5 text-muted-foreground"
+                aria-hidden="true"
+              />
+              Updates
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              {updates.length} of {rosterSize} members posted an update
+              {blockerCount > 0 && `, ${blockerCount} with blockers`}.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="updates-blockers-only"
+              checked={blockersOnly}
+              onCheckedChange={setBlockersOnly}
+            />
+            <Label htmlFor="updates-blockers-only" className="text-sm">
+              Blockers only
+            </Label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6">
+        {visibleUpdates.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-6">
+            {blockersOnly
+              ? "Nobody has reported a blocker."
+              : "No updates have been posted yet."}
+          </p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {visibleUpdates.map((update) => (
+              <div
+                key={update.employeeId}
+                className="rounded-xl border border-border/50 p-4 space-y-3"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-semibold text-foreground">
+                    {update.employeeName}
+                  </p>
+                  <div className="flex items-center gap-2">
+                    {update.blockers && (
+                      <Badge variant="destructive" className="gap-1">
+                        <AlertTriangle className="h-3 w-3" aria-hidden="true" />
+                        Blocked
+                      </Badge>
+                    )}
+                    {update.updatedAt && (
+                      <span className="text-xs text-muted-foreground">
+                        {format(update.updatedAt.toDate(), "h:mm a")}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <UpdateSection label="Yesterday" text={update.yesterday} />
+                <UpdateSection label="Today" text={update.today} />
+                <UpdateSection label="Blockers" text={update.blockers} />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,89 @@
+import { useState, useEffect, useMemo } from "react";
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { differenceInDays } from "date-fns";
+import { db } from "@/integrations/firebase/client";
+import { useToast } from "@/components/ui/use-toast";
+import type { Blocker, BlockerStatus, Employee } from "../types";
+
+// Unresolved blockers without any activity for this long count as stale
+export const STALE_BLOCKER_DAYS = 3;
+
+export const isBlockerStale = (blocker: Blocker, now = new Date()) =>
+  blocker.status !== "resolved" &&
+  !!blocker.updatedAt &&
+  differenceInDays(now, blocker.updatedAt.toDate()) >= STALE_BLOCKER_DAYS;
+
+/**
+ * Listens to unresolved blockers raised by the given roster, oldest first.
+ */
+export const useBlockers = (memberIds: string[]) => {
+  const { toast } = useToast();
+  const [allBlockers, setAllBlockers] = useState<Blocker[]>([]);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      query(
+        collection(db, "blockers"),
+        where("status", "in", ["open", "in-progress"])
+      ),
+      (snapshot) => {
+        setAllBlockers(
+          snapshot.docs.map((d) => ({ ...(d.data() as Blocker), id: d.id }))
+        );
+      },
+      (error) => {
+        console.error("Error loading blockers:", error);
+      }
+    );
+    return () => unsubscribe();
+  }, []);
+
+  const blockers = useMemo(() => {
+    const members = new Set(memberIds);
+    return allBlockers
+      .filter((b) => members.has(b.raisedBy))
+      .sort(
+        (a, b) =>
+          (a.createdAt?.toMillis() ?? 0) - (b.createdAt?.toMillis() ?? 0)
+      );
+  }, [allBlockers, memberIds]);
+
+  const setBlockerStatus = async (blocker: Blocker, status: BlockerStatus) => {
+    try {
+      await updateDoc(doc(db, "blockers", blocker.id), {
+        status,
+        updatedAt: serverTimestamp(),
+        resolvedAt: status === "resolved" ? serverTimestamp() : null,
+      });
+      if (status === "resolved") {
+        toast({ title: "Blocker Resolved" });
+      }
+    } catch (error) {
+      console.error("Error updating blocker status:", error);
+      toast({ title: "Error updating blocker", variant: "destructive" });
+    }
+  };
+
+  const setBlockerOwner = async (blocker: Blocker, owner: Employee | null) => {
+    try {
+      await updateDoc(doc(db, "blockers", blocker.id), {
+        ownerId: owner?.id ?? null,
+        ownerName: owner?.name ?? null,
+        updatedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error("Error assigning blocker owner:", error);
+      toast({ title: "Error updating blocker", variant: "destructive" });
+    }
+  };
+
+  return { blockers, setBlockerStatus, setBlockerOwner };
+};
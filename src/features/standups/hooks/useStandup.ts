@@ -1,19 +1,22 @@
 import { useState, useEffect, useMemo } from "react";
-import { format } from "date-fns";
+import { addMinutes } from "date-fns";
 import {
   doc,
   onSnapshot,
-  updateDoc,
-  serverTimestamp,
   collection,
   query,
   getDocs,
   where,
-  writeBatch,
 } from "firebase/firestore";
-import { db } from "@/integrations/firebase/client";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/integrations/firebase/client";
 import { useToast } from "@/components/ui/use-toast";
+import { formatErrorForDisplay } from "@/lib/errorHandler";
 import { useUserAuth } from "@/context/UserAuthContext";
+import { useStandupSchedule } from "./useStandupSchedule";
+import { getStandupDocId, useTeams, type Team } from "@/hooks/use-teams";
+import { useSessionDateId } from "@/hooks/use-organization-settings";
+import { markLiveAttendance } from "@/hooks/use-attendance-audit";
 import type {
   Standup,
   Employee,
@@ -21,14 +24,20 @@ import type {
   AttendanceStatus,
 } from "../types";
 
-export const useStandup = () => {
+/**
+ * Drives today's standup for the given team, or the organization-wide standup
+ * when `team` is null.
+ */
+export const useStandup = (team: Team | null = null) => {
   const { user, isAdmin, isCoAdmin } = useUserAuth();
   const { toast } = useToast();
+  const { schedule } = useStandupSchedule();
+  const { teamByMember } = useTeams();
 
   const [isLoadingPage, setIsLoadingPage] = useState(true);
   const [standup, setStandup] = useState<Standup | null>(null);
   const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
-  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [allEmployees, setAllEmployees] = useState<Employee[]>([]);
   const [tempAttendance, setTempAttendance] = useState<
     Record<string, AttendanceStatus>
   >({});
@@ -50,10 +59,16 @@ export const useStandup = () => {
   const [activeSearchQuery, setActiveSearchQuery] = useState("");
   const [finalSearchQuery, setFinalSearchQuery] = useState("");
 
-  const todayDocId = useMemo(() => format(new Date(), "yyyy-MM-dd"), []);
+  const todayDocId = useSessionDateId();
+  const teamId = team?.id ?? null;
+  const standupDocId = getStandupDocId(todayDocId, teamId);
 
   useEffect(() => {
-    const standupRef = doc(db, "standups", todayDocId);
+    setIsLoadingPage(true);
+    // Switching teams must not carry over the previous team's marks
+    setTempAttendance({});
+    setAbsenceReasons({});
+    const standupRef = doc(db, "standups", standupDocId);
     const unsubscribe = onSnapshot(standupRef, (docSnap) => {
       if (docSnap.exists()) {
         const data = docSnap.data() as Standup;
@@ -70,19 +85,19 @@ export const useStandup = () => {
       setIsLoadingPage(false);
     });
     return () => unsubscribe();
-  }, [todayDocId]);
+  }, [standupDocId]);
 
   // Fetch employees only once on component mount
   useEffect(() => {
     const fetchEmployees = async () => {
       try {
-        const empSnapshot = await getDocs(
-          query(collection(db, "employees"), where("archived", "!=", true))
-        );
-        setEmployees(
-          empSnapshot.docs.map(
-            (doc) => ({ id: doc.id, ...doc.data() } as Employee)
-          )
+        // Archived employees are filtered in code, as in the functions: a
+        // `!=` query would also drop employees with no `archived` field
+        const empSnapshot = await getDocs(collection(db, "employees"));
+        setAllEmployees(
+          empSnapshot.docs
+            .filter((doc) => doc.data().archived !== true)
+            .map((doc) => ({ id: doc.id, ...doc.data() } as Employee))
         );
       } catch (error) {
         console.error("Error fetching employees:", error);
@@ -92,6 +107,16 @@ export const useStandup = () => {
     fetchEmployees();
   }, [toast]);
 
+  // Matches isOnStandupRoster in functions/src/teams.ts: a team standup
+  // covers its members, the organization-wide one everyone on no team
+  const employees = useMemo(
+    () =>
+      team
+        ? allEmployees.filter((emp) => team.memberIds.includes(emp.id))
+        : allEmployees.filter((emp) => !teamByMember.has(emp.id)),
+    [allEmployees, team, teamByMember]
+  );
+
   // Fetch final attendance only when the standup has ended
   useEffect(() => {
     const fetchFinalAttendance = async () => {
@@ -145,45 +170,42 @@ export const useStandup = () => {
     }
   }, [standup?.status, standup?.startedAt]);
 
+  // Present marks after this instant are recorded as Late
+  const lateCutoff = useMemo(() => {
+    const start = standup?.startedAt ?? standup?.scheduledTime;
+    return start ? addMinutes(start.toDate(), schedule.lateGraceMinutes) : null;
+  }, [standup?.startedAt, standup?.scheduledTime, schedule.lateGraceMinutes]);
+
   const handleStopStandup = async () => {
     if (!standup) return;
     setIsUpdatingStatus(true);
     try {
-      const batch = writeBatch(db);
-      for (const emp of employees) {
-        const attendanceDocRef = doc(
-          collection(db, "attendance"),
-          `${todayDocId}_${emp.id}`
-        );
-        const status = tempAttendance[emp.id] || "Missed";
-        const record: Omit<AttendanceRecord, "markedAt"> & { markedAt: any } = {
-          standup_id: todayDocId,
-          employee_id: emp.id,
-          employee_name: emp.name,
-          employee_email: emp.email,
-          employeeId: emp.employeeId,
-          status: status,
-          scheduled_at: standup.scheduledTime,
-          markedAt: serverTimestamp(),
-        };
-        if (status === "Not Available") {
-          record.reason = absenceReasons[emp.id] || "No reason provided";
+      // Attendance is written by the server from the marks saved on the standup doc
+      const endStandupNow = httpsCallable<
+        { teamId?: string },
+        {
+          success: boolean;
+          alreadyEnded: boolean;
+          attendanceRecords: number;
+          counts: Partial<Record<AttendanceStatus, number>>;
         }
-        batch.set(attendanceDocRef, record);
-      }
-      await batch.commit();
-      await updateDoc(doc(db, "standups", todayDocId), {
-        status: "ended",
-        endedAt: serverTimestamp(),
-        tempAttendance: tempAttendance,
-        absenceReasons: absenceReasons,
-      });
+      >(functions, "endStandupNow");
+      const { data } = await endStandupNow(team ? { teamId: team.id } : {});
+      const attended = (data.counts.Present ?? 0) + (data.counts.Late ?? 0);
       toast({
         title: "Standup Ended",
-        description: "Attendance has been saved.",
+        description: data.alreadyEnded
+          ? "This standup had already ended."
+          : `Attendance saved for ${data.attendanceRecords} members (${attended} attended).`,
       });
     } catch (error) {
-      console.error(error);
+      console.error("Error ending standup:", error);
+      const { title, description } = formatErrorForDisplay(
+        error,
+        "Error Ending Standup",
+        "ending the standup"
+      );
+      toast({ title, description, variant: "destructive" });
     } finally {
       setIsUpdatingStatus(false);
     }
@@ -202,9 +224,12 @@ export const useStandup = () => {
     setEditingAbsence(null);
 
     try {
-      await updateDoc(doc(db, "standups", todayDocId), {
-        [`tempAttendance.${employeeId}`]: "Not Available",
-        [`absenceReasons.${employeeId}`]: reason,
+      await markLiveAttendance({
+        sessionType: "standups",
+        teamId: team?.id,
+        employeeId,
+        status: "Not Available",
+        reason,
       });
       toast({ title: "Absence Recorded" });
     } catch (error) {
@@ -217,10 +242,19 @@ export const useStandup = () => {
     employeeId: string,
     status: AttendanceStatus
   ) => {
-    setTempAttendance((prev) => ({ ...prev, [employeeId]: status }));
+    // Marking someone present after the grace period records them as Late
+    const finalStatus: AttendanceStatus =
+      status === "Present" && lateCutoff && new Date() > lateCutoff
+        ? "Late"
+        : status;
+    setTempAttendance((prev) => ({ ...prev, [employeeId]: finalStatus }));
     try {
-      await updateDoc(doc(db, "standups", todayDocId), {
-        [`tempAttendance.${employeeId}`]: status,
+      // The function applies the same Late rule with the server's clock
+      await markLiveAttendance({
+        sessionType: "standups",
+        teamId: team?.id,
+        employeeId,
+        status,
       });
     } catch (error) {
       console.error("Error updating temp attendance:", error);
@@ -272,6 +306,7 @@ export const useStandup = () => {
 
   const sessionStats = useMemo(() => {
     let present = 0,
+      late = 0,
       absent = 0,
       missed = 0,
       notAvailable = 0;
@@ -281,6 +316,9 @@ export const useStandup = () => {
         case "Present":
           present++;
           break;
+        case "Late":
+          late++;
+          break;
         case "Absent":
           absent++;
           break;
@@ -295,6 +333,7 @@ export const useStandup = () => {
     return {
       total: employees.length,
       present,
+      late,
       absent,
       missed,
       notAvailable,
@@ -325,6 +364,7 @@ export const useStandup = () => {
     finalSearchQuery,
     setFinalSearchQuery,
     todayDocId,
+    standupDocId,
     handleStopStandup,
     handleSaveAbsenceReason,
     activeFilteredEmployees,
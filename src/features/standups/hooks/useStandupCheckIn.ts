@@ -0,0 +1,125 @@
+import { useState, useEffect } from "react";
+import { httpsCallable } from "firebase/functions";
+import { functions } from "@/integrations/firebase/client";
+import { useToast } from "@/components/ui/use-toast";
+import { formatErrorForDisplay } from "@/lib/errorHandler";
+
+type CheckInCode = { code: string; expiresAt: number };
+
+/**
+ * Builds the link encoded in the QR code. The code travels in the query string
+ * because the hash is used for view routing.
+ */
+export const buildCheckInUrl = (code: string) =>
+  `${window.location.origin}${window.location.pathname}?checkin=${code}#standups`;
+
+/**
+ * Admin side: fetches the current rotating check-in code and refreshes it when it expires.
+ * Each team standup has its own code.
+ */
+export const useCheckInCode = (enabled: boolean, teamId?: string) => {
+  const [checkInCode, setCheckInCode] = useState<CheckInCode | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let timeoutId: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+
+    const fetchCode = async () => {
+      try {
+        const getStandupCheckInCode = httpsCallable<
+          { teamId?: string },
+          CheckInCode
+        >(functions, "getStandupCheckInCode");
+        const result = await getStandupCheckInCode(teamId ? { teamId } : {});
+        if (cancelled) return;
+        setCheckInCode(result.data);
+        setError(null);
+        // Small buffer so the next request lands in the new window
+        timeoutId = setTimeout(
+          fetchCode,
+          Math.max(result.data.expiresAt - Date.now(), 0) + 250
+        );
+      } catch (err) {
+        console.error("Error fetching check-in code:", err);
+        if (cancelled) return;
+        setError("Could not load the check-in code.");
+        timeoutId = setTimeout(fetchCode, 10000);
+      }
+    };
+
+    fetchCode();
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [enabled, teamId]);
+
+  useEffect(() => {
+    if (!checkInCode) return;
+    const update = () =>
+      setSecondsLeft(
+        Math.max(Math.ceil((checkInCode.expiresAt - Date.now()) / 1000), 0)
+      );
+    update();
+    const intervalId = setInterval(update, 1000);
+    return () => clearInterval(intervalId);
+  }, [checkInCode]);
+
+  return { checkInCode, secondsLeft, error };
+};
+
+/**
+ * Employee side: submits a check-in code, prefilled from a scanned QR link if present.
+ */
+export const useStandupCheckIn = () => {
+  const { toast } = useToast();
+  const [code, setCode] = useState(
+    () => new URLSearchParams(window.location.search).get("checkin") ?? ""
+  );
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
+
+  const handleCheckIn = async () => {
+    if (!/^\d{6}$/.test(code.trim())) {
+      toast({
+        title: "Invalid Code",
+        description: "Enter the 6-digit code shown by your standup host.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsCheckingIn(true);
+    try {
+      const checkInToStandup = httpsCallable<
+        { code: string },
+        { success: boolean; message: string }
+      >(functions, "checkInToStandup");
+      const result = await checkInToStandup({ code: code.trim() });
+      toast({ title: "Checked In", description: result.data.message });
+      setCode("");
+      // Drop the scanned code from the URL so a refresh doesn't resubmit it
+      if (window.location.search) {
+        window.history.replaceState(
+          window.history.state,
+          "",
+          `${window.location.pathname}${window.location.hash}`
+        );
+      }
+    } catch (error) {
+      console.error("Error checking in:", error);
+      const { title, description } = formatErrorForDisplay(
+        error,
+        "Check-in Failed",
+        "checking in"
+      );
+      toast({ title, description, variant: "destructive" });
+    } finally {
+      setIsCheckingIn(false);
+    }
+  };
+
+  return { code, setCode, isCheckingIn, handleCheckIn };
+};
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  deleteField,
+  doc,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+} from "firebase/firestore";
+import { addMinutes, format, parse } from "date-fns";
+import { db } from "@/integrations/firebase/client";
+import { useToast } from "@/components/ui/use-toast";
+import { useUserAuth } from "@/context/UserAuthContext";
+import { useOrganizationSettings } from "@/hooks/use-organization-settings";
+import { formatErrorForDisplay } from "@/lib/errorHandler";
+import { getSessionDayOfWeek, zonedTimeToDate } from "@/lib/session-date";
+import type { Team } from "@/hooks/use-teams";
+import type { Standup, StandupSchedule } from "../types";
+
+/**
+ * Admin actions on a single standup day: cancel it with a reason, or move it
+ * to another time today. Both write the day's standup doc directly, creating it
+ * if the automation has not run yet so the scheduler leaves the day alone.
+ * Times are read in the organization time zone, as the scheduler does.
+ */
+export const useStandupDayActions = ({
+  standupDocId,
+  date,
+  team,
+  hasTeams,
+  standup,
+  schedule,
+}: {
+  standupDocId: string;
+  date: string; // yyyy-MM-dd
+  team: Team | null;
+  // With teams, the organization-wide standup only covers members on no team
+  hasTeams: boolean;
+  standup: Standup | null;
+  schedule: StandupSchedule;
+}) => {
+  const { user } = useUserAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { timeZone } = useOrganizationSettings();
+  const [isSavingDay, setIsSavingDay] = useState(false);
+
+  const daySchedule = schedule.days[String(getSessionDayOfWeek(date))];
+  const actorName = user?.displayName || user?.email || "Admin";
+  const teamFields = team
+    ? {
+        teamId: team.id,
+        teamName: team.name,
+        facilitatorId: team.facilitatorId,
+      }
+    : hasTeams
+      ? { forUnassigned: true }
+      : {};
+
+  // Cancellations change which days count as working days
+  const refreshCalendars = () => {
+    queryClient.invalidateQueries({ queryKey: ["cancelledStandups"] });
+    queryClient.invalidateQueries({ queryKey: ["attendanceStreak"] });
+  };
+
+  const cancelStandup = async (reason: string) => {
+    if (!reason.trim()) {
+      toast({ title: "Reason is required", variant: "destructive" });
+      return false;
+    }
+    setIsSavingDay(true);
+    try {
+      const defaultStart = zonedTimeToDate(
+        date,
+        team?.startTime || daySchedule.startTime,
+        timeZone,
+      );
+      await setDoc(
+        doc(db, "standups", standupDocId),
+        {
+          status: "cancelled",
+          date,
+          ...teamFields,
+          // Keep a start time on days cancelled before the automation created them
+          ...(standup
+            ? {}
+            : {
+                scheduledTime: Timestamp.fromDate(defaultStart),
+                scheduledBy: actorName,
+              }),
+          cancelReason: reason.trim(),
+          cancelledBy: actorName,
+          cancelledAt: serverTimestamp(),
+        },
+        { merge: true },
+      );
+      refreshCalendars();
+      toast({
+        title: "Standup Cancelled",
+        description: "Members will see the cancellation on their dashboard.",
+      });
+      return true;
+    } catch (error) {
+      console.error("Error cancelling standup:", error);
+      const { title, description } = formatErrorForDisplay(
+        error,
+        "Cancellation Failed",
+        "cancelling the standup",
+      );
+      toast({ title, description, variant: "destructive" });
+      return false;
+    } finally {
+      setIsSavingDay(false);
+    }
+  };
+
+  const rescheduleStandup = async (time: string) => {
+    const scheduledTime = zonedTimeToDate(date, time, timeZone);
+    if (isNaN(scheduledTime.getTime())) {
+      toast({
+        title: "Invalid Time",
+        description: "Please enter a valid time in HH:MM format (24-hour).",
+        variant: "destructive",
+      });
+      return false;
+    }
+    if (scheduledTime <= new Date()) {
+      toast({
+        title: "Time Invalid",
+        description: "The standup can only be moved to a later time today.",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    setIsSavingDay(true);
+    try {
+      await setDoc(
+        doc(db, "standups", standupDocId),
+        {
+          status: "scheduled",
+          date,
+          ...teamFields,
+          scheduledTime: Timestamp.fromDate(scheduledTime),
+          endTime: Timestamp.fromDate(
+            addMinutes(scheduledTime, daySchedule.durationMinutes),
+          ),
+          scheduledBy: actorName,
+          rescheduledAt: serverTimestamp(),
+          // Rescheduling a cancelled day reinstates it
+          cancelReason: deleteField(),
+          cancelledBy: deleteField(),
+          cancelledAt: deleteField(),
+        },
+        { merge: true },
+      );
+      if (standup?.status === "cancelled") {
+        refreshCalendars();
+      }
+      toast({
+        title: "Standup Rescheduled",
+        // The entered time is already the organization's wall-clock time
+        description: `Today's standup now starts at ${format(
+          parse(time, "HH:mm", new Date()),
+          "h:mm a",
+        )}.`,
+      });
+      return true;
+    } catch (error) {
+      console.error("Error rescheduling standup:", error);
+      const { title, description } = formatErrorForDisplay(
+        error,
+        "Rescheduling Failed",
+        "rescheduling the standup",
+      );
+      toast({ title, description, variant: "destructive" });
+      return false;
+    } finally {
+      setIsSavingDay(false);
+    }
+  };
+
+  return { isSavingDay, cancelStandup, rescheduleStandup };
+};
@@ -0,0 +1,94 @@
+import { useState, useEffect } from "react";
+import { doc, onSnapshot, setDoc, serverTimestamp } from "firebase/firestore";
+import { db } from "@/integrations/firebase/client";
+import { useToast } from "@/components/ui/use-toast";
+import { useUserAuth } from "@/context/UserAuthContext";
+import { useOrganizationSettings } from "@/hooks/use-organization-settings";
+import type { StandupSchedule } from "../types";
+
+// Matches DEFAULT_STANDUP_SCHEDULE in functions/src/config.ts
+export const DEFAULT_STANDUP_SCHEDULE: StandupSchedule = {
+  days: {
+    "0": { enabled: false, startTime: "08:45", durationMinutes: 15 },
+    "1": { enabled: true, startTime: "08:45", durationMinutes: 15 },
+    "2": { enabled: true, startTime: "08:45", durationMinutes: 15 },
+    "3": { enabled: true, startTime: "08:45", durationMinutes: 15 },
+    "4": { enabled: true, startTime: "08:45", durationMinutes: 15 },
+    "5": { enabled: true, startTime: "08:45", durationMinutes: 15 },
+    "6": { enabled: true, startTime: "08:45", durationMinutes: 15 },
+  },
+  lateGraceMinutes: 5,
+};
+
+const mergeWithDefaults = (
+  stored: Partial<StandupSchedule> | undefined
+): StandupSchedule => {
+  const days: StandupSchedule["days"] = {};
+  Object.entries(DEFAULT_STANDUP_SCHEDULE.days).forEach(([day, fallback]) => {
+    days[day] = { ...fallback, ...(stored?.days?.[day] || {}) };
+  });
+  return {
+    days,
+    lateGraceMinutes:
+      stored?.lateGraceMinutes ?? DEFAULT_STANDUP_SCHEDULE.lateGraceMinutes,
+  };
+};
+
+export const useStandupSchedule = () => {
+  const { user } = useUserAuth();
+  const { toast } = useToast();
+  const { timeZone, saveTimeZone } = useOrganizationSettings();
+  const [schedule, setSchedule] = useState<StandupSchedule>(
+    DEFAULT_STANDUP_SCHEDULE
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const ref = doc(db, "config", "standupSchedule");
+    const unsubscribe = onSnapshot(
+      ref,
+      (snap) => {
+        setSchedule(
+          mergeWithDefaults(
+            snap.exists() ? (snap.data() as StandupSchedule) : undefined
+          )
+        );
+        setIsLoading(false);
+      },
+      (error) => {
+        console.error("Error loading standup schedule:", error);
+        setIsLoading(false);
+      }
+    );
+    return () => unsubscribe();
+  }, []);
+
+  // The organization time zone is edited alongside the calendar because the
+  // start times are read in it
+  const saveSchedule = async (next: StandupSchedule, nextTimeZone: string) => {
+    setIsSaving(true);
+    try {
+      await setDoc(doc(db, "config", "standupSchedule"), {
+        days: next.days,
+        lateGraceMinutes: next.lateGraceMinutes,
+        updatedAt: serverTimestamp(),
+        updatedBy: user?.displayName || user?.email || "Admin",
+      });
+      if (nextTimeZone !== timeZone) await saveTimeZone(nextTimeZone);
+      toast({
+        title: "Schedule Saved",
+        description: "The new standup calendar applies from the next run.",
+      });
+      return true;
+    } catch (error) {
+      console.error("Error saving standup schedule:", error);
+      toast({ title: "Error saving schedule", variant: "destructive" });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return { schedule, timeZone, isLoading, isSaving, saveSchedule };
+};
@@ -0,0 +1,49 @@
+import { useMemo, useState } from "react";
+import { useUserAuth } from "@/context/UserAuthContext";
+import { useTeams } from "@/hooks/use-teams";
+
+// Select value for the organization-wide standup of members on no team
+export const NO_TEAM_ID = "__no-team__";
+
+/**
+ * Picks which team's standup the page shows. Facilitators land on the team they
+ * run and members on their own team; members on no team see the
+ * organization-wide standup. Admins and co-admins can switch between them all.
+ */
+export const useStandupTeam = () => {
+  const { user, isAdmin, isCoAdmin } = useUserAuth();
+  const { teams, teamByMember, isLoading } = useTeams();
+  const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
+  const canSwitchTeam = (isAdmin || isCoAdmin) && teams.length > 0;
+
+  const team = useMemo(() => {
+    if (teams.length === 0) return null;
+    if (selectedTeamId === NO_TEAM_ID && canSwitchTeam) return null;
+    const selected = teams.find((t) => t.id === selectedTeamId);
+    if (selected && canSwitchTeam) return selected;
+    const uid = user?.uid ?? "";
+    const facilitated =
+      isAdmin || isCoAdmin
+        ? teams.find((t) => t.facilitatorId === uid)
+        : undefined;
+    const ownTeam = teamByMember.get(uid);
+    if (isAdmin || isCoAdmin) return facilitated ?? ownTeam ?? teams[0];
+    return ownTeam ?? null;
+  }, [
+    teams,
+    teamByMember,
+    selectedTeamId,
+    canSwitchTeam,
+    user?.uid,
+    isAdmin,
+    isCoAdmin,
+  ]);
+
+  return {
+    teams,
+    team,
+    setSelectedTeamId,
+    canSwitchTeam,
+    isLoadingTeams: isLoading,
+  };
+};
@@ -0,0 +1,82 @@
+import { useState, useEffect } from "react";
+import { collection, onSnapshot } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/integrations/firebase/client";
+import { useToast } from "@/components/ui/use-toast";
+import { useUserAuth } from "@/context/UserAuthContext";
+import { formatErrorForDisplay } from "@/lib/errorHandler";
+import type { StandupUpdate } from "../types";
+
+export type StandupUpdateDraft = Pick<
+  StandupUpdate,
+  "yesterday" | "today" | "blockers"
+>;
+
+/**
+ * Listens to the updates posted against a standup and submits the current
+ * user's own update. Pass a null id while there is no standup document.
+ */
+export const useStandupUpdates = (standupDocId: string | null) => {
+  const { user } = useUserAuth();
+  const { toast } = useToast();
+  const [updates, setUpdates] = useState<StandupUpdate[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!standupDocId) {
+      setUpdates([]);
+      return;
+    }
+    const unsubscribe = onSnapshot(
+      collection(db, "standups", standupDocId, "updates"),
+      (snapshot) => {
+        setUpdates(
+          snapshot.docs
+            .map((d) => ({ ...(d.data() as StandupUpdate), employeeId: d.id }))
+            .sort((a, b) => a.employeeName.localeCompare(b.employeeName))
+        );
+      },
+      (error) => {
+        console.error("Error loading standup updates:", error);
+      }
+    );
+    return () => unsubscribe();
+  }, [standupDocId]);
+
+  const myUpdate = updates.find((u) => u.employeeId === user?.uid) ?? null;
+
+  const submitUpdate = async (draft: StandupUpdateDraft) => {
+    if (!draft.today.trim()) {
+      toast({
+        title: "Today's Plan Required",
+        description: "Share what you plan to work on today.",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const submitStandupUpdate = httpsCallable<
+        StandupUpdateDraft,
+        { success: boolean; message: string }
+      >(functions, "submitStandupUpdate");
+      const result = await submitStandupUpdate(draft);
+      toast({ title: "Update Posted", description: result.data.message });
+      return true;
+    } catch (error) {
+      console.error("Error submitting standup update:", error);
+      const { title, description } = formatErrorForDisplay(
+        error,
+        "Update Failed",
+        "posting your update"
+      );
+      toast({ title, description, variant: "destructive" });
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return { updates, myUpdate, isSubmitting, submitUpdate };
+};
@@ -1,11 +1,30 @@
+import { useState } from "react";
 import { AnimatePresence, motion, easeInOut } from "framer-motion";
-import { Loader2, Users, Calendar, Clock } from "lucide-react";
+import { Loader2, Users, Calendar, Clock, Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Team } from "@/hooks/use-teams";
 import { useStandup } from "../hooks/useStandup";
+import { useStandupSchedule } from "../hooks/useStandupSchedule";
+import { useStandupCheckIn } from "../hooks/useStandupCheckIn";
+import { NO_TEAM_ID, useStandupTeam } from "../hooks/useStandupTeam";
+import { useStandupUpdates } from "../hooks/useStandupUpdates";
+import { useStandupDayActions } from "../hooks/useStandupDayActions";
+import { useHolidays } from "@/hooks/use-holidays";
+import { formatTimeInZone, getSessionDayOfWeek } from "@/lib/session-date";
 import { AbsenceReasonModal } from "../components/AbsenceReasonModal";
+import { StandupScheduleDialog } from "../components/StandupScheduleDialog";
 import { StandupNotScheduledView } from "../views/StandupNotScheduledView";
 import { StandupScheduledView } from "../views/StandupScheduledView";
 import { StandupActiveAdminView } from "../views/StandupActiveAdminView";
 import { StandupSummaryView } from "../views/StandupSummaryView";
+import { StandupCancelledView } from "../views/StandupCancelledView";
 
 // [LOGIC PRESERVED] - Animation variants unchanged
 const pageAnimationProps = {
@@ -52,7 +71,18 @@ const LoadingSkeleton = () => (
 );
 
 // --- Page Header Component ---
-const PageHeader = () => {
+const PageHeader = ({
+  onEditSchedule,
+  team,
+  teams,
+  onTeamChange,
+}: {
+  onEditSchedule?: () => void;
+  team: Team | null;
+  teams: Team[];
+  // Present only when the viewer can switch between teams
+  onTeamChange?: (teamId: string) => void;
+}) => {
   const today = new Date();
   const formattedDate = today.toLocaleDateString("en-US", {
     weekday: "long",
@@ -83,19 +113,46 @@ const PageHeader = () => {
             Daily Standups
           </h1>
           <p className="text-muted-foreground mt-1">
-            Manage and view daily standup sessions for your team.
+            {team
+              ? `Daily standup for ${team.name}.`
+              : teams.length > 0
+                ? "Daily standup for members who are not on a team."
+                : "Manage and view daily standup sessions for your team."}
           </p>
         </div>
 
-        {/* Time Indicator */}
-        <div className="flex items-center gap-2 text-sm text-muted-foreground bg-muted/50 px-3 py-2 rounded-lg">
-          <Clock className="h-4 w-4" aria-hidden="true" />
-          <span>
-            {today.toLocaleTimeString("en-US", {
-              hour: "2-digit",
-              minute: "2-digit",
-            })}
-          </span>
+        <div className="flex items-center gap-2">
+          {onTeamChange && (
+            <Select value={team?.id ?? NO_TEAM_ID} onValueChange={onTeamChange}>
+              <SelectTrigger className="h-9 w-[180px]" aria-label="Team">
+                <SelectValue placeholder="Select team" />
+              </SelectTrigger>
+              <SelectContent>
+                {teams.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.name}
+                  </SelectItem>
+                ))}
+                <SelectItem value={NO_TEAM_ID}>No team</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          {onEditSchedule && (
+            <Button variant="outline" size="sm" onClick={onEditSchedule}>
+              <Settings2 className="mr-2 h-4 w-4" aria-hidden="true" />
+              Schedule
+            </Button>
+          )}
+          {/* Time Indicator */}
+          <div className="flex items-center gap-2 text-sm text-muted-foreground bg-muted/50 px-3 py-2 rounded-lg">
+            <Clock className="h-4 w-4" aria-hidden="true" />
+            <span>
+              {today.toLocaleTimeString("en-US", {
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+            </span>
+          </div>
         </div>
       </div>
     </motion.header>
@@ -104,8 +161,11 @@ const PageHeader = () => {
 
 // --- Main Page Component ---
 export default function StandupsPage() {
+  const { teams, team, setSelectedTeamId, canSwitchTeam, isLoadingTeams } =
+    useStandupTeam();
   // [LOGIC PRESERVED] - All hook usage and state management unchanged
   const {
+    user,
     isAdmin,
     isCoAdmin,
     isLoadingPage,
@@ -133,21 +193,71 @@ export default function StandupsPage() {
     sessionStats,
     handleBeginMarkUnavailable,
     handleSetTempAttendance,
-  } = useStandup();
+    todayDocId,
+    standupDocId,
+  } = useStandup(team);
+  const { updates, myUpdate, isSubmitting, submitUpdate } = useStandupUpdates(
+    standup ? standupDocId : null
+  );
+  const updateForm = { myUpdate, isSubmitting, onSubmit: submitUpdate };
+  const { schedule, timeZone, isSaving, saveSchedule } = useStandupSchedule();
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
+  const { holidays } = useHolidays();
+  const { code, setCode, isCheckingIn, handleCheckIn } = useStandupCheckIn();
+  const todayHoliday = holidays.find((h) => h.date === todayDocId);
+  const { isSavingDay, cancelStandup, rescheduleStandup } =
+    useStandupDayActions({
+      standupDocId,
+      date: todayDocId,
+      team,
+      hasTeams: teams.length > 0,
+      standup,
+      schedule,
+    });
+  const dayActions =
+    isAdmin || isCoAdmin
+      ? {
+          isSavingDay,
+          defaultTime: standup
+            ? formatTimeInZone(standup.scheduledTime.toDate(), timeZone)
+            : team?.startTime ||
+              schedule.days[String(getSessionDayOfWeek(todayDocId))].startTime,
+          canCancel: standup?.status !== "cancelled",
+          onCancel: cancelStandup,
+          onReschedule: rescheduleStandup,
+        }
+      : undefined;
 
   // [LOGIC PRESERVED] - Render logic unchanged
   const renderContent = () => {
-    if (isLoadingPage) {
+    if (isLoadingPage || isLoadingTeams) {
       return <LoadingSkeleton />;
     }
 
     if (!standup) {
-      return <StandupNotScheduledView />;
+      return (
+        <StandupNotScheduledView
+          schedule={schedule}
+          date={todayDocId}
+          holidayName={todayHoliday?.name}
+          dayActions={dayActions}
+        />
+      );
     }
 
     switch (standup.status) {
       case "scheduled":
-        return <StandupScheduledView standup={standup} />;
+        return (
+          <StandupScheduledView
+            standup={standup}
+            update={updateForm}
+            dayActions={dayActions}
+          />
+        );
+      case "cancelled":
+        return (
+          <StandupCancelledView standup={standup} dayActions={dayActions} />
+        );
       case "active":
         if (isAdmin || isCoAdmin) {
           return (
@@ -166,19 +276,26 @@ export default function StandupsPage() {
               absenceReasons={absenceReasons}
               onSetTempAttendance={handleSetTempAttendance}
               onMarkUnavailable={handleBeginMarkUnavailable}
+              updates={updates}
+              employees={employees}
             />
           );
         }
+        // Members check themselves in while the session is live
         return (
-          <StandupSummaryView
+          <StandupScheduledView
             standup={standup}
-            savedAttendance={savedAttendance}
-            employees={employees}
-            finalFilter={finalFilter}
-            setFinalFilter={setFinalFilter}
-            finalFilteredEmployees={finalFilteredEmployees}
-            finalSearchQuery={finalSearchQuery}
-            setFinalSearchQuery={setFinalSearchQuery}
+            checkIn={{
+              code,
+              setCode,
+              isCheckingIn,
+              isCheckedIn:
+                !!user &&
+                (tempAttendance[user.uid] === "Present" ||
+                  tempAttendance[user.uid] === "Late"),
+              onCheckIn: handleCheckIn,
+            }}
+            update={updateForm}
           />
         );
       case "ended":
@@ -192,6 +309,7 @@ export default function StandupsPage() {
             finalFilteredEmployees={finalFilteredEmployees}
             finalSearchQuery={finalSearchQuery}
             setFinalSearchQuery={setFinalSearchQuery}
+            updates={updates}
           />
         );
       default:
@@ -201,7 +319,12 @@ export default function StandupsPage() {
 
   return (
     <div className="space-y-6 pb-8">
-      <PageHeader />
+      <PageHeader
+        onEditSchedule={isAdmin ? () => setIsScheduleOpen(true) : undefined}
+        team={team}
+        teams={teams}
+        onTeamChange={canSwitchTeam ? setSelectedTeamId : undefined}
+      />
 
       {/* Main Content Area */}
       <AnimatePresence mode="wait">{renderContent()}</AnimatePresence>
@@ -213,6 +336,17 @@ export default function StandupsPage() {
         onClose={() => setEditingAbsence(null)}
         onSave={handleSaveAbsenceReason}
       />
+
+      {isAdmin && (
+        <StandupScheduleDialog
+          isOpen={isScheduleOpen}
+          onClose={() => setIsScheduleOpen(false)}
+          schedule={schedule}
+          timeZone={timeZone}
+          isSaving={isSaving}
+          onSave={saveSchedule}
+        />
+      )}
     </div>
   );
 }
@@ -1,15 +1,64 @@
 import type { Timestamp } from "firebase/firestore";
 
-export type AttendanceStatus = "Present" | "Absent" | "Missed" | "Not Available";
+export type AttendanceStatus =
+  | "Present"
+  | "Late"
+  | "Absent"
+  | "Missed"
+  | "Not Available";
 
 export type Standup = {
-  status: "scheduled" | "active" | "ended";
+  status: "scheduled" | "active" | "ended" | "cancelled";
+  date?: string; // yyyy-MM-dd; set on team standups, whose id is `{date}_{teamId}`
+  teamId?: string;
+  teamName?: string;
+  facilitatorId?: string | null;
   scheduledTime: Timestamp;
+  endTime?: Timestamp;
   startedAt?: Timestamp;
   endedAt?: Timestamp;
   scheduledBy: string;
   tempAttendance?: Record<string, AttendanceStatus>;
   absenceReasons?: Record<string, string>;
+  // When each member checked themselves in with the session code
+  checkIns?: Record<string, Timestamp>;
+  // When an admin marked each member present, used to detect late arrivals
+  markedTimes?: Record<string, Timestamp>;
+  // Set when an admin cancels the day; moving it to a new time clears them
+  cancelReason?: string;
+  cancelledBy?: string;
+  cancelledAt?: Timestamp;
+  rescheduledAt?: Timestamp;
+};
+
+// Stored at `standups/{id}/updates/{employeeId}`
+export type StandupUpdate = {
+  employeeId: string;
+  employeeName: string;
+  yesterday: string;
+  today: string;
+  blockers: string;
+  submittedAt?: Timestamp;
+  updatedAt?: Timestamp;
+};
+
+export type BlockerStatus = "open" | "in-progress" | "resolved";
+
+// Stored at `blockers/{date}_{raisedBy}`; raised from a standup update
+export type Blocker = {
+  id: string;
+  raisedBy: string;
+  raisedByName: string;
+  description: string;
+  ownerId: string | null;
+  ownerName: string | null;
+  status: BlockerStatus;
+  teamId: string | null;
+  // Every standup date the blocker was raised on or carried over to
+  standupDates: string[];
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+  resolvedAt?: Timestamp;
 };
 
 export type Employee = {
@@ -30,4 +79,22 @@ export type AttendanceRecord = {
   scheduled_at: Timestamp;
   markedAt: Timestamp;
   reason?: string;
+  marked_time?: Timestamp;
+  minutes_late?: number;
+  team_id?: string;
+  team_name?: string;
+};
+
+
+export type StandupDaySchedule = {
+  enabled: boolean;
+  startTime: string; // HH:mm, 24-hour
+  durationMinutes: number;
+};
+
+// Stored at `config/standupSchedule`; days are keyed by Date#getDay (0 = Sunday)
+export type StandupSchedule = {
+  days: Record<string, StandupDaySchedule>;
+  // Minutes after the session starts before a Present mark becomes Late
+  lateGraceMinutes: number;
 };
@@ -5,7 +5,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Loader2, StopCircle, Users, Search } from "lucide-react";
 import { AttendanceCard } from "../components/AttendanceCard";
 import { SessionStatistics } from "../components/SessionStatistics";
-import type { Employee, AttendanceStatus, Standup } from "../types";
+import { CheckInCodePanel } from "../components/CheckInCodePanel";
+import { StandupUpdatesList } from "../components/StandupUpdatesList";
+import { OpenBlockersPanel } from "../components/OpenBlockersPanel";
+import type {
+  Employee,
+  AttendanceStatus,
+  Standup,
+  StandupUpdate,
+} from "../types";
 import { useEffect, useState } from "react";
 import { differenceInSeconds } from "date-fns";
 import { cn } from "@/lib/utils";
@@ -59,6 +67,8 @@ interface StandupActiveAdminViewProps {
   onSetTempAttendance: (employeeId: string, status: AttendanceStatus) => void;
   onMarkUnavailable: (employee: Employee) => void;
   standup: Standup;
+  updates: StandupUpdate[];
+  employees: Employee[];
 }
 
 // --- Timer Card Component ---
@@ -142,6 +152,8 @@ export const StandupActiveAdminView = ({
   onSetTempAttendance,
   onMarkUnavailable,
   standup,
+  updates,
+  employees,
 }: StandupActiveAdminViewProps) => {
   // [LOGIC PRESERVED] - Auto-close timer logic unchanged
   const [autoCloseTime, setAutoCloseTime] = useState("");
@@ -150,9 +162,12 @@ export const StandupActiveAdminView = ({
     if (standup?.scheduledTime) {
       const intervalId = setInterval(() => {
         const now = new Date();
-        const scheduled = standup.scheduledTime.toDate();
-        scheduled.setMinutes(scheduled.getMinutes() + 15);
-        const diff = differenceInSeconds(scheduled, now);
+        // Older docs have no endTime; they used the fixed 15 minute window
+        const closesAt = standup.endTime
+          ? standup.endTime.toDate()
+          : standup.scheduledTime.toDate();
+        if (!standup.endTime) closesAt.setMinutes(closesAt.getMinutes() + 15);
+        const diff = differenceInSeconds(closesAt, now);
 
         if (diff <= 0) {
           setAutoCloseTime("00:00");
@@ -211,6 +226,11 @@ export const StandupActiveAdminView = ({
                   Standup in Progress
                 </h2>
                 <p className="text-muted-foreground mt-1">
+                  {standup.teamName && (
+                    <span className="font-medium text-foreground">
+                      {standup.teamName}:{" "}
+                    </span>
+                  )}
                   Mark attendance for each team member below.
                 </p>
               </div>
@@ -256,6 +276,9 @@ export const StandupActiveAdminView = ({
       {/* Statistics */}
       <SessionStatistics stats={sessionStats} />
 
+      {/* Self Check-in */}
+      <CheckInCodePanel teamId={standup.teamId} />
+
       {/* Attendance Roster Section */}
       <section aria-labelledby="roster-heading">
         <Card className="border shadow-sm">
@@ -310,6 +333,12 @@ export const StandupActiveAdminView = ({
                       currentFilter={activeFilter}
                       onFilter={setActiveFilter}
                     />
+                    <FilterButton
+                      label="Late"
+                      filterValue="Late"
+                      currentFilter={activeFilter}
+                      onFilter={setActiveFilter}
+                    />
                     <FilterButton
                       label="Absent"
                       filterValue="Absent"
@@ -382,6 +411,12 @@ export const StandupActiveAdminView = ({
           </CardContent>
         </Card>
       </section>
+
+      {/* Async Updates */}
+      <StandupUpdatesList updates={updates} rosterSize={sessionStats.total} />
+
+      {/* Blockers carried over until resolved */}
+      <OpenBlockersPanel employees={employees} />
     </motion.div>
   );
 };
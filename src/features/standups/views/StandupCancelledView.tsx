@@ -0,0 +1,88 @@
+import { motion, Variants } from "framer-motion";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent } from "@/components/ui/card";
+import { CalendarX2, Info } from "lucide-react";
+import type { Standup } from "../types";
+import {
+  StandupDayActions,
+  type StandupDayActionsProps,
+} from "../components/StandupDayActions";
+
+const pageAnimationProps: {
+  variants: Variants;
+  initial: string;
+  animate: string;
+  exit: string;
+} = {
+  variants: {
+    initial: { opacity: 0, y: 20 },
+    animate: {
+      opacity: 1,
+      y: 0,
+      transition: { duration: 0.4, ease: "easeInOut" },
+    },
+    exit: {
+      opacity: 0,
+      y: -20,
+      transition: { duration: 0.3, ease: "easeInOut" },
+    },
+  },
+  initial: "initial",
+  animate: "animate",
+  exit: "exit",
+};
+
+export const StandupCancelledView = ({
+  standup,
+  dayActions,
+}: {
+  standup: Standup;
+  // Present only for admins; rescheduling reinstates the day
+  dayActions?: StandupDayActionsProps;
+}) => (
+  <motion.div
+    key="cancelled"
+    className="flex-grow flex items-center justify-center p-4 min-h-[50vh]"
+    {...pageAnimationProps}
+  >
+    <Card className="max-w-lg w-full shadow-lg border-border/50 overflow-hidden">
+      <div className="relative bg-muted/20 p-8 pb-12">
+        <motion.div
+          initial={{ scale: 0.8, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          transition={{ delay: 0.2, type: "spring", stiffness: 200 }}
+          className="relative mx-auto w-20 h-20 rounded-2xl bg-destructive/5 border border-border/50 flex items-center justify-center"
+        >
+          <CalendarX2
+            className="h-10 w-10 text-destructive"
+            aria-hidden="true"
+          />
+        </motion.div>
+      </div>
+
+      <CardContent className="p-6 -mt-6 relative space-y-6">
+        <Alert className="border-border/50 bg-card shadow-sm">
+          <AlertTitle className="text-lg font-semibold text-foreground mb-2">
+            {standup.teamName
+              ? `${standup.teamName}'s standup is cancelled today`
+              : "Today's standup is cancelled"}
+          </AlertTitle>
+          <AlertDescription className="text-muted-foreground leading-relaxed">
+            {standup.cancelReason || "No reason was given."}
+          </AlertDescription>
+        </Alert>
+
+        <div className="flex items-start gap-2.5 p-3 rounded-lg bg-muted text-sm text-muted-foreground">
+          <Info className="h-4 w-4 mt-0.5 flex-shrink-0" aria-hidden="true" />
+          <p>
+            Nobody is marked for today, and it does not count against your
+            streak.
+            {standup.cancelledBy && ` Cancelled by ${standup.cancelledBy}.`}
+          </p>
+        </div>
+
+        {dayActions && <StandupDayActions {...dayActions} />}
+      </CardContent>
+    </Card>
+  </motion.div>
+);
@@ -2,6 +2,18 @@ import { motion, Variants } from "framer-motion";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Card, CardContent } from "@/components/ui/card";
 import { CalendarClock, Clock, Info, Sparkles } from "lucide-react";
+import { format, parse } from "date-fns";
+import { getSessionDayOfWeek } from "@/lib/session-date";
+import type { StandupSchedule } from "../types";
+import {
+  StandupDayActions,
+  type StandupDayActionsProps,
+} from "../components/StandupDayActions";
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatStartTime = (time: string) =>
+  format(parse(time, "HH:mm", new Date()), "h:mm a");
 
 // [LOGIC PRESERVED] - Animation variants unchanged
 const pageAnimationProps: {
@@ -28,7 +40,24 @@ const pageAnimationProps: {
   exit: "exit",
 };
 
-export const StandupNotScheduledView = () => {
+export const StandupNotScheduledView = ({
+  schedule,
+  date,
+  holidayName,
+  dayActions,
+}: {
+  schedule: StandupSchedule;
+  date: string; // yyyy-MM-dd in the organization time zone
+  holidayName?: string;
+  // Present only for admins
+  dayActions?: StandupDayActionsProps;
+}) => {
+  const today = schedule.days[String(getSessionDayOfWeek(date))];
+  // Monday-first list of the weekdays standups run on
+  const enabledDays = [1, 2, 3, 4, 5, 6, 0]
+    .filter((day) => schedule.days[String(day)]?.enabled)
+    .map((day) => DAY_LABELS[day]);
+
   return (
     <motion.div
       key="no-standup"
@@ -77,10 +106,28 @@ export const StandupNotScheduledView = () => {
                   Standup Automation
                 </AlertTitle>
                 <AlertDescription className="text-muted-foreground leading-relaxed">
-                  Standups are automatically scheduled for{" "}
-                  <span className="font-semibold text-foreground">8:45 AM</span>{" "}
-                  every day, except Sundays. The session will start
-                  automatically.
+                  {holidayName ? (
+                    <>
+                      No standup today, it is a holiday:{" "}
+                      <span className="font-semibold text-foreground">
+                        {holidayName}
+                      </span>
+                      .
+                    </>
+                  ) : today.enabled ? (
+                    <>
+                      Today&apos;s standup is automatically scheduled for{" "}
+                      <span className="font-semibold text-foreground">
+                        {formatStartTime(today.startTime)}
+                      </span>
+                      . The session will start automatically.
+                    </>
+                  ) : (
+                    "No standup runs today."
+                  )}{" "}
+                  {enabledDays.length > 0
+                    ? `Standups run on ${enabledDays.join(", ")}.`
+                    : "Standups are currently disabled on every day."}
                 </AlertDescription>
               </div>
             </div>
@@ -94,8 +141,10 @@ export const StandupNotScheduledView = () => {
                 aria-hidden="true"
               />
               <div>
-                <p className="text-sm font-medium text-foreground">8:45 AM</p>
-                <p className="text-xs text-muted-foreground">Default time</p>
+                <p className="text-sm font-medium text-foreground">
+                  {today.enabled ? formatStartTime(today.startTime) : "Off"}
+                </p>
+                <p className="text-xs text-muted-foreground">Today&apos;s time</p>
               </div>
             </div>
             <div className="flex items-center gap-3 p-3 rounded-lg bg-muted/50">
@@ -104,12 +153,20 @@ export const StandupNotScheduledView = () => {
                 aria-hidden="true"
               />
               <div>
-                <p className="text-sm font-medium text-foreground">15 mins</p>
+                <p className="text-sm font-medium text-foreground">
+                  {today.durationMinutes} mins
+                </p>
                 <p className="text-xs text-muted-foreground">Auto-close</p>
               </div>
             </div>
           </div>
 
+          {dayActions && !holidayName && (
+            <div className="mt-6">
+              <StandupDayActions {...dayActions} />
+            </div>
+          )}
+
           {/* Status Indicator */}
           <div className="mt-6 flex items-center justify-center gap-2 text-sm text-muted-foreground">
             <span className="relative flex h-2 w-2">
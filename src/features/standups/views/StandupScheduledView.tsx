@@ -7,8 +7,25 @@ import {
   CardContent,
   CardDescription,
 } from "@/components/ui/card";
-import { Calendar, Clock, Users, Sparkles } from "lucide-react";
-import type { Standup } from "../types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Calendar,
+  CheckCircle2,
+  Clock,
+  Loader2,
+  LogIn,
+  Users,
+  Sparkles,
+} from "lucide-react";
+import type { Standup, StandupUpdate } from "../types";
+import type { StandupUpdateDraft } from "../hooks/useStandupUpdates";
+import { StandupUpdateForm } from "../components/StandupUpdateForm";
+import {
+  StandupDayActions,
+  type StandupDayActionsProps,
+} from "../components/StandupDayActions";
 
 // [LOGIC PRESERVED] - Animation variants unchanged
 const pageAnimationProps: {
@@ -35,13 +52,93 @@ const pageAnimationProps: {
   exit: "exit",
 };
 
-// [LOGIC PRESERVED] - Props interface unchanged
+interface StandupCheckInProps {
+  code: string;
+  setCode: (code: string) => void;
+  isCheckingIn: boolean;
+  isCheckedIn: boolean;
+  onCheckIn: () => void;
+}
+
+interface StandupUpdateProps {
+  myUpdate: StandupUpdate | null;
+  isSubmitting: boolean;
+  onSubmit: (draft: StandupUpdateDraft) => Promise<boolean>;
+}
+
 interface StandupScheduledViewProps {
   standup: Standup;
+  // Present only for members while the standup is active
+  checkIn?: StandupCheckInProps;
+  update?: StandupUpdateProps;
+  // Present only for admins while the standup has not started
+  dayActions?: StandupDayActionsProps;
 }
 
+const CheckInForm = ({
+  code,
+  setCode,
+  isCheckingIn,
+  isCheckedIn,
+  onCheckIn,
+}: StandupCheckInProps) => {
+  if (isCheckedIn) {
+    return (
+      <div className="flex items-center justify-center gap-2 p-4 rounded-xl bg-green-50 dark:bg-green-950/20 border border-green-200 dark:border-green-800/50">
+        <CheckCircle2
+          className="h-5 w-5 text-green-600 dark:text-green-400"
+          aria-hidden="true"
+        />
+        <p className="text-sm font-medium text-foreground">
+          You are marked present for today&apos;s standup
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="space-y-3 p-4 rounded-xl bg-primary/5 border border-primary/10 text-left"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onCheckIn();
+      }}
+    >
+      <Label htmlFor="check-in-code" className="text-sm font-semibold">
+        Check in with the session code
+      </Label>
+      <div className="flex gap-2">
+        <Input
+          id="check-in-code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={6}
+          placeholder="6-digit code"
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+          className="tracking-[0.3em] tabular-nums"
+        />
+        <Button type="submit" disabled={isCheckingIn || code.length !== 6}>
+          {isCheckingIn ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+          ) : (
+            <LogIn className="mr-2 h-4 w-4" aria-hidden="true" />
+          )}
+          Check In
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        The code is shown by your standup host and changes every 30 seconds.
+      </p>
+    </form>
+  );
+};
+
 export const StandupScheduledView = ({
   standup,
+  checkIn,
+  update,
+  dayActions,
 }: StandupScheduledViewProps) => (
   <motion.div
     key="scheduled"
@@ -83,7 +180,9 @@ export const StandupScheduledView = ({
           {/* Badge */}
           <div className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full bg-primary/10 text-primary text-xs font-semibold mb-4">
             <Sparkles className="h-3 w-3" aria-hidden="true" />
-            <span>Scheduled</span>
+            <span>
+              {standup.status === "active" ? "In Progress" : "Scheduled"}
+            </span>
           </div>
 
           <CardTitle className="text-2xl sm:text-3xl font-bold text-foreground">
@@ -121,22 +220,39 @@ export const StandupScheduledView = ({
               />
             </div>
             <div className="text-left">
-              <p className="text-lg font-bold text-foreground">Team</p>
-              <p className="text-xs text-muted-foreground">All members</p>
+              <p className="text-lg font-bold text-foreground">
+                {standup.teamName ?? "Team"}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {standup.teamName ? "Team standup" : "All members"}
+              </p>
             </div>
           </div>
         </div>
 
-        {/* Auto Start Notice */}
-        <div className="flex items-center justify-center gap-2 p-4 rounded-xl bg-primary/5 border border-primary/10">
-          <span className="relative flex h-2.5 w-2.5">
-            <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75" />
-            <span className="relative inline-flex rounded-full h-2.5 w-2.5 bg-green-500" />
-          </span>
-          <p className="text-sm font-medium text-foreground">
-            The session will start automatically
-          </p>
-        </div>
+        {checkIn ? (
+          <CheckInForm {...checkIn} />
+        ) : (
+          /* Auto Start Notice */
+          <div className="flex items-center justify-center gap-2 p-4 rounded-xl bg-primary/5 border border-primary/10">
+            <span className="relative flex h-2.5 w-2.5">
+              <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75" />
+              <span className="relative inline-flex rounded-full h-2.5 w-2.5 bg-green-500" />
+            </span>
+            <p className="text-sm font-medium text-foreground">
+              The session will start automatically
+            </p>
+          </div>
+        )}
+
+        {dayActions && <StandupDayActions {...dayActions} />}
+
+        {update && (
+          <StandupUpdateForm
+            {...update}
+            countsAsPresence={standup.status === "active"}
+          />
+        )}
       </CardContent>
     </Card>
   </motion.div>
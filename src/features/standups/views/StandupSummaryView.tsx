@@ -24,11 +24,13 @@ import {
   Timer,
 } from "lucide-react";
 import { AttendanceCard } from "../components/AttendanceCard";
+import { StandupUpdatesList } from "../components/StandupUpdatesList";
 import type {
   Standup,
   Employee,
   AttendanceRecord,
   AttendanceStatus,
+  StandupUpdate,
 } from "../types";
 import { FC } from "react";
 import { cn } from "@/lib/utils";
@@ -61,6 +63,7 @@ interface StandupSummaryViewProps {
   finalFilteredEmployees: Employee[];
   finalSearchQuery: string;
   setFinalSearchQuery: (query: string) => void;
+  updates: StandupUpdate[];
 }
 
 export const StandupSummaryView = (props: StandupSummaryViewProps) => (
@@ -130,6 +133,7 @@ const EndedViewLayout = ({
   finalFilteredEmployees,
   finalSearchQuery,
   setFinalSearchQuery,
+  updates,
 }: StandupSummaryViewProps) => {
   // [LOGIC PRESERVED] - All filtering and stats logic unchanged
   const activeEmployees = employees.filter((emp) => !emp.archived);
@@ -139,6 +143,9 @@ const EndedViewLayout = ({
     Present: Object.values(savedAttendance).filter(
       (a) => a.status === "Present" && activeEmployeeIds.has(a.employee_id)
     ).length,
+    Late: Object.values(savedAttendance).filter(
+      (a) => a.status === "Late" && activeEmployeeIds.has(a.employee_id)
+    ).length,
     Absent: Object.values(savedAttendance).filter(
       (a) => a.status === "Absent" && activeEmployeeIds.has(a.employee_id)
     ).length,
@@ -154,7 +161,11 @@ const EndedViewLayout = ({
 
   const attendanceRate =
     summaryStats["Total Team"] > 0
-      ? Math.round((summaryStats.Present / summaryStats["Total Team"]) * 100)
+      ? Math.round(
+          ((summaryStats.Present + summaryStats.Late) /
+            summaryStats["Total Team"]) *
+            100
+        )
       : 0;
 
   return (
@@ -245,6 +256,13 @@ const EndedViewLayout = ({
               color="text-green-600 dark:text-green-400"
               bgColor="bg-green-500/10"
             />
+            <SummaryStat
+              icon={Clock}
+              label="Late"
+              value={summaryStats.Late}
+              color="text-blue-600 dark:text-blue-400"
+              bgColor="bg-blue-500/10"
+            />
             <SummaryStat
               icon={UserMinus}
               label="Absent"
@@ -342,6 +360,11 @@ const EndedViewLayout = ({
             </motion.div>
           </CardContent>
         </Card>
+
+        <StandupUpdatesList
+          updates={updates}
+          rosterSize={activeEmployees.length}
+        />
       </main>
     </div>
   );
@@ -355,7 +378,9 @@ const FilterControls: FC<{
 }> = ({ currentFilter, onFilterChange }) => (
   <LayoutGroup id="filter-group">
     <div className="inline-flex flex-wrap items-center bg-muted p-1 rounded-lg">
-      {(["all", "Present", "Absent", "Missed", "Not Available"] as const).map(
+      {(
+        ["all", "Present", "Late", "Absent", "Missed", "Not Available"] as const
+      ).map(
         (filter) => {
           const isActive = currentFilter === filter;
           return (
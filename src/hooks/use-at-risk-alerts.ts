@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { db } from "@/integrations/firebase/client";
+import { useUserAuth } from "@/context/UserAuthContext";
+import { useToast } from "@/components/ui/use-toast";
+import { getUserFriendlyErrorMessage } from "@/lib/errorHandler";
+
+export type AlertRule =
+  | "missed-standups"
+  | "low-learning-presence"
+  | "feedback-drop"
+  | "no-learning-points";
+export type AlertStatus = "open" | "acknowledged" | "resolved";
+
+// Stored in `alerts`; raised and cleared by the daily detectAtRiskEmployees
+// function, acknowledged and resolved by admins
+export interface AtRiskAlert {
+  id: string;
+  employeeId: string; // Auth uid
+  employeeName: string;
+  rule: AlertRule;
+  message: string;
+  value: number;
+  threshold: number;
+  status: AlertStatus;
+  detectedAt?: Timestamp;
+  lastDetectedAt?: Timestamp;
+  acknowledgedBy?: string;
+  acknowledgedAt?: Timestamp;
+  resolvedBy?: string;
+  resolvedAt?: Timestamp;
+  // Null while the condition holds; a resolved alert is not raised again
+  // until it has cleared
+  conditionClearedAt?: Timestamp | null;
+}
+
+export const ALERT_RULE_LABELS: Record<AlertRule, string> = {
+  "missed-standups": "Missed standups",
+  "low-learning-presence": "Low learning presence",
+  "feedback-drop": "Feedback drop",
+  "no-learning-points": "No learning points",
+};
+
+// Mirrors atRiskAlertConfigSchema in functions/src/validation.ts; a rule is
+// off while its threshold is null
+export interface AtRiskAlertConfig {
+  consecutiveMissedStandups: number | null;
+  learningPresenceBelow: number | null;
+  feedbackDrop: number | null;
+  sessionsWithoutLearningPoints: number | null;
+  lookbackDays: number;
+}
+
+// Mirrors DEFAULT_AT_RISK_ALERT_CONFIG in functions/src/config.ts
+export const DEFAULT_AT_RISK_ALERT_CONFIG: AtRiskAlertConfig = {
+  consecutiveMissedStandups: 3,
+  learningPresenceBelow: 60,
+  feedbackDrop: 0.5,
+  sessionsWithoutLearningPoints: 5,
+  lookbackDays: 30,
+};
+
+/**
+ * Alerts that still need attention, newest first.
+ */
+export function useAtRiskAlerts() {
+  const { user } = useUserAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const { data: alerts, isLoading } = useQuery({
+    queryKey: ["atRiskAlerts"],
+    queryFn: async () => {
+      const snapshot = await getDocs(
+        query(
+          collection(db, "alerts"),
+          where("status", "in", ["open", "acknowledged"]),
+        ),
+      );
+      return snapshot.docs
+        .map((d) => ({ ...(d.data() as AtRiskAlert), id: d.id }))
+        .sort(
+          (a, b) =>
+            (b.detectedAt?.toMillis() ?? 0) - (a.detectedAt?.toMillis() ?? 0),
+        );
+    },
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  const setAlertStatus = async (
+    alert: AtRiskAlert,
+    status: "acknowledged" | "resolved",
+  ) => {
+    setUpdatingId(alert.id);
+    const actor = user?.displayName || user?.email || "Admin";
+    try {
+      await updateDoc(
+        doc(db, "alerts", alert.id),
+        status === "acknowledged"
+          ? { status, acknowledgedBy: actor, acknowledgedAt: serverTimestamp() }
+          : { status, resolvedBy: actor, resolvedAt: serverTimestamp() },
+      );
+      await queryClient.invalidateQueries({ queryKey: ["atRiskAlerts"] });
+    } catch (error) {
+      console.error("Error updating alert:", error);
+      toast({
+        title: "Update Failed",
+        description: getUserFriendlyErrorMessage(
+          error,
+          "Could not update the alert.",
+        ),
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return { alerts: alerts ?? [], isLoading, updatingId, setAlertStatus };
+}
+
+/**
+ * Reads and saves the thresholds in `config/atRiskAlerts`, filling any unset
+ * one with its default as the detection function does.
+ */
+export function useAtRiskAlertConfig() {
+  const { user } = useUserAuth();
+  const queryClient = useQueryClient();
+
+  const { data: config, isLoading } = useQuery({
+    queryKey: ["atRiskAlertConfig"],
+    queryFn: async () => {
+      const snap = await getDoc(doc(db, "config", "atRiskAlerts"));
+      return {
+        ...DEFAULT_AT_RISK_ALERT_CONFIG,
+        ...(snap.exists() ? (snap.data() as Partial<AtRiskAlertConfig>) : {}),
+      };
+    },
+    staleTime: 10 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  const saveConfig = async (next: AtRiskAlertConfig) => {
+    await setDoc(doc(db, "config", "atRiskAlerts"), {
+      ...next,
+      updatedAt: serverTimestamp(),
+      updatedBy: user?.displayName || user?.email || "Admin",
+    });
+    await queryClient.invalidateQueries({ queryKey: ["atRiskAlertConfig"] });
+  };
+
+  return {
+    config: config ?? DEFAULT_AT_RISK_ALERT_CONFIG,
+    isLoading,
+    saveConfig,
+  };
+}
@@ -0,0 +1,73 @@
+import { useQuery } from "@tanstack/react-query";
+import { httpsCallable } from "firebase/functions";
+import { functions } from "@/integrations/firebase/client";
+import type { StatusCounts } from "@/hooks/use-employee-stats";
+
+export interface AnalyticsRequest {
+  from: string; // yyyy-MM-dd
+  to: string;
+  teamId?: string;
+}
+
+// Mirrors the getAttendanceAnalytics response in functions/src/analytics.ts
+export interface DailyAttendance {
+  date: string;
+  standups: StatusCounts;
+  learningHours: StatusCounts;
+  standupRate: number;
+  learningRate: number;
+}
+
+export interface WeekdayAttendance {
+  standups: StatusCounts;
+  learningHours: StatusCounts;
+}
+
+export interface EmployeeAnalytics {
+  employeeId: string;
+  name: string;
+  teamName: string | null;
+  workingDays: number;
+  standups: StatusCounts;
+  learningHours: StatusCounts;
+  standupPresence: number;
+  learningPresence: number;
+  presencePercentage: number;
+  learningPoints: number;
+}
+
+export interface AttendanceAnalytics {
+  from: string;
+  to: string; // Clipped to today
+  daily: DailyAttendance[];
+  weekdays: WeekdayAttendance[]; // Indexed by Date#getDay (0 = Sunday)
+  employees: EmployeeAnalytics[];
+}
+
+/**
+ * Organization-wide attendance for a date range, optionally for one team.
+ */
+export function useAttendanceAnalytics(request: AnalyticsRequest | null) {
+  const { data, isLoading, isFetching, error } = useQuery({
+    queryKey: [
+      "attendanceAnalytics",
+      request?.from,
+      request?.to,
+      request?.teamId ?? null,
+    ],
+    queryFn: async () => {
+      const callable = httpsCallable<AnalyticsRequest, AttendanceAnalytics>(
+        functions,
+        "getAttendanceAnalytics",
+        { timeout: 120 * 1000 },
+      );
+      const result = await callable(request!);
+      return result.data;
+    },
+    enabled: request !== null,
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  return { analytics: data ?? null, isLoading, isFetching, error };
+}
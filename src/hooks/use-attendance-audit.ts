@@ -0,0 +1,117 @@
+import { useQuery } from "@tanstack/react-query";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/integrations/firebase/client";
+import {
+  collection,
+  getDocs,
+  query,
+  Timestamp,
+  where,
+} from "firebase/firestore";
+
+export type AttendanceSessionType = "standups" | "learning_hours";
+
+export type AttendanceAuditSource =
+  | "standup-live"
+  | "self-check-in"
+  | "leave"
+  | "standup-end"
+  | "learning-hour-live"
+  | "learning-hour-end"
+  | "manual-edit"
+  | "correction"
+  | "sheet-reconcile";
+
+export interface AttendanceAuditActor {
+  actorId: string | null;
+  actorName: string;
+}
+
+// Stored in the append-only `attendanceAudit` collection; mirrors
+// functions/src/attendanceAudit.ts. Entries are only ever written by the
+// functions, under the account that made the change
+export interface AttendanceAuditEntry extends AttendanceAuditActor {
+  id: string;
+  sessionType: AttendanceSessionType;
+  sessionId: string;
+  date: string; // yyyy-MM-dd
+  employeeId: string;
+  oldStatus: string | null;
+  newStatus: string;
+  reason: string | null;
+  source: AttendanceAuditSource;
+  createdAt?: Timestamp;
+}
+
+export const AUDIT_SOURCE_LABELS: Record<AttendanceAuditSource, string> = {
+  "standup-live": "Marked during standup",
+  "self-check-in": "Self check-in",
+  leave: "Approved leave",
+  "standup-end": "Standup ended",
+  "learning-hour-live": "Marked during learning hour",
+  "learning-hour-end": "Learning hour saved",
+  "manual-edit": "Report edit",
+  correction: "Correction approved",
+  "sheet-reconcile": "Fixed in sheet",
+};
+
+// Matches markLiveAttendanceSchema in functions/src/validation.ts
+export interface LiveAttendanceMark {
+  sessionType: AttendanceSessionType;
+  teamId?: string; // Omitted for the organization-wide standup
+  employeeId: string;
+  status: string;
+  reason?: string;
+}
+
+/**
+ * Saves a mark made while today's session is running. The function records
+ * the audit entry under the caller's account and resolves to the status it
+ * stored, which is Late for a standup Present past the grace period.
+ */
+export async function markLiveAttendance(
+  mark: LiveAttendanceMark,
+): Promise<string> {
+  const callable = httpsCallable<
+    LiveAttendanceMark,
+    { success: boolean; status: string }
+  >(functions, "markLiveAttendance");
+  const { data } = await callable(mark);
+  return data.status;
+}
+
+/**
+ * Fetches every recorded change to one employee's attendance for a session
+ * type on `date`, newest first. Pass a null employee to skip fetching.
+ */
+export function useAttendanceHistory(
+  employeeId: string | null,
+  date: string,
+  sessionType: AttendanceSessionType,
+) {
+  const { data: entries, isLoading } = useQuery({
+    queryKey: ["attendanceAudit", employeeId, date, sessionType],
+    queryFn: async () => {
+      // Equality filters only, so no composite index is needed
+      const snapshot = await getDocs(
+        query(
+          collection(db, "attendanceAudit"),
+          where("employeeId", "==", employeeId),
+          where("date", "==", date),
+        ),
+      );
+      return snapshot.docs
+        .map((d) => ({ ...(d.data() as AttendanceAuditEntry), id: d.id }))
+        .filter((entry) => entry.sessionType === sessionType)
+        .sort(
+          (a, b) =>
+            (b.createdAt?.toMillis() ?? 0) - (a.createdAt?.toMillis() ?? 0),
+        );
+    },
+    enabled: employeeId !== null,
+    staleTime: 30 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  return { entries: entries ?? [], isLoading };
+}
@@ -1,3 +1,4 @@
+import { useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { db } from "@/integrations/firebase/client";
 import {
@@ -11,6 +12,14 @@ import {
 import { useUserAuth } from "@/context/UserAuthContext";
 import { useAdminAuth } from "@/context/AdminAuthContext";
 import { calculateStreak } from "@/lib/calculate-streak";
+import { getWorkingWeekdays } from "@/lib/working-days";
+import { useHolidays } from "@/hooks/use-holidays";
+import { useTeams } from "@/hooks/use-teams";
+import { useStandupSchedule } from "@/features/standups/hooks/useStandupSchedule";
+import {
+  appliesToTeam,
+  useCancelledStandups,
+} from "@/hooks/use-cancelled-standups";
 
 type AttendanceStreak = number | "N/A" | null;
 
@@ -18,7 +27,11 @@ type AttendanceStreak = number | "N/A" | null;
  * Fetches attendance data and calculates streak for a user.
  * Uses React Query for caching and automatic refetching.
  */
-async function fetchAttendanceStreak(userId: string): Promise<number> {
+async function fetchAttendanceStreak(
+  userId: string,
+  nonWorkingDates: Set<string>,
+  weekdays: Set<number>
+): Promise<number> {
   const attendanceRef = collection(db, "attendance");
   const q = query(
     attendanceRef,
@@ -35,18 +48,42 @@ async function fetchAttendanceStreak(userId: string): Promise<number> {
       }
   );
 
-  return calculateStreak(entries);
+  return calculateStreak(entries, nonWorkingDates, weekdays);
 }
 
 export function useAttendanceStreak() {
   const { user } = useUserAuth();
   const { admin } = useAdminAuth();
+  const { holidayDates, isLoading: holidaysLoading } = useHolidays();
+  const { teamByMember, isLoading: teamsLoading } = useTeams();
+  const { cancelledStandups, isLoading: cancelledLoading } =
+    useCancelledStandups();
+  const { schedule, isLoading: scheduleLoading } = useStandupSchedule();
+  const weekdays = useMemo(() => getWorkingWeekdays(schedule), [schedule]);
+
+  // Days whose standup was cancelled for this user never break the streak
+  const nonWorkingDates = useMemo(() => {
+    const teamId = (user && teamByMember.get(user.uid)?.id) ?? null;
+    const dates = new Set(holidayDates);
+    cancelledStandups
+      .filter((c) => appliesToTeam(c, teamId))
+      .forEach((c) => dates.add(c.date));
+    return dates;
+  }, [holidayDates, cancelledStandups, teamByMember, user]);
+  const calendarLoading =
+    holidaysLoading || teamsLoading || cancelledLoading || scheduleLoading;
 
   const { data: attendanceStreak, isLoading: attendanceLoading } =
     useQuery<AttendanceStreak>({
-      queryKey: ["attendanceStreak", user?.uid],
-      queryFn: () => fetchAttendanceStreak(user!.uid),
-      enabled: !!user && !admin,
+      queryKey: [
+        "attendanceStreak",
+        user?.uid,
+        nonWorkingDates.size,
+        [...weekdays].join(),
+      ],
+      queryFn: () =>
+        fetchAttendanceStreak(user!.uid, nonWorkingDates, weekdays),
+      enabled: !!user && !admin && !calendarLoading,
       staleTime: 5 * 60 * 1000, // Cache for 5 minutes
       gcTime: 10 * 60 * 1000, // Keep in cache for 10 minutes
       refetchOnWindowFocus: false,
@@ -67,6 +104,6 @@ export function useAttendanceStreak() {
 
   return {
     attendanceStreak: attendanceStreak ?? null,
-    attendanceLoading,
+    attendanceLoading: calendarLoading || attendanceLoading,
   };
 }
@@ -0,0 +1,66 @@
+import { useQuery } from "@tanstack/react-query";
+import { db } from "@/integrations/firebase/client";
+import { collection, getDocs, query, where } from "firebase/firestore";
+
+export interface CancelledStandup {
+  id: string;
+  date: string; // yyyy-MM-dd
+  teamId: string | null; // null for the organization-wide standup
+  teamName: string | null;
+  // Organization-wide standup held alongside teams, for members on no team
+  forUnassigned: boolean;
+  reason: string;
+}
+
+/**
+ * Fetches every cancelled standup. Cancelled days count as non-working days.
+ */
+async function fetchCancelledStandups(): Promise<CancelledStandup[]> {
+  const snapshot = await getDocs(
+    query(collection(db, "standups"), where("status", "==", "cancelled")),
+  );
+  return snapshot.docs.map((d) => {
+    const data = d.data();
+    return {
+      id: d.id,
+      // Organization-wide standups older than teams are keyed by date alone
+      date: data.date ?? d.id,
+      teamId: data.teamId ?? null,
+      teamName: data.teamName ?? null,
+      forUnassigned: data.forUnassigned === true,
+      reason: data.cancelReason ?? "",
+    };
+  });
+}
+
+/**
+ * Matches getCancelledStandupDates in functions/src/standups.ts: a member is
+ * affected by the organization-wide cancellations and their own team's. An
+ * organization-wide standup held alongside teams only affects members on no team.
+ */
+export const appliesToTeam = (
+  cancelled: CancelledStandup,
+  teamId: string | null,
+) =>
+  cancelled.teamId
+    ? cancelled.teamId === teamId
+    : !cancelled.forUnassigned || teamId === null;
+
+export function useCancelledStandups() {
+  const {
+    data: cancelledStandups,
+    isLoading,
+    refetch,
+  } = useQuery({
+    queryKey: ["cancelledStandups"],
+    queryFn: fetchCancelledStandups,
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  return {
+    cancelledStandups: cancelledStandups ?? [],
+    isLoading,
+    refetch,
+  };
+}
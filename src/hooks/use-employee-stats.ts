@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/integrations/firebase/client";
+import { useToast } from "@/components/ui/use-toast";
+import { formatErrorForDisplay } from "@/lib/errorHandler";
+
+export interface StatusCounts {
+  present: number;
+  late: number;
+  absent: number;
+  missed: number;
+  notAvailable: number;
+}
+
+// Statuses that count as attending a session: Late arrivals still attended,
+// as in `attendedDays` in functions/src/performance.ts
+export const ATTENDED_STATUSES = ["Present", "Late"];
+
+// Stored in `employeeStats/{uid}_{yyyy-MM}`; maintained by Firestore triggers
+// in functions/src/employeeStats.ts and never written by the client
+export interface EmployeeMonthStats {
+  id: string;
+  employeeId: string; // Auth uid
+  month: string; // yyyy-MM
+  standups: StatusCounts;
+  learningHours: StatusCounts;
+  learningPoints: number;
+  // Status per session day (yyyy-MM-dd)
+  standupStatuses: Record<string, string>;
+  learningHourStatuses: Record<string, string>;
+  learningPointsByDay: Record<string, number>;
+}
+
+/**
+ * Every employee's stats for one month.
+ */
+export function useMonthlyEmployeeStats(month: string) {
+  const { data: stats, isLoading } = useQuery({
+    queryKey: ["employeeStats", month],
+    queryFn: async () => {
+      const snapshot = await getDocs(
+        query(collection(db, "employeeStats"), where("month", "==", month)),
+      );
+      return snapshot.docs.map((d) => ({
+        ...(d.data() as EmployeeMonthStats),
+        id: d.id,
+      }));
+    },
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  return { stats: stats ?? [], isLoading };
+}
+
+/**
+ * Recomputes a month's stats from the raw attendance and learning points,
+ * for months recorded before the stats existed.
+ */
+export function useRebuildEmployeeStats() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isRebuilding, setIsRebuilding] = useState(false);
+
+  const rebuild = async (month: string) => {
+    setIsRebuilding(true);
+    try {
+      const callable = httpsCallable<
+        { month: string },
+        { success: boolean; message: string }
+      >(functions, "rebuildEmployeeStats", { timeout: 300 * 1000 });
+      const result = await callable({ month });
+      toast({ title: "Stats Rebuilt", description: result.data.message });
+      await queryClient.invalidateQueries({ queryKey: ["employeeStats"] });
+      return true;
+    } catch (error) {
+      console.error("Error rebuilding employee stats:", error);
+      const { title, description } = formatErrorForDisplay(
+        error,
+        "Rebuild Failed",
+        "rebuilding the monthly stats",
+      );
+      toast({ title, description, variant: "destructive" });
+      return false;
+    } finally {
+      setIsRebuilding(false);
+    }
+  };
+
+  return { rebuild, isRebuilding };
+}
@@ -0,0 +1,46 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { db } from "@/integrations/firebase/client";
+import { collection, getDocs, orderBy, query } from "firebase/firestore";
+
+export interface Holiday {
+  date: string; // yyyy-MM-dd, also the document id
+  name: string;
+  source?: "manual" | "ics";
+}
+
+/**
+ * Fetches the organization holiday calendar.
+ */
+async function fetchHolidays(): Promise<Holiday[]> {
+  const snapshot = await getDocs(
+    query(collection(db, "holidays"), orderBy("date", "asc"))
+  );
+  return snapshot.docs.map((d) => ({ ...(d.data() as Holiday), date: d.id }));
+}
+
+export function useHolidays() {
+  const {
+    data: holidays,
+    isLoading,
+    refetch,
+  } = useQuery({
+    queryKey: ["holidays"],
+    queryFn: fetchHolidays,
+    staleTime: 30 * 60 * 1000, // Holidays rarely change; cache for 30 minutes
+    gcTime: 60 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  const holidayDates = useMemo(
+    () => new Set((holidays ?? []).map((h) => h.date)),
+    [holidays]
+  );
+
+  return {
+    holidays: holidays ?? [],
+    holidayDates,
+    isLoading,
+    refetch,
+  };
+}
@@ -1,3 +1,4 @@
+import { useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { db } from "@/integrations/firebase/client";
 import {
@@ -11,6 +12,9 @@ import {
 import { useUserAuth } from "@/context/UserAuthContext";
 import { useAdminAuth } from "@/context/AdminAuthContext";
 import { calculateLearningStreak } from "@/lib/calculate-learning-streak";
+import { getWorkingWeekdays } from "@/lib/working-days";
+import { useHolidays } from "@/hooks/use-holidays";
+import { useStandupSchedule } from "@/features/standups/hooks/useStandupSchedule";
 
 // Define the type for the streak state
 type Streak = number | "N/A" | null;
@@ -35,7 +39,9 @@ async function fetchScheduledSessions(): Promise<Set<string>> {
  */
 async function fetchLearningStreak(
   userId: string,
-  conductedDates: Set<string>
+  conductedDates: Set<string>,
+  holidays: Set<string>,
+  weekdays: Set<number>
 ): Promise<number> {
   const attendanceRef = collection(db, "learning_hours_attendance");
   const q = query(
@@ -53,12 +59,15 @@ async function fetchLearningStreak(
       }
   );
 
-  return calculateLearningStreak(entries, conductedDates);
+  return calculateLearningStreak(entries, conductedDates, holidays, weekdays);
 }
 
 export function useLearningStreak() {
   const { user } = useUserAuth();
   const { admin } = useAdminAuth();
+  const { holidayDates, isLoading: holidaysLoading } = useHolidays();
+  const { schedule, isLoading: scheduleLoading } = useStandupSchedule();
+  const weekdays = useMemo(() => getWorkingWeekdays(schedule), [schedule]);
 
   // Query 1: Fetch scheduled sessions (cached for all users)
   const { data: conductedDates, isLoading: sessionsLoading } = useQuery({
@@ -70,9 +79,20 @@ export function useLearningStreak() {
 
   // Query 2: Fetch learning streak (depends on sessions being loaded)
   const { data: learningStreak, isLoading: streakLoading } = useQuery<Streak>({
-    queryKey: ["learningStreak", user?.uid],
-    queryFn: () => fetchLearningStreak(user!.uid, conductedDates!),
-    enabled: !!user && !admin && !!conductedDates,
+    queryKey: [
+      "learningStreak",
+      user?.uid,
+      holidayDates.size,
+      [...weekdays].join(),
+    ],
+    queryFn: () =>
+      fetchLearningStreak(user!.uid, conductedDates!, holidayDates, weekdays),
+    enabled:
+      !!user &&
+      !admin &&
+      !!conductedDates &&
+      !holidaysLoading &&
+      !scheduleLoading,
     staleTime: 5 * 60 * 1000, // Cache for 5 minutes
     gcTime: 10 * 60 * 1000,
     refetchOnWindowFocus: false,
@@ -91,6 +111,7 @@ export function useLearningStreak() {
 
   return {
     learningStreak: learningStreak ?? null,
-    loading: sessionsLoading || streakLoading,
+    loading:
+      sessionsLoading || holidaysLoading || scheduleLoading || streakLoading,
   };
 }
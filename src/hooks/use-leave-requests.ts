@@ -0,0 +1,73 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { db } from "@/integrations/firebase/client";
+import {
+  collection,
+  getDocs,
+  orderBy,
+  query,
+  Timestamp,
+  where,
+} from "firebase/firestore";
+
+export type LeaveStatus = "pending" | "approved" | "rejected";
+
+// Stored in `leaveRequests`; filed through the submitLeaveRequest callable
+export interface LeaveRequest {
+  id: string;
+  employeeId: string;
+  employeeName: string;
+  startDate: string; // yyyy-MM-dd, inclusive
+  endDate: string; // yyyy-MM-dd, inclusive
+  reason: string;
+  status: LeaveStatus;
+  createdAt?: Timestamp;
+  reviewedBy?: string;
+  reviewedAt?: Timestamp;
+}
+
+export const formatLeaveRange = (startDate: string, endDate: string) =>
+  startDate === endDate
+    ? format(parseISO(startDate), "EEE, MMM d, yyyy")
+    : `${format(parseISO(startDate), "MMM d")} – ${format(
+        parseISO(endDate),
+        "MMM d, yyyy",
+      )}`;
+
+const toLeaveRequests = (docs: { id: string; data: () => unknown }[]) =>
+  docs.map((d) => ({ ...(d.data() as LeaveRequest), id: d.id }));
+
+/**
+ * Fetches leave requests, newest first: one employee's when `employeeId` is
+ * given, otherwise everyone's for admin review.
+ */
+export function useLeaveRequests(employeeId?: string | null) {
+  const {
+    data: leaveRequests,
+    isLoading,
+    refetch,
+  } = useQuery({
+    queryKey: ["leaveRequests", employeeId ?? "all"],
+    queryFn: async () => {
+      const leaveRef = collection(db, "leaveRequests");
+      const snapshot = await getDocs(
+        employeeId
+          ? query(leaveRef, where("employeeId", "==", employeeId))
+          : query(leaveRef, orderBy("createdAt", "desc")),
+      );
+      return toLeaveRequests(snapshot.docs).sort(
+        (a, b) =>
+          (b.createdAt?.toMillis() ?? 0) - (a.createdAt?.toMillis() ?? 0),
+      );
+    },
+    enabled: employeeId !== null,
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  return {
+    leaveRequests: leaveRequests ?? [],
+    isLoading,
+    refetch,
+  };
+}
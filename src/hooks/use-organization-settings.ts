@@ -0,0 +1,70 @@
+import { useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { db } from "@/integrations/firebase/client";
+import { doc, getDoc, serverTimestamp, setDoc } from "firebase/firestore";
+import { useUserAuth } from "@/context/UserAuthContext";
+import {
+  DEFAULT_TIME_ZONE,
+  getSessionDateId,
+  isValidTimeZone,
+} from "@/lib/session-date";
+
+export interface OrganizationSettings {
+  timeZone: string; // IANA zone, e.g. "Asia/Kolkata"
+}
+
+/**
+ * Reads `config/organization`, falling back to the default time zone when it
+ * is missing or invalid. The functions read the same document.
+ */
+async function fetchOrganizationSettings(): Promise<OrganizationSettings> {
+  const snap = await getDoc(doc(db, "config", "organization"));
+  const timeZone = snap.exists() ? snap.data().timeZone : undefined;
+  return {
+    timeZone:
+      typeof timeZone === "string" && isValidTimeZone(timeZone)
+        ? timeZone
+        : DEFAULT_TIME_ZONE,
+  };
+}
+
+export function useOrganizationSettings() {
+  const { user } = useUserAuth();
+  const queryClient = useQueryClient();
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ["organizationSettings"],
+    queryFn: fetchOrganizationSettings,
+    staleTime: 30 * 60 * 1000, // Changes at most a handful of times; cache for 30 minutes
+    gcTime: 60 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  const saveTimeZone = async (timeZone: string) => {
+    await setDoc(
+      doc(db, "config", "organization"),
+      {
+        timeZone,
+        updatedAt: serverTimestamp(),
+        updatedBy: user?.displayName || user?.email || "Admin",
+      },
+      { merge: true }
+    );
+    await queryClient.invalidateQueries({
+      queryKey: ["organizationSettings"],
+    });
+  };
+
+  return {
+    timeZone: settings?.timeZone ?? DEFAULT_TIME_ZONE,
+    isLoading,
+    saveTimeZone,
+  };
+}
+
+/**
+ * The id of today's session documents in the organization time zone.
+ */
+export function useSessionDateId() {
+  const { timeZone } = useOrganizationSettings();
+  return useMemo(() => getSessionDateId(timeZone), [timeZone]);
+}
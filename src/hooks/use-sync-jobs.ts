@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  collection,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  Timestamp,
+} from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "@/integrations/firebase/client";
+import { useToast } from "@/components/ui/use-toast";
+import { formatErrorForDisplay } from "@/lib/errorHandler";
+
+export type SyncJobType =
+  "attendance-sync" | "learning-points-sync" | "attendance-backfill";
+export type SyncJobStatus = "queued" | "running" | "completed" | "failed";
+
+// Stored in `syncJobs`; written only by the sync functions. Single runs carry
+// `params`, row counts and a duration; backfills carry their range progress.
+export interface SyncJob {
+  id: string;
+  type: SyncJobType;
+  trigger?: "manual" | "scheduled" | "retry";
+  status: SyncJobStatus;
+  params?: Record<string, string>;
+  actorName?: string;
+  createdByName?: string;
+  retryOf?: string | null;
+  retriedAt?: Timestamp;
+  message?: string;
+  error?: string;
+  rowsWritten?: number;
+  rowsDeleted?: number;
+  durationMs?: number;
+  // Backfills only
+  from?: string;
+  to?: string;
+  completedDays?: number;
+  totalDays?: number;
+  lastError?: string | null;
+  createdAt?: Timestamp;
+  finishedAt?: Timestamp;
+  completedAt?: Timestamp;
+}
+
+export const SYNC_JOB_TYPE_LABELS: Record<SyncJobType, string> = {
+  "attendance-sync": "Attendance",
+  "learning-points-sync": "Learning Points",
+  "attendance-backfill": "Attendance Backfill",
+};
+
+/**
+ * Describes what a run covered, e.g. "2024-05-01 · standups".
+ */
+export function describeSyncJob(job: SyncJob): string {
+  if (job.type === "attendance-backfill") {
+    return `${job.from} to ${job.to}`;
+  }
+  const { date, sessionType, sessionId, teamId } = job.params ?? {};
+  return [date ?? sessionId, sessionType?.replace("_", " "), teamId && "team"]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+// Matches functions/src/syncJobs.ts: past the longest function timeout, a run
+// still marked running was killed before it could record its outcome
+const STALE_RUN_MS = 10 * 60 * 1000;
+
+/**
+ * Shows a single run cut off mid-run as failed, and so retryable, before the
+ * scheduled sweep records it. Backfills hold a lease and are resumed instead.
+ */
+function withStaleRunFailed(job: SyncJob, now: number): SyncJob {
+  const isStale =
+    job.status === "running" &&
+    job.type !== "attendance-backfill" &&
+    !!job.createdAt &&
+    now - job.createdAt.toMillis() > STALE_RUN_MS;
+  return isStale
+    ? {
+        ...job,
+        status: "failed",
+        error:
+          "The run stopped before finishing (timed out or was interrupted).",
+      }
+    : job;
+}
+
+/**
+ * The latest finished run of each scheduled integration, for a health summary.
+ */
+export function getLatestSyncRuns(jobs: SyncJob[]) {
+  const finished = jobs.filter(
+    (j) => j.status === "completed" || j.status === "failed"
+  );
+  return {
+    attendance: finished.find((j) => j.type === "attendance-sync") ?? null,
+    learningPoints:
+      finished.find((j) => j.type === "learning-points-sync") ?? null,
+  };
+}
+
+/**
+ * Recent sync runs, newest first, with a retry for failed ones.
+ */
+export function useSyncJobs(max = 100) {
+  const { toast } = useToast();
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const {
+    data: jobs,
+    isLoading,
+    refetch,
+  } = useQuery({
+    queryKey: ["syncJobs", max],
+    queryFn: async () => {
+      const snapshot = await getDocs(
+        query(
+          collection(db, "syncJobs"),
+          orderBy("createdAt", "desc"),
+          limit(max)
+        )
+      );
+      const now = Date.now();
+      return snapshot.docs.map((d) =>
+        withStaleRunFailed({ ...(d.data() as SyncJob), id: d.id }, now)
+      );
+    },
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  const retryJob = async (job: SyncJob) => {
+    setRetryingId(job.id);
+    try {
+      // Backfills pick up from their first unsynced day instead of re-running
+      const callable = httpsCallable<
+        { jobId: string },
+        { success: boolean; message?: string }
+      >(
+        functions,
+        job.type === "attendance-backfill"
+          ? "resumeAttendanceBackfill"
+          : "retrySyncJob"
+      );
+      const result = await callable({ jobId: job.id });
+      toast({
+        title: "Sync Retried",
+        description: result.data.message || "The sync ran again.",
+      });
+      return true;
+    } catch (error) {
+      console.error("Error retrying sync job:", error);
+      const { title, description } = formatErrorForDisplay(
+        error,
+        "Retry Failed",
+        "retrying the sync"
+      );
+      toast({ title, description, variant: "destructive" });
+      return false;
+    } finally {
+      setRetryingId(null);
+      refetch();
+    }
+  };
+
+  return { jobs: jobs ?? [], isLoading, refetch, retryJob, retryingId };
+}
@@ -0,0 +1,67 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { db } from "@/integrations/firebase/client";
+import { collection, getDocs, orderBy, query } from "firebase/firestore";
+
+export interface Team {
+  id: string;
+  name: string;
+  memberIds: string[];
+  facilitatorId: string | null; // Co-admin who runs the team's standup
+  startTime: string | null; // HH:mm override of the standup calendar
+}
+
+/**
+ * Matches getStandupDocId in functions/src/teams.ts: team standups are keyed
+ * `{date}_{teamId}`, the organization-wide standup by date alone.
+ */
+export const getStandupDocId = (date: string, teamId?: string | null) =>
+  teamId ? `${date}_${teamId}` : date;
+
+/**
+ * Fetches the standup teams. An empty list means everyone shares one standup.
+ */
+async function fetchTeams(): Promise<Team[]> {
+  const snapshot = await getDocs(
+    query(collection(db, "teams"), orderBy("name", "asc"))
+  );
+  return snapshot.docs.map((d) => {
+    const data = d.data();
+    return {
+      id: d.id,
+      name: data.name,
+      memberIds: data.memberIds ?? [],
+      facilitatorId: data.facilitatorId ?? null,
+      startTime: data.startTime ?? null,
+    };
+  });
+}
+
+export function useTeams() {
+  const {
+    data: teams,
+    isLoading,
+    refetch,
+  } = useQuery({
+    queryKey: ["teams"],
+    queryFn: fetchTeams,
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+
+  // Each employee belongs to at most one team
+  const teamByMember = useMemo(() => {
+    const map = new Map<string, Team>();
+    (teams ?? []).forEach((team) =>
+      team.memberIds.forEach((id) => map.set(id, team))
+    );
+    return map;
+  }, [teams]);
+
+  return {
+    teams: teams ?? [],
+    teamByMember,
+    isLoading,
+    refetch,
+  };
+}
@@ -45,6 +45,19 @@ const CoAdminAddLearningPoints = lazy(
 const UserApprovalPage = lazy(
   () => import("@/features/admin/pages/UserApprovalPage")
 );
+const AdminHolidays = lazy(
+  () => import("@/features/admin/pages/AdminHolidays")
+);
+const AdminTeams = lazy(() => import("@/features/admin/pages/AdminTeams"));
+const AdminLeaveRequests = lazy(
+  () => import("@/features/admin/pages/AdminLeaveRequests")
+);
+const AdminSyncJobs = lazy(
+  () => import("@/features/admin/pages/AdminSyncJobs")
+);
+const AdminAnalytics = lazy(
+  () => import("@/features/admin/pages/AdminAnalytics")
+);
 
 export type ViewType =
   | "home"
@@ -62,7 +75,12 @@ export type ViewType =
   | "daily-observations"
   | "archived-employees"
   | "add-learning-points"
-  | "user-approval";
+  | "user-approval"
+  | "holidays"
+  | "teams"
+  | "leave-requests"
+  | "sync-jobs"
+  | "analytics";
 
 export interface ViewState {
   view: ViewType;
@@ -153,6 +171,11 @@ export default function AppShell() {
       "add-learning-points":
         isAdmin || isCoAdmin ? CoAdminAddLearningPoints : AccessDenied,
       "user-approval": admin ? UserApprovalPage : AccessDenied,
+      holidays: admin ? AdminHolidays : AccessDenied,
+      teams: admin ? AdminTeams : AccessDenied,
+      "leave-requests": admin ? AdminLeaveRequests : AccessDenied,
+      "sync-jobs": admin ? AdminSyncJobs : AccessDenied,
+      analytics: admin ? AdminAnalytics : AccessDenied,
     };
 
     const ComponentToRender = viewMap[view] || viewMap.home;
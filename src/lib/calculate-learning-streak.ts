@@ -1,14 +1,18 @@
 import { Timestamp } from "firebase/firestore";
+import { DEFAULT_WORKING_WEEKDAYS, isWorkingDay } from "./working-days";
 
 /**
  * Given an array of attendance entries sorted descending by date,
  * and a set of all conducted learning session dates,
- * returns the length of the current “Present” streak for a Monday-Saturday work week.
- * The streak does not break on days where a session was not conducted.
+ * returns the length of the current “Present” streak over the working `weekdays`.
+ * The streak does not break on days where a session was not conducted,
+ * nor on organization holidays.
  */
 export function calculateLearningStreak(
     entries: { status: string; scheduled_at: Timestamp }[],
-    allConductedDates: Set<string>
+    allConductedDates: Set<string>,
+    holidays: Set<string> = new Set(),
+    weekdays: ReadonlySet<number> = DEFAULT_WORKING_WEEKDAYS
 ): number {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -16,12 +20,11 @@ export function calculateLearningStreak(
     // Exclude entries marked as "Missed" and entries on Sundays.
     const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
 
-    // Exclude entries marked as "Missed" and entries on Sundays.
+    // Exclude entries marked as "Missed" and entries on days off or holidays.
     const validEntries = entries
         .filter(e => {
             const eventDate = e.scheduled_at.toDate();
-            const day = eventDate.getDay();
-            const isWorkday = day !== 0; // 0 is Sunday
+            const isWorkday = isWorkingDay(eventDate, holidays, weekdays);
             const isMissed = e.status === "Missed";
             return !isMissed && isWorkday && eventDate >= startOfMonth;
         })
@@ -37,7 +40,8 @@ export function calculateLearningStreak(
     const mostRecentDate = validEntries[0].scheduled_at.toDate();
     mostRecentDate.setHours(0, 0, 0, 0);
 
-    const conductedDatesArray = Array.from(allConductedDates).sort((a, b) => new Date(b).getTime() - new Date(a).getTime());
+    // Sessions held on a holiday are optional and must not break the streak
+    const conductedDatesArray = Array.from(allConductedDates).filter(dateStr => !holidays.has(dateStr)).sort((a, b) => new Date(b).getTime() - new Date(a).getTime());
     const lastConductedDateStr = conductedDatesArray[0];
 
     if (lastConductedDateStr) {
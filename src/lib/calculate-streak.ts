@@ -1,21 +1,30 @@
 import { Timestamp } from "firebase/firestore";
+import {
+    countWorkingDaysBetween,
+    DEFAULT_WORKING_WEEKDAYS,
+    isWorkingDay,
+} from "./working-days";
 
 /**
  * Given an array of attendance entries sorted descending by date,
- * returns the length of the current “Present” streak for a Monday-Saturday work week.
+ * returns the length of the current “Present” streak over the working `weekdays`.
+ * Organization holidays and days whose standup was cancelled (`holidays` holds both)
+ * are skipped over like disabled weekdays and never break the streak.
  */
 export function calculateStreak(
-    entries: { status: string; scheduled_at: Timestamp }[]
+    entries: { status: string; scheduled_at: Timestamp }[],
+    holidays: Set<string> = new Set(),
+    weekdays: ReadonlySet<number> = DEFAULT_WORKING_WEEKDAYS
 ): number {
     const today = new Date();
     const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
 
-    // Keep only the days the user was present on a workday (Mon-Sat) this month.
+    // Keep every working day this month with any status but Missed: Present,
+    // Late, Absent and Not Available days all extend the streak.
     const presents = entries
         .filter(e => {
             const eventDate = e.scheduled_at.toDate();
-            const day = eventDate.getDay();
-            const isWorkday = day !== 0; // 0 is Sunday
+            const isWorkday = isWorkingDay(eventDate, holidays, weekdays);
             const isMissed = e.status === "Missed";
             return !isMissed && isWorkday && eventDate >= startOfMonth;
         })
@@ -36,11 +45,12 @@ export function calculateStreak(
     const diffFromToday =
         (today.getTime() - mostRecentDate.getTime()) / (1000 * 60 * 60 * 24);
 
-    // If the most recent entry is not from today or yesterday (or the day before on Monday), the streak is 0.
-    if (today.getDay() === 1) { // Monday
-        if (diffFromToday > 2) return 0;
-    } else {
-        if (diffFromToday > 1) return 0;
+    // If the most recent entry is not from today or the previous working day, the streak is 0.
+    if (
+        diffFromToday < 0 ||
+        countWorkingDaysBetween(mostRecentDate, today, holidays, weekdays) > 0
+    ) {
+        return 0;
     }
 
     // Start streak at 1 for the most recent "Present" day.
@@ -54,10 +64,15 @@ export function calculateStreak(
         const diffDays =
             (prevDate.getTime() - currDate.getTime()) / (1000 * 60 * 60 * 24);
 
-        // A streak continues if the gap is 1 day (e.g., Tue -> Mon).
-        // It also continues if the gap is 2 days and the previous day was a Monday,
-        // which accounts for jumping over a Sunday from Saturday.
-        if (diffDays === 1 || (diffDays === 2 && prevDate.getDay() === 1)) {
+        // A streak continues if no working day lies between the two entries,
+        // e.g. Tue -> Mon, or Mon -> Sat jumping over a day off or a holiday.
+        const workingDaysBetween = countWorkingDaysBetween(
+            currDate,
+            prevDate,
+            holidays,
+            weekdays
+        );
+        if (diffDays >= 1 && workingDaysBetween === 0) {
             streak++;
             prevDate = currDate;
         } else {
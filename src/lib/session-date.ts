@@ -0,0 +1,119 @@
+// Matches DEFAULT_TIME_ZONE in functions/src/config.ts
+export const DEFAULT_TIME_ZONE = "Asia/Kolkata";
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the `yyyy-MM-dd` id of the session day that `date` falls on in the
+ * organization time zone, whatever the browser's own zone is. Mirrors
+ * getSessionDateId in functions/src/config.ts.
+ */
+export function getSessionDateId(timeZone: string, date = new Date()): string {
+  // en-CA formats dates as yyyy-MM-dd
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+// Wall-clock fields of `date` in `timeZone`
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+    weekday: "short",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? "";
+  return {
+    year: Number(get("year")),
+    month: Number(get("month")),
+    day: Number(get("day")),
+    hour: Number(get("hour")),
+    minute: Number(get("minute")),
+    second: Number(get("second")),
+    weekday: get("weekday"),
+  };
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Weekday (0 = Sunday) that `date` falls on in the organization time zone.
+ * Mirrors getZonedDayOfWeek in functions/src/config.ts.
+ */
+export function getZonedDayOfWeek(date: Date, timeZone: string): number {
+  return WEEKDAYS.indexOf(getZonedParts(date, timeZone).weekday);
+}
+
+/**
+ * Weekday (0 = Sunday) of a `yyyy-MM-dd` session day, which is the same in
+ * every zone.
+ */
+export function getSessionDayOfWeek(dateId: string): number {
+  const [year, month, day] = dateId.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Formats the wall-clock time of `date` in the organization time zone as HH:mm.
+ */
+export function formatTimeInZone(date: Date, timeZone: string): string {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+// Milliseconds the zone is ahead of UTC at `date`
+function getZoneOffset(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Returns the instant at which it is `time` (HH:mm) on the session day
+ * `dateId` in the organization time zone, or an invalid Date when either is
+ * malformed. Mirrors zonedTimeToUtc as the functions use it.
+ */
+export function zonedTimeToDate(
+  dateId: string,
+  time: string,
+  timeZone: string
+): Date {
+  const dateMatch = dateId.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const timeMatch = time.match(/^([01]\d|2[0-3]):([0-5]\d)$/);
+  if (!dateMatch || !timeMatch) return new Date(NaN);
+  const wallClock = Date.UTC(
+    Number(dateMatch[1]),
+    Number(dateMatch[2]) - 1,
+    Number(dateMatch[3]),
+    Number(timeMatch[1]),
+    Number(timeMatch[2])
+  );
+  // Re-read the offset at the first guess so DST transitions land correctly
+  const guess = wallClock - getZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getZoneOffset(new Date(guess), timeZone));
+}
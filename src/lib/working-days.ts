@@ -0,0 +1,63 @@
+import { format } from "date-fns";
+
+/**
+ * Formats a date as the `yyyy-MM-dd` key used for session and holiday documents.
+ */
+export function toDateKey(date: Date): string {
+    return format(date, "yyyy-MM-dd");
+}
+
+// Monday to Saturday, the enabled days of the default standup calendar
+export const DEFAULT_WORKING_WEEKDAYS: ReadonlySet<number> = new Set([
+    1, 2, 3, 4, 5, 6,
+]);
+
+/**
+ * Returns the weekdays (Date#getDay, 0 = Sunday) a standup calendar enables.
+ */
+export function getWorkingWeekdays(schedule: {
+    days: Record<string, { enabled: boolean }>;
+}): Set<number> {
+    return new Set(
+        Object.entries(schedule.days)
+            .filter(([, day]) => day.enabled)
+            .map(([weekday]) => Number(weekday))
+    );
+}
+
+/**
+ * A working day falls on a weekday the standup calendar enables and is not on
+ * the holiday calendar.
+ */
+export function isWorkingDay(
+    date: Date,
+    holidays: Set<string>,
+    weekdays: ReadonlySet<number> = DEFAULT_WORKING_WEEKDAYS
+): boolean {
+    return weekdays.has(date.getDay()) && !holidays.has(toDateKey(date));
+}
+
+/**
+ * Counts the working days strictly between two dates (both exclusive),
+ * regardless of which one comes first.
+ */
+export function countWorkingDaysBetween(
+    a: Date,
+    b: Date,
+    holidays: Set<string>,
+    weekdays: ReadonlySet<number> = DEFAULT_WORKING_WEEKDAYS
+): number {
+    const [start, end] = a < b ? [a, b] : [b, a];
+    const cursor = new Date(start);
+    cursor.setHours(0, 0, 0, 0);
+    cursor.setDate(cursor.getDate() + 1);
+    const last = new Date(end);
+    last.setHours(0, 0, 0, 0);
+
+    let count = 0;
+    while (cursor < last) {
+        if (isWorkingDay(cursor, holidays, weekdays)) count++;
+        cursor.setDate(cursor.getDate() + 1);
+    }
+    return count;
+}